@@ -1,5 +1,4 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import html2canvas from 'html2canvas';
 import { AIPanel } from './components/AIPanel';
 import { WebsitePreview } from './components/WebsitePreview';
 import { Sidebar } from './components/Sidebar';
@@ -9,17 +8,44 @@ import { OverlayPanel } from './components/OverlayPanel';
 import { ContextMenu, ContextMenuItem } from './components/ContextMenu';
 import { CodePreviewModal } from './components/CodePreviewModal';
 import { AnnotationModal } from './components/AnnotationModal';
-import { CodeEditor } from './components/CodeEditor';
+import { CodeEditor, type EditorRevealRequest } from './components/CodeEditor';
 import { InputModal } from './components/InputModal';
+import { AISettingsModal } from './components/AISettingsModal';
+import { AutoPilotSettingsModal } from './components/AutoPilotSettingsModal';
 import * as geminiService from './services/geminiService';
-import type { AITask, FileSystemTree, FileSystemNode, FileOperation, LogMessage, Workspace, FileNode, ActivePanelId, WorkspaceUiState, OverlayPanelId, FolderNode, SelectedElement, AttachmentContext, AppBlueprint } from './types';
+import { DEFAULT_AI_SETTINGS } from './services/providers';
+import { collectPreviewModules } from './services/previewBundler';
+import { DEFAULT_PREVIEW_VIEWPORT } from './services/previewViewport';
+import { formatSourceExcerpt } from './services/previewConsole';
+import { describeFailingTests } from './services/previewTests';
+import { verifyPreview, describePreviewProblems, MAX_VERIFICATION_REPAIRS } from './services/previewVerification';
+import { DEFAULT_AUTOPILOT_POLICY, findPolicyViolations, getAutoPilotSession, getAutoPilotLimitReason, buildAutoPilotPrompt } from './services/autoPilot';
+import { estimateTokens, formatTokenCount } from './services/tokenEstimate';
+import { findRecentlyEditedPaths, findPartialContextUpdates } from './services/taskContext';
+import { capturePreview, runVisualCheckpointsOnTree, recordCheckpointRun, acceptVisualCheckpoint, getFailingCheckpoints, describeFailedRuns } from './services/visualCheckpoints';
+import { applyFileOperations, findNodeByPath, updateFileContent, selectApprovedOperations, revertOperations, fingerprintFiles, treeVersion, findConflictingPaths } from './services/fileSystem';
+import { withSnapshot, findTaskSnapshot } from './services/history';
+import { openWorkspaceStorage, type WorkspaceStorage } from './services/workspaceStorage';
+import { extractStreamingMessage } from './services/aiResponse';
+import type { SearchMatch } from './services/workspaceSearch';
+import { createCommandRegistry, eventToKeybinding, getKeybinding, type Command, type KeybindingOverrides } from './services/commands';
+import { exportWorkspaceArchive, importWorkspaceArchive, toArchiveFileName } from './services/workspaceArchive';
+import type { AITask, FileSystemTree, FileSystemNode, FileOperation, LogMessage, Workspace, FileNode, ActivePanelId, WorkspaceUiState, EditorLayout, OverlayPanelId, PreviewViewport, FolderNode, SelectedElement, AttachmentContext, AppBlueprint, AIProviderSettings, OperationApproval, SourceLocation, VisualCheckpoint, TestFileResult, AssistantResponse, VerificationAttempt, AutoPilotPolicy, TaskUsage, ContextFileEntry, TaskVerification } from './types';
 import { WorkspacesPanel } from './components/WorkspacesPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CommandPalette, CommandRegistryContext, type CommandPaletteMode } from './components/CommandPalette';
+import { KeyboardShortcutsModal } from './components/KeyboardShortcutsModal';
+import { SearchPanel, DEFAULT_SEARCH_STATE, type SearchPanelState } from './components/SearchPanel';
+import { VisualCheckpointsPanel } from './components/VisualCheckpointsPanel';
 
 import { QuantumCodeLogo } from './components/icons/QuantumCodeLogo';
 import { AIAssistantIcon } from './components/icons/AIAssistantIcon';
 import { ExtensionsIcon } from './components/icons/ExtensionsIcon';
 import { FileExplorerIcon } from './components/icons/FileExplorerIcon';
 import { WorkspaceIcon } from './components/icons/WorkspaceIcon';
+import { ClockIcon } from './components/icons/ClockIcon';
+import { SearchIcon } from './components/icons/SearchIcon';
+import { EyeIcon } from './components/icons/EyeIcon';
 import { LoaderIcon } from './components/icons/LoaderIcon';
 
 const INITIAL_CODE = `// Welcome to Quantum Code!
@@ -28,8 +54,9 @@ const INITIAL_CODE = `// Welcome to Quantum Code!
 // The AI will first create a plan. Approve it, and watch it build!
 // Or, enable Auto-Pilot and see what it comes up with on its own.
 
+// Split your UI into as many files as you like: relative imports work in the preview.
 // React is available globally in the preview, no import needed.
-function App() {
+export default function App() {
   return (
     <div className="p-8 text-center bg-gray-100 h-screen flex flex-col justify-center items-center">
       <h1 className="text-4xl font-bold text-gray-800 mb-4">
@@ -42,9 +69,20 @@ function App() {
   );
 }`;
 
+const INITIAL_PACKAGE_JSON = `{
+  "name": "my-app",
+  "private": true,
+  "dependencies": {}
+}
+`;
+
 const INITIAL_FILES: FileSystemTree = {
   type: 'folder',
   children: {
+    'package.json': {
+      type: 'file',
+      content: INITIAL_PACKAGE_JSON,
+    },
     'src': {
       type: 'folder',
       children: {
@@ -57,95 +95,36 @@ const INITIAL_FILES: FileSystemTree = {
   },
 };
 
-const LOCAL_STORAGE_WORKSPACES_KEY = 'quantum_code_workspaces';
 const LOCAL_STORAGE_ACTIVE_WORKSPACE_KEY = 'quantum_code_active_workspace';
 const LOCAL_STORAGE_UI_STATES_KEY = 'quantum_code_ui_states';
+const LOCAL_STORAGE_KEYBINDINGS_KEY = 'quantum_code_keybindings';
 
 const DEFAULT_UI_STATE: WorkspaceUiState = {
     activeOverlay: null,
     activeEditorPath: 'src/App.tsx',
+    openEditorPaths: ['src/App.tsx'],
+    secondaryEditorPath: null,
+    editorLayout: 'single',
     isPreviewFullscreen: false,
     aiPrompt: '',
     previewTab: 'preview',
+    previewViewport: DEFAULT_PREVIEW_VIEWPORT,
     isAutoPilotOn: false,
+    isVerificationOn: false,
+    autoPilotStartedAt: null,
+    autoPilotStopReason: null,
 };
 
-// --- File System Utilities ---
-const traversePath = (tree: FileSystemTree, path: string, createParents: boolean = false): { parent: FolderNode | null; node: FileSystemNode | null; key: string } => {
-    const parts = path.split('/').filter(p => p);
-    if (parts.length === 0) return { parent: null, node: tree, key: '' };
-    let current: any = tree;
-    for (let i = 0; i < parts.length - 1; i++) {
-        const part = parts[i];
-        if (current.type !== 'folder') return { parent: null, node: null, key: '' };
-        let child = current.children[part];
-        if (!child) {
-            if (createParents) {
-                child = { type: 'folder', children: {} };
-                current.children[part] = child;
-            } else { return { parent: null, node: null, key: '' }; }
-        }
-        current = child;
-    }
-    const key = parts[parts.length - 1];
-    if (current.type !== 'folder') return { parent: null, node: null, key: '' };
-    return { parent: current, node: current.children[key] || null, key };
-};
+// UI states saved before editor tabs existed only have `activeEditorPath`; it becomes the single open tab.
+const withUiStateDefaults = (saved?: WorkspaceUiState): WorkspaceUiState => saved ? { ...DEFAULT_UI_STATE, openEditorPaths: saved.activeEditorPath ? [saved.activeEditorPath] : [], ...saved } : DEFAULT_UI_STATE;
 
-const applyFileOperations = (tree: FileSystemTree, operations: FileOperation[]): FileSystemTree => {
-    const newTree = JSON.parse(JSON.stringify(tree));
-    for (const op of operations) {
-        try {
-            switch (op.operation) {
-                case 'CREATE_FILE': case 'UPDATE_FILE': {
-                    const { parent, key } = traversePath(newTree, op.path, true);
-                    if (parent && key) parent.children[key] = { type: 'file', content: op.content || '' };
-                    else throw new Error(`Invalid path for CREATE/UPDATE: ${op.path}`);
-                    break;
-                }
-                case 'CREATE_FOLDER': {
-                    const { parent, key } = traversePath(newTree, op.path, true);
-                    if (parent && key && !parent.children[key]) parent.children[key] = { type: 'folder', children: {} };
-                    else if (!parent || !key) throw new Error(`Invalid path for CREATE_FOLDER: ${op.path}`);
-                    break;
-                }
-                case 'DELETE_FILE': case 'DELETE_FOLDER': {
-                    const { parent, node, key } = traversePath(newTree, op.path, false);
-                    if (parent && node && key) delete parent.children[key];
-                    break;
-                }
-                case 'RENAME_FILE': case 'RENAME_FOLDER': {
-                    if (!op.newPath) throw new Error(`Missing newPath for RENAME on ${op.path}`);
-                    const { parent: oldParent, node, key: oldKey } = traversePath(newTree, op.path, false);
-                    if (!oldParent || !node || !oldKey) throw new Error(`Source path not found for RENAME: ${op.path}`);
-                    delete oldParent.children[oldKey];
-                    const { parent: newParent, key: newKey } = traversePath(newTree, op.newPath, true);
-                    if (newParent && newKey) newParent.children[newKey] = node;
-                    else throw new Error(`Invalid destination path for RENAME: ${op.newPath}`);
-                    break;
-                }
-            }
-        } catch (e) { console.error(`Failed to apply operation:`, op, e); }
-    }
-    return newTree;
-};
+// Auto-Pilot limits count from `autoPilotStartedAt`. States saved without it while Auto-Pilot was on start counting when loaded.
+const withAutoPilotStart = (state: WorkspaceUiState): WorkspaceUiState => state.isAutoPilotOn && !state.autoPilotStartedAt ? { ...state, autoPilotStartedAt: new Date().toISOString() } : state;
 
-const findNodeByPath = (path: string, tree: FileSystemTree): FileSystemNode | null => {
-  const parts = path.split('/').filter(Boolean);
-  let current: FileSystemNode | FileSystemTree = tree;
-  for (const part of parts) {
-      if (current.type === 'folder' && current.children[part]) current = current.children[part];
-      else return null;
-  }
-  return current;
-};
+const getSavedKeybindingOverrides = (): KeybindingOverrides => { try { return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEYBINDINGS_KEY) || '{}'); } catch { return {}; } };
 
-const updateFileContent = (tree: FileSystemTree, path: string, newContent: string): FileSystemTree => {
-    const newTree = JSON.parse(JSON.stringify(tree));
-    const { node } = traversePath(newTree, path);
-    if (node && node.type === 'file') node.content = newContent;
-    return newTree;
-};
+const NO_UNSAVED_BUFFERS: { [path: string]: string } = {};
+const NO_TEST_RESULTS: TestFileResult[] = [];
 
 const getInstalledExtensions = (): string[] => Object.entries(localStorage).filter(([key, value]) => key.startsWith('ext_') && value === 'true').map(([key]) => key.replace('ext_', ''));
 
@@ -159,6 +138,8 @@ const App: React.FC = () => {
   const [installedExtensions, setInstalledExtensions] = useState<string[]>(getInstalledExtensions());
   const [fixableError, setFixableError] = useState<LogMessage | null>(null);
   const [consoleLogs, setConsoleLogs] = useState<LogMessage[]>([]);
+  // Reported by the preview of the active workspace; a task is only told about its own workspace's tests.
+  const [testResultsByWorkspace, setTestResultsByWorkspace] = useState<{ [workspaceId: string]: TestFileResult[] }>({});
   const [inputModalState, setInputModalState] = useState({ isOpen: false, title: '', label: '', initialValue: '', confirmText: 'Create', onConfirm: (value: string) => {} });
   const closeInputModal = () => setInputModalState(prev => ({ ...prev, isOpen: false }));
   
@@ -166,46 +147,92 @@ const App: React.FC = () => {
   const [attachmentContext, setAttachmentContext] = useState<AttachmentContext | null>(null);
   const [isAnnotationModalOpen, setIsAnnotationModalOpen] = useState(false);
   const [screenshotDataUrl, setScreenshotDataUrl] = useState<string | null>(null);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [isAutoPilotSettingsOpen, setIsAutoPilotSettingsOpen] = useState(false);
+  const [commandPalette, setCommandPalette] = useState<CommandPaletteMode | null>(null);
+  const [isKeyboardShortcutsOpen, setIsKeyboardShortcutsOpen] = useState(false);
+  const [keybindingOverrides, setKeybindingOverrides] = useState<KeybindingOverrides>(getSavedKeybindingOverrides);
+  const commandRegistry = useMemo(() => createCommandRegistry(), []);
+  // Editor content that has not been saved yet, per workspace and path. Saving commits it to the workspace tree.
+  const [searchState, setSearchState] = useState<SearchPanelState>(DEFAULT_SEARCH_STATE);
+  const [editorReveal, setEditorReveal] = useState<EditorRevealRequest | null>(null);
+  const [unsavedBuffers, setUnsavedBuffers] = useState<{ [workspaceId: string]: { [path: string]: string } }>({});
+  const [runningCheckpointIds, setRunningCheckpointIds] = useState<string[]>([]);
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Set once workspaces have been loaded, so the initial empty state is never persisted.
+  const storageRef = useRef<WorkspaceStorage | null>(null);
+  // Always the latest workspaces, UI states and preview logs, for async task code that must not read a stale render.
+  const workspacesRef = useRef(workspaces);
+  const workspaceUiStatesRef = useRef(workspaceUiStates);
+  const activeWorkspaceIdRef = useRef(activeWorkspaceId);
+  const consoleLogsRef = useRef(consoleLogs);
+  // One controller per in-flight AI task, used by "Cancel".
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  // Per workspace, the newest AI snapshot whose changes visual checkpoints were already run for.
+  const checkedAiSnapshotIdsRef = useRef(new Map<string, string | null>());
+  // Set while an Auto-Pilot step checks the preview for errors before it starts.
+  const isAutoPilotCheckingRef = useRef(false);
+  // Tasks whose changes are being verified in the background (see `verifyTaskChanges`).
+  const verifyingTaskIdsRef = useRef(new Set<string>());
 
   useEffect(() => {
-    let loadedWorkspaces: Workspace[] = [];
-    try {
-        const savedData = localStorage.getItem(LOCAL_STORAGE_WORKSPACES_KEY);
-        if (savedData) loadedWorkspaces = (JSON.parse(savedData) as Workspace[]).map(ws => ({ ...ws, tasks: ws.tasks.map(t => ({...t, timestamp: new Date(t.timestamp)})) }));
-    } catch (error) { console.error("Failed to load workspaces", error); localStorage.removeItem(LOCAL_STORAGE_WORKSPACES_KEY); }
-
-    if (loadedWorkspaces.length === 0) {
-        const defaultWorkspace: Workspace = { id: crypto.randomUUID(), name: 'My First Project', fileSystem: INITIAL_FILES, tasks: [], createdAt: new Date().toISOString() };
-        setWorkspaces([defaultWorkspace]);
-        setActiveWorkspaceId(defaultWorkspace.id);
-        setWorkspaceUiStates({ [defaultWorkspace.id]: DEFAULT_UI_STATE });
-    } else {
-        setWorkspaces(loadedWorkspaces);
-        const savedActiveId = localStorage.getItem(LOCAL_STORAGE_ACTIVE_WORKSPACE_KEY);
-        setActiveWorkspaceId((savedActiveId && loadedWorkspaces.some(ws => ws.id === savedActiveId)) ? savedActiveId : loadedWorkspaces.sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0].id);
-        try {
-            const savedUiStates = localStorage.getItem(LOCAL_STORAGE_UI_STATES_KEY);
-            setWorkspaceUiStates(savedUiStates ? JSON.parse(savedUiStates) : {});
-        } catch (error) { console.error("Failed to load UI states", error); localStorage.removeItem(LOCAL_STORAGE_UI_STATES_KEY); }
-    }
+    let cancelled = false;
+    const loadWorkspaces = async () => {
+      let loadedWorkspaces: Workspace[] = [];
+      const storage = await openWorkspaceStorage();
+      try {
+          loadedWorkspaces = await storage.loadAll();
+      } catch (error) { console.error("Failed to load workspaces", error); }
+      if (cancelled) return;
+      storageRef.current = storage;
+
+      if (loadedWorkspaces.length === 0) {
+          const defaultWorkspace: Workspace = { id: crypto.randomUUID(), name: 'My First Project', fileSystem: INITIAL_FILES, tasks: [], createdAt: new Date().toISOString() };
+          setWorkspaces([defaultWorkspace]);
+          setActiveWorkspaceId(defaultWorkspace.id);
+          setWorkspaceUiStates({ [defaultWorkspace.id]: DEFAULT_UI_STATE });
+      } else {
+          setWorkspaces(loadedWorkspaces);
+          const savedActiveId = localStorage.getItem(LOCAL_STORAGE_ACTIVE_WORKSPACE_KEY);
+          setActiveWorkspaceId((savedActiveId && loadedWorkspaces.some(ws => ws.id === savedActiveId)) ? savedActiveId : loadedWorkspaces.sort((a,b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0].id);
+          try {
+              const savedUiStates = localStorage.getItem(LOCAL_STORAGE_UI_STATES_KEY);
+              const parsedUiStates: { [workspaceId: string]: WorkspaceUiState } = savedUiStates ? JSON.parse(savedUiStates) : {};
+              setWorkspaceUiStates(Object.fromEntries(Object.entries(parsedUiStates).map(([id, state]) => [id, withAutoPilotStart(withUiStateDefaults(state))])));
+          } catch (error) { console.error("Failed to load UI states", error); localStorage.removeItem(LOCAL_STORAGE_UI_STATES_KEY); }
+      }
+    };
+    loadWorkspaces();
+    return () => { cancelled = true; };
   }, []);
 
-  useEffect(() => { if (workspaces.length > 0) localStorage.setItem(LOCAL_STORAGE_WORKSPACES_KEY, JSON.stringify(workspaces)); else localStorage.removeItem(LOCAL_STORAGE_WORKSPACES_KEY); }, [workspaces]);
-  useEffect(() => { if(activeWorkspaceId) localStorage.setItem(LOCAL_STORAGE_ACTIVE_WORKSPACE_KEY, activeWorkspaceId); }, [activeWorkspaceId]);
-  useEffect(() => { if (Object.keys(workspaceUiStates).length > 0) localStorage.setItem(LOCAL_STORAGE_UI_STATES_KEY, JSON.stringify(workspaceUiStates)); }, [workspaceUiStates]);
+  useEffect(() => { workspacesRef.current = workspaces; storageRef.current?.save(workspaces); }, [workspaces]);
+  useEffect(() => { const handleUnload = () => { storageRef.current?.flush(); }; window.addEventListener('beforeunload', handleUnload); return () => window.removeEventListener('beforeunload', handleUnload); }, []);
+  useEffect(() => { if (!Object.values(unsavedBuffers).some(buffers => Object.keys(buffers).length > 0)) return; const handleUnload = (e: BeforeUnloadEvent) => { e.preventDefault(); e.returnValue = ''; }; window.addEventListener('beforeunload', handleUnload); return () => window.removeEventListener('beforeunload', handleUnload); }, [unsavedBuffers]);
+  useEffect(() => { activeWorkspaceIdRef.current = activeWorkspaceId; if(activeWorkspaceId) localStorage.setItem(LOCAL_STORAGE_ACTIVE_WORKSPACE_KEY, activeWorkspaceId); }, [activeWorkspaceId]);
+  useEffect(() => { consoleLogsRef.current = consoleLogs; }, [consoleLogs]);
+  useEffect(() => { localStorage.setItem(LOCAL_STORAGE_KEYBINDINGS_KEY, JSON.stringify(keybindingOverrides)); }, [keybindingOverrides]);
+  useEffect(() => { workspaceUiStatesRef.current = workspaceUiStates; if (Object.keys(workspaceUiStates).length > 0) localStorage.setItem(LOCAL_STORAGE_UI_STATES_KEY, JSON.stringify(workspaceUiStates)); }, [workspaceUiStates]);
 
   const activeWorkspace = useMemo(() => workspaces.find(w => w.id === activeWorkspaceId), [workspaces, activeWorkspaceId]);
-  const currentUiState = useMemo(() => (activeWorkspaceId && workspaceUiStates[activeWorkspaceId]) || DEFAULT_UI_STATE, [activeWorkspaceId, workspaceUiStates]);
+  const testResults = (activeWorkspaceId && testResultsByWorkspace[activeWorkspaceId]) || NO_TEST_RESULTS;
+  const handleTestResults = useCallback((files: TestFileResult[]) => { if (activeWorkspaceId) setTestResultsByWorkspace(prev => ({ ...prev, [activeWorkspaceId]: files })); }, [activeWorkspaceId]);
+  const currentUiState = useMemo(() => withUiStateDefaults(activeWorkspaceId ? workspaceUiStates[activeWorkspaceId] : undefined), [activeWorkspaceId, workspaceUiStates]);
   
   const updateCurrentUiState = useCallback((key: keyof WorkspaceUiState, value: any) => {
     if (!activeWorkspaceId) return;
-    setWorkspaceUiStates(prev => ({ ...prev, [activeWorkspaceId]: { ...(prev[activeWorkspaceId] || DEFAULT_UI_STATE), [key]: value } }));
+    setWorkspaceUiStates(prev => ({ ...prev, [activeWorkspaceId]: { ...withUiStateDefaults(prev[activeWorkspaceId]), [key]: value } }));
+  }, [activeWorkspaceId]);
+
+  // For changes that read the current state or touch several fields at once.
+  const patchCurrentUiState = useCallback((patch: (state: WorkspaceUiState) => Partial<WorkspaceUiState>) => {
+    if (!activeWorkspaceId) return;
+    setWorkspaceUiStates(prev => { const state = withUiStateDefaults(prev[activeWorkspaceId]); return { ...prev, [activeWorkspaceId]: { ...state, ...patch(state) } }; });
   }, [activeWorkspaceId]);
 
   const closeContextMenu = useCallback(() => setContextMenu(null), []);
 
-  const handleDirectFileOperations = useCallback((operations: FileOperation[]) => { if (!activeWorkspaceId) return; closeContextMenu(); setWorkspaces(prev => prev.map(ws => ws.id !== activeWorkspaceId ? ws : { ...ws, fileSystem: applyFileOperations(ws.fileSystem, operations) })); }, [activeWorkspaceId, closeContextMenu]);
+  const handleDirectFileOperations = useCallback((operations: FileOperation[], label?: string) => { if (!activeWorkspaceId) return; closeContextMenu(); setWorkspaces(prev => prev.map(ws => ws.id !== activeWorkspaceId ? ws : { ...withSnapshot(ws, { reason: 'file_operation', label: label ? label : operations.length === 1 ? `${operations[0].operation.replace('_', ' ').toLowerCase()} ${operations[0].path}` : `${operations.length} file operations` }), fileSystem: applyFileOperations(ws.fileSystem, operations) })); }, [activeWorkspaceId, closeContextMenu]);
 
   const handleRequestNewFile = useCallback((basePath?: string) => setInputModalState({ isOpen: true, title: 'Create New File', label: 'Enter the full path for the new file:', initialValue: basePath ? `${basePath}/new-file.tsx` : 'src/new-file.tsx', confirmText: 'Create File', onConfirm: (path) => { if (path?.trim() && !path.trim().endsWith('/')) handleDirectFileOperations([{ operation: 'CREATE_FILE', path: path.trim(), content: '' }]); else alert('Invalid file path.'); }, }), [handleDirectFileOperations]);
   
@@ -213,79 +240,95 @@ const App: React.FC = () => {
   
   const handleFileUpload = useCallback((files: FileList) => { if (!activeWorkspaceId) return; const readFile = (file: File): Promise<{ path: string, content: string }> => new Promise((resolve, reject) => { const reader = new FileReader(); reader.onload = (event) => resolve({ path: `src/${file.name}`, content: event.target?.result as string }); reader.onerror = (error) => reject(error); reader.readAsText(file); }); const readAllFiles = async () => { try { const operations: FileOperation[] = (await Promise.all(Array.from(files).map(readFile))).map(f => ({ operation: 'CREATE_FILE', path: f.path, content: f.content })); handleDirectFileOperations(operations); } catch (error) { console.error("Error reading uploaded files:", error); alert("Error uploading files. Please ensure they are text files."); } }; readAllFiles(); }, [activeWorkspaceId, handleDirectFileOperations]);
 
-  const runAIGeneration = useCallback(async (prompt: string, imageB64: string | null, taskId: string, isAutoPilot: boolean = false) => {
-    if (!activeWorkspaceId) return;
-    const currentWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+  // Applies `update` to one task, wherever it lives. Tasks are pinned to the workspace they started in.
+  const updateTask = useCallback((workspaceId: string, taskId: string, update: (task: AITask) => AITask) => {
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, tasks: ws.tasks.map(task => task.id === taskId ? update(task) : task) } : ws));
+  }, []);
+
+  const recordResponseRepair = useCallback((workspaceId: string, taskId: string) => (error: string) => updateTask(workspaceId, taskId, task => ({ ...task, responseRepairs: [...(task.responseRepairs || []), error] })), [updateTask]);
+
+  const runAIGeneration = useCallback(async (workspaceId: string, prompt: string, imageB64: string | null, taskId: string, isAutoPilot: boolean = false, selectedElement: SelectedElement | null = null) => {
+    const currentWorkspace = workspacesRef.current.find(w => w.id === workspaceId);
     if (!currentWorkspace) return;
 
+    const controller = new AbortController();
+    abortControllersRef.current.set(taskId, controller);
+    // The tree the AI is shown; approval checks the files it touches still match.
+    const fileHashes = fingerprintFiles(currentWorkspace.fileSystem);
+    updateTask(workspaceId, taskId, task => ({ ...task, request: { prompt, imageB64: imageB64 || undefined, selectedElement: selectedElement || undefined }, responseRepairs: undefined, base: { version: treeVersion(fileHashes), fileHashes } }));
+
     try {
         const currentExtensions = getInstalledExtensions();
-        const stream = await geminiService.runTaskStream(prompt, currentExtensions, currentWorkspace.fileSystem, currentWorkspace.tasks, currentUiState, consoleLogs, imageB64);
+        const aiSettings = currentWorkspace.aiSettings || DEFAULT_AI_SETTINGS;
+        const uiState = withUiStateDefaults(workspaceUiStatesRef.current[workspaceId]);
+        // The console shows the active workspace's preview; other workspaces' tasks are not told about its logs.
+        const logs = workspaceId === activeWorkspaceIdRef.current ? consoleLogsRef.current : [];
+        const contextHints = { selectedElement, recentlyEditedPaths: findRecentlyEditedPaths(currentWorkspace) };
+        let inputTokens = 0;
+        let contextFiles: ContextFileEntry[] = [];
+        const stream = await geminiService.runTaskStream(prompt, currentExtensions, currentWorkspace.fileSystem, currentWorkspace.tasks, uiState, logs, testResultsByWorkspace[workspaceId] || NO_TEST_RESULTS, getFailingCheckpoints(currentWorkspace), contextHints, imageB64, aiSettings, controller.signal, request => {
+            inputTokens = request.inputTokens;
+            contextFiles = request.context.files;
+            updateTask(workspaceId, taskId, task => ({ ...task, context: request.context }));
+        });
         
         let fullResponseText = "";
-        let conversationalPart = "";
-        const blueprintSeparator = '---JSON_BLUEPRINT---';
-        const opsSeparator = '---JSON_OPERATIONS---';
-
         for await (const chunk of stream) {
             fullResponseText += chunk;
-            const blueprintIdx = fullResponseText.indexOf(blueprintSeparator);
-            const opsIdx = fullResponseText.indexOf(opsSeparator);
-            const separatorIdx = blueprintIdx !== -1 ? blueprintIdx : opsIdx;
-            
-            conversationalPart = separatorIdx !== -1 ? fullResponseText.substring(0, separatorIdx) : fullResponseText;
-            
-            setWorkspaces(prev => prev.map(ws => {
-                if (ws.id !== activeWorkspaceId) return ws;
-                return { ...ws, tasks: ws.tasks.map(task => task.id === taskId ? { ...task, assistantResponse: { content: conversationalPart } } : task ) };
-            }));
-        }
-        
-        let finalConversationalPart = fullResponseText;
-        let fileOps: FileOperation[] = [];
-        let blueprint: AppBlueprint | null = null;
-        let status: AITask['status'] = 'completed';
-        
-        const blueprintIndex = fullResponseText.indexOf(blueprintSeparator);
-        const opsIndex = fullResponseText.indexOf(opsSeparator);
-
-        if (blueprintIndex !== -1) {
-            finalConversationalPart = fullResponseText.substring(0, blueprintIndex).trim();
-            const jsonPartRaw = fullResponseText.substring(blueprintIndex + blueprintSeparator.length);
-            try {
-                const jsonString = jsonPartRaw.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)?.[1] || jsonPartRaw.trim();
-                blueprint = JSON.parse(jsonString) as AppBlueprint;
-                status = 'pending_blueprint_approval';
-            } catch (e) { throw new Error(`Failed to parse blueprint from AI. ${e instanceof Error ? e.message : ''}`); }
-        } else if (opsIndex !== -1) {
-            finalConversationalPart = fullResponseText.substring(0, opsIndex).trim();
-            const jsonPartRaw = fullResponseText.substring(opsIndex + opsSeparator.length);
-            try {
-                const jsonString = jsonPartRaw.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)?.[1] || jsonPartRaw.trim();
-                fileOps = (JSON.parse(jsonString) as { operations: FileOperation[] }).operations || [];
-                status = isAutoPilot ? 'completed' : 'pending_confirmation';
-            } catch (e) { throw new Error(`Failed to parse file operations from AI. ${e instanceof Error ? e.message : ''}`); }
+            const conversationalPart = extractStreamingMessage(fullResponseText);
+            updateTask(workspaceId, taskId, task => ({ ...task, assistantResponse: { content: conversationalPart } }));
         }
 
+        const response = await geminiService.resolveTaskResponse(prompt, fullResponseText, aiSettings, controller.signal, recordResponseRepair(workspaceId, taskId));
+        const finalConversationalPart = response.message.trim();
+        const fileOps: FileOperation[] = response.blueprint ? [] : response.operations || [];
+        const blueprint: AppBlueprint | null = response.blueprint || null;
+        const usage: TaskUsage = { inputTokens, outputTokens: estimateTokens(fullResponseText) };
+
+        // Auto-Pilot changes are rendered in the background with the visual checkpoints before they are applied.
+        const latestWorkspace = workspacesRef.current.find(ws => ws.id === workspaceId) || currentWorkspace;
+        const checkpoints = latestWorkspace.visualCheckpoints || [];
+        const partialUpdates = findPartialContextUpdates(fileOps, contextFiles);
+        const checkpointFailures = isAutoPilot && fileOps.length > 0 && partialUpdates.length === 0 && checkpoints.length > 0
+            ? describeFailedRuns(checkpoints, await runVisualCheckpointsOnTree(applyFileOperations(latestWorkspace.fileSystem, fileOps), checkpoints, controller.signal))
+            : [];
+
         setWorkspaces(prev => prev.map(ws => {
-            if (ws.id !== activeWorkspaceId) return ws;
-            let newFileSystem = ws.fileSystem;
-            if (isAutoPilot && fileOps.length > 0) {
-                newFileSystem = applyFileOperations(ws.fileSystem, fileOps);
-            }
-            const finalTasks = ws.tasks.map((task): AITask => task.id === taskId ? { ...task, status, assistantResponse: { content: finalConversationalPart, operations: fileOps, blueprint: blueprint || undefined } } : task );
-            return { ...ws, fileSystem: newFileSystem, tasks: finalTasks };
+            if (ws.id !== workspaceId) return ws;
+            // Auto-Pilot never overwrites files that changed while it was generating, replaces a file it was not shown in full,
+            // breaks a visual checkpoint, or goes beyond its policy; the user decides instead.
+            const hasConflicts = findConflictingPaths(ws.fileSystem, fileHashes, fileOps).length > 0;
+            const policyViolations = isAutoPilot ? [...findPolicyViolations(fileOps, ws.autoPilotPolicy || DEFAULT_AUTOPILOT_POLICY), ...checkpointFailures] : [];
+            const autoApply = isAutoPilot && fileOps.length > 0 && !hasConflicts && partialUpdates.length === 0 && policyViolations.length === 0;
+            // Verified changes keep the task running until the preview has been checked (see `verifyTaskChanges`).
+            const verify = autoApply && withUiStateDefaults(workspaceUiStatesRef.current[workspaceId]).isVerificationOn;
+            let status: AITask['status'] = verify ? 'running' : 'completed';
+            if (blueprint) status = 'pending_blueprint_approval';
+            else if (fileOps.length > 0 && !autoApply) status = 'pending_confirmation';
+            const base = autoApply ? withSnapshot(ws, { reason: 'autopilot', label: 'Auto-Pilot step', taskId }) : ws;
+            const newFileSystem = autoApply ? applyFileOperations(ws.fileSystem, fileOps) : ws.fileSystem;
+            const appliedOperations = autoApply ? fileOps.map((_, index) => ({ index })) : undefined;
+            const finalTasks = ws.tasks.map((task): AITask => task.id === taskId ? { ...task, status, error: undefined, appliedOperations, usage, policyViolations: policyViolations.length > 0 ? policyViolations : undefined, verification: verify ? { status: 'running', attempts: [] } : undefined, assistantResponse: { content: finalConversationalPart, operations: fileOps, blueprint: blueprint || undefined } } : task );
+            return { ...base, fileSystem: newFileSystem, tasks: finalTasks };
         }));
 
     } catch (error) {
+        if (controller.signal.aborted) {
+            updateTask(workspaceId, taskId, task => ({ ...task, status: 'cancelled' }));
+            return;
+        }
         console.error(`Error during task execution (ID: ${taskId}):`, error);
         const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-        setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: ws.tasks.map(task => task.id === taskId ? { ...task, status: 'error', error: errorMessage } : task) } : ws ));
+        updateTask(workspaceId, taskId, task => ({ ...task, status: 'error', error: errorMessage }));
+    } finally {
+        // Verifying the applied changes may already have registered its own controller for the task.
+        if (abortControllersRef.current.get(taskId) === controller) abortControllersRef.current.delete(taskId);
     }
-  }, [activeWorkspaceId, workspaces, currentUiState, consoleLogs]);
+  }, [testResultsByWorkspace, updateTask, recordResponseRepair]);
 
   const handleCreateTask = useCallback(async (userPrompt: string) => {
     if (!userPrompt.trim() || !activeWorkspaceId) return;
+    const workspaceId = activeWorkspaceId;
     updateCurrentUiState('aiPrompt', '');
     setFixableError(null);
     closeContextMenu();
@@ -296,57 +339,151 @@ const App: React.FC = () => {
 
     const taskId = crypto.randomUUID();
     const newTask: AITask = { id: taskId, userPrompt, status: 'running', timestamp: new Date(), type: 'user' };
-    setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: [newTask, ...ws.tasks] } : ws));
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, tasks: [newTask, ...ws.tasks] } : ws));
     
     const imageToSend = attachmentContext?.type === 'image' ? attachmentContext.data : null;
     setAttachmentContext(null);
     setSelectedElementInfo(null);
     iframeRef.current?.contentWindow?.postMessage({ type: 'clear-selection' }, '*');
     
-    await runAIGeneration(finalPrompt, imageToSend, taskId);
-  }, [activeWorkspaceId, workspaces, updateCurrentUiState, closeContextMenu, currentUiState, consoleLogs, selectedElementInfo, attachmentContext, runAIGeneration]);
+    await runAIGeneration(workspaceId, finalPrompt, imageToSend, taskId, false, selectedElementInfo);
+  }, [activeWorkspaceId, updateCurrentUiState, closeContextMenu, selectedElementInfo, attachmentContext, runAIGeneration]);
 
   const handleApproveBlueprint = useCallback(async (taskId: string) => {
     if (!activeWorkspaceId) return;
-    const currentWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
-    const task = currentWorkspace?.tasks.find(t => t.id === taskId);
+    const workspaceId = activeWorkspaceId;
+    const task = workspacesRef.current.find(w => w.id === workspaceId)?.tasks.find(t => t.id === taskId);
     if (!task || !task.assistantResponse?.blueprint) return;
 
-    setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: ws.tasks.map(t => t.id === taskId ? { ...t, status: 'running' } : t) } : ws));
+    updateTask(workspaceId, taskId, t => ({ ...t, status: 'running' }));
 
     const implementationPrompt = `The user has approved this application blueprint. Your task is to implement it fully. Generate all necessary files and code based on this plan. Here is the blueprint:\n\n${JSON.stringify(task.assistantResponse.blueprint, null, 2)}`;
-    await runAIGeneration(implementationPrompt, null, taskId);
-  }, [activeWorkspaceId, workspaces, runAIGeneration]);
+    await runAIGeneration(workspaceId, implementationPrompt, null, taskId);
+  }, [activeWorkspaceId, runAIGeneration, updateTask]);
+
+  const stopAutoPilot = useCallback((workspaceId: string, reason: string) => {
+    setWorkspaceUiStates(prev => ({ ...prev, [workspaceId]: { ...withUiStateDefaults(prev[workspaceId]), isAutoPilotOn: false, autoPilotStopReason: reason } }));
+  }, []);
+
+  const handleToggleAutoPilot = useCallback(() => patchCurrentUiState(state => state.isAutoPilotOn ? { isAutoPilotOn: false } : { isAutoPilotOn: true, autoPilotStartedAt: new Date().toISOString(), autoPilotStopReason: null }), [patchCurrentUiState]);
 
+  // Each step first checks the policy's limits, and stops Auto-Pilot instead of taking a step that would break them.
   const handleAutoPilotTick = useCallback(async () => {
-    if (!activeWorkspaceId) return;
-    const currentWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+    if (!activeWorkspaceId || isAutoPilotCheckingRef.current) return;
+    const workspaceId = activeWorkspaceId;
+    const currentWorkspace = workspacesRef.current.find(w => w.id === workspaceId);
     if (!currentWorkspace || currentWorkspace.tasks.some(t => t.type === 'autopilot' && t.status === 'running')) return;
+    const policy = currentWorkspace.autoPilotPolicy || DEFAULT_AUTOPILOT_POLICY;
+
+    const limitReason = getAutoPilotLimitReason(policy, getAutoPilotSession(currentWorkspace.tasks, currentUiState.autoPilotStartedAt));
+    if (limitReason) { stopAutoPilot(workspaceId, limitReason); return; }
+    if (policy.stopOnPreviewErrors) {
+      isAutoPilotCheckingRef.current = true;
+      try {
+        const problems = await verifyPreview(currentWorkspace.fileSystem);
+        if (problems.length > 0) { stopAutoPilot(workspaceId, `The preview has errors: ${problems[0].message.split('\n')[0]}`); return; }
+      } catch (error) {
+        stopAutoPilot(workspaceId, `The preview could not be checked for errors: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      } finally {
+        isAutoPilotCheckingRef.current = false;
+      }
+      // Turned off, or switched away from, while the preview was checked.
+      if (!withUiStateDefaults(workspaceUiStatesRef.current[workspaceId]).isAutoPilotOn) return;
+    }
 
     const taskId = crypto.randomUUID();
     const newTask: AITask = { id: taskId, userPrompt: 'Proactive AI Step', status: 'running', timestamp: new Date(), type: 'autopilot' };
-    setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: [newTask, ...ws.tasks] } : ws));
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, tasks: [newTask, ...ws.tasks] } : ws));
     
-    await runAIGeneration('Proactive AI Step: Analyze the context and perform the most logical improvement.', null, taskId, true);
-  }, [activeWorkspaceId, workspaces, runAIGeneration]);
+    await runAIGeneration(workspaceId, buildAutoPilotPrompt(policy), null, taskId, true);
+  }, [activeWorkspaceId, currentUiState.autoPilotStartedAt, stopAutoPilot, runAIGeneration]);
   
+  const handleCancelTask = useCallback((taskId: string) => {
+    const controller = abortControllersRef.current.get(taskId);
+    if (controller) { controller.abort(); return; }
+    // Nothing in flight, e.g. the page was reloaded while the task was running.
+    setWorkspaces(prev => prev.map(ws => ({ ...ws, tasks: ws.tasks.map((t): AITask => t.id === taskId && t.status === 'running' ? { ...t, status: 'cancelled' } : t) })));
+  }, []);
+
+  const handleRetryTask = useCallback(async (taskId: string) => {
+    if (!activeWorkspaceId) return;
+    const workspaceId = activeWorkspaceId;
+    const task = workspacesRef.current.find(w => w.id === workspaceId)?.tasks.find(t => t.id === taskId);
+    if (!task || (task.status !== 'error' && task.status !== 'cancelled')) return;
+    updateTask(workspaceId, taskId, t => ({ ...t, status: 'running', error: undefined, assistantResponse: undefined, verification: undefined }));
+    await runAIGeneration(workspaceId, task.request?.prompt ?? task.userPrompt, task.request?.imageB64 ?? null, taskId, task.type === 'autopilot', task.request?.selectedElement ?? null);
+  }, [activeWorkspaceId, runAIGeneration, updateTask]);
+
+  const handleRegenerateTask = useCallback(async (taskId: string) => {
+    if (!activeWorkspaceId) return;
+    const workspaceId = activeWorkspaceId;
+    const task = workspacesRef.current.find(w => w.id === workspaceId)?.tasks.find(t => t.id === taskId);
+    if (!task?.assistantResponse || !['completed', 'pending_confirmation', 'pending_blueprint_approval'].includes(task.status)) return;
+    // The current response is kept as an alternative; files it already changed stay changed (they can be restored from History).
+    updateTask(workspaceId, taskId, t => ({ ...t, status: 'running', alternatives: [...(t.alternatives || []), t.assistantResponse!], assistantResponse: undefined, appliedOperations: undefined, revertedAt: undefined, verification: undefined }));
+    await runAIGeneration(workspaceId, task.request?.prompt ?? task.userPrompt, task.request?.imageB64 ?? null, taskId, task.type === 'autopilot', task.request?.selectedElement ?? null);
+  }, [activeWorkspaceId, runAIGeneration, updateTask]);
+
+  const autoPilotPolicy = activeWorkspace?.autoPilotPolicy || DEFAULT_AUTOPILOT_POLICY;
   const autoPilotRunningTask = useMemo(() => activeWorkspace?.tasks.find(t => t.type === 'autopilot' && t.status === 'running'), [activeWorkspace?.tasks]);
 
+  const autoPilotSession = useMemo(() => getAutoPilotSession(activeWorkspace?.tasks || [], currentUiState.autoPilotStartedAt), [activeWorkspace?.tasks, currentUiState.autoPilotStartedAt]);
+  const autoPilotStatus = currentUiState.isAutoPilotOn
+    ? `${autoPilotSession.steps}${autoPilotPolicy.maxSteps !== undefined ? ` of ${autoPilotPolicy.maxSteps}` : ''} steps · ~${formatTokenCount(autoPilotSession.tokens)}${autoPilotPolicy.maxTokens !== undefined ? ` of ${formatTokenCount(autoPilotPolicy.maxTokens)}` : ''} tokens`
+    : currentUiState.autoPilotStopReason && `Auto-Pilot stopped. ${currentUiState.autoPilotStopReason}`;
+
   useEffect(() => {
     if (!currentUiState.isAutoPilotOn || !activeWorkspaceId || !!autoPilotRunningTask) return;
-    const intervalId = setInterval(() => { handleAutoPilotTick(); }, 10000);
+    const intervalId = setInterval(() => { handleAutoPilotTick(); }, autoPilotPolicy.intervalSeconds * 1000);
     return () => clearInterval(intervalId);
-  }, [currentUiState.isAutoPilotOn, activeWorkspaceId, autoPilotRunningTask, handleAutoPilotTick]);
+  }, [currentUiState.isAutoPilotOn, activeWorkspaceId, autoPilotRunningTask, autoPilotPolicy.intervalSeconds, handleAutoPilotTick]);
 
-  const handleApproveTask = useCallback((taskId: string) => {
+  const handleApproveTask = useCallback((taskId: string, approvals?: OperationApproval[]) => {
     if (!activeWorkspaceId) return;
+    const current = workspacesRef.current.find(w => w.id === activeWorkspaceId);
+    const pendingTask = current?.tasks.find(t => t.id === taskId);
+    if (current && pendingTask?.base && pendingTask.assistantResponse?.operations) {
+      const approved = (approvals ?? pendingTask.assistantResponse.operations.map((_, index) => ({ index }))).map(a => pendingTask.assistantResponse!.operations![a.index]).filter(Boolean);
+      const conflicts = findConflictingPaths(current.fileSystem, pendingTask.base.fileHashes, approved);
+      if (conflicts.length > 0 && !confirm(`These files changed after the AI read them:\n\n${conflicts.join('\n')}\n\nApplying the AI's version will overwrite those changes. Apply anyway?`)) return;
+    }
     setWorkspaces(prev => prev.map(ws => {
       if (ws.id !== activeWorkspaceId) return ws;
       const task = ws.tasks.find(t => t.id === taskId);
       if (!task || task.status !== 'pending_confirmation' || !task.assistantResponse?.operations) return ws;
-      const newFileSystem = applyFileOperations(ws.fileSystem, task.assistantResponse.operations);
-      const updatedTasks = ws.tasks.map((t): AITask => t.id === taskId ? { ...t, status: 'completed' } : t);
-      return { ...ws, fileSystem: newFileSystem, tasks: updatedTasks };
+      const allOperations = task.assistantResponse.operations;
+      const appliedOperations = approvals ?? allOperations.map((_, index) => ({ index }));
+      const newFileSystem = applyFileOperations(ws.fileSystem, selectApprovedOperations(ws.fileSystem, allOperations, appliedOperations));
+      const verify = currentUiState.isVerificationOn;
+      const updatedTasks = ws.tasks.map((t): AITask => t.id === taskId ? { ...t, status: verify ? 'running' : 'completed', appliedOperations, verification: verify ? { status: 'running', attempts: [] } : undefined } : t);
+      return { ...withSnapshot(ws, { reason: 'ai_task', label: task.userPrompt, taskId }), fileSystem: newFileSystem, tasks: updatedTasks };
+    }));
+  }, [activeWorkspaceId, currentUiState.isVerificationOn]);
+
+  const handleRevertTask = useCallback((taskId: string) => {
+    if (!activeWorkspaceId) return;
+    const ws = workspaces.find(w => w.id === activeWorkspaceId);
+    const task = ws?.tasks.find(t => t.id === taskId);
+    const snapshot = ws && findTaskSnapshot(ws, taskId);
+    if (!ws || !task?.assistantResponse?.operations || !snapshot) { alert("No snapshot was recorded for this task, so it cannot be reverted."); return; }
+    // Repairs made while verifying the task are part of its changes.
+    const repairs = task.verification?.attempts.flatMap(attempt => attempt.repair?.operations || []) || [];
+    const applied = [...(task.appliedOperations || []).map(a => task.assistantResponse!.operations![a.index]).filter(Boolean), ...repairs];
+    if (!confirm(`Revert the ${applied.length} file change(s) made by this task? Later edits to the same files will also be undone.`)) return;
+    setWorkspaces(prev => prev.map(w => w.id !== activeWorkspaceId ? w : {
+      ...withSnapshot(w, { reason: 'revert', label: `Revert: ${task.userPrompt}` }),
+      fileSystem: revertOperations(w.fileSystem, snapshot.fileSystem, applied),
+      tasks: w.tasks.map((t): AITask => t.id === taskId ? { ...t, revertedAt: new Date().toISOString() } : t),
+    }));
+  }, [activeWorkspaceId, workspaces]);
+
+  const handleRestoreSnapshot = useCallback((snapshotId: string) => {
+    if (!activeWorkspaceId) return;
+    setWorkspaces(prev => prev.map(ws => {
+      const snapshot = ws.id === activeWorkspaceId ? ws.history?.find(s => s.id === snapshotId) : undefined;
+      if (!snapshot) return ws;
+      return { ...withSnapshot(ws, { reason: 'restore', label: `Restore: ${snapshot.label}` }), fileSystem: snapshot.fileSystem };
     }));
   }, [activeWorkspaceId]);
 
@@ -355,31 +492,276 @@ const App: React.FC = () => {
     setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: ws.tasks.map((t): AITask => t.id === taskId ? { ...t, status: 'completed' } : t) } : ws));
   }, [activeWorkspaceId]);
 
-  const handleAutoFix = useCallback((error: LogMessage) => handleCreateTask(`My application has an error. Here is the console output:\n---\n${error.message}\n---\nPlease analyze the current code and fix this error.`), [handleCreateTask]);
+  // Applies a verification repair that was held back because files it touches changed, then verifies again.
+  const handleApproveRepair = useCallback((taskId: string, approvals: OperationApproval[]) => {
+    if (!activeWorkspaceId) return;
+    const current = workspacesRef.current.find(w => w.id === activeWorkspaceId);
+    const pendingRepair = current?.tasks.find(t => t.id === taskId)?.verification?.pendingRepair;
+    if (!current || !pendingRepair) return;
+    const conflicts = findConflictingPaths(current.fileSystem, pendingRepair.base.fileHashes, approvals.map(a => pendingRepair.operations[a.index]).filter(Boolean));
+    if (conflicts.length > 0 && !confirm(`These files changed after the AI read them:\n\n${conflicts.join('\n')}\n\nApplying the repair will overwrite those changes. Apply anyway?`)) return;
+    setWorkspaces(prev => prev.map(ws => {
+      if (ws.id !== activeWorkspaceId) return ws;
+      const task = ws.tasks.find(t => t.id === taskId);
+      if (!task?.verification?.pendingRepair || task.verification.status !== 'pending_confirmation') return ws;
+      const operations = selectApprovedOperations(ws.fileSystem, task.verification.pendingRepair.operations, approvals);
+      const attempts = task.verification.attempts.map((attempt, index, all) => index === all.length - 1 && attempt.repair ? { ...attempt, repair: { ...attempt.repair, operations } } : attempt);
+      const tasks = ws.tasks.map((t): AITask => t.id === taskId ? { ...t, status: 'running', verification: { status: 'running', attempts } } : t);
+      return { ...withSnapshot(ws, { reason: 'repair', label: `Repair: ${task.userPrompt}`, taskId }), fileSystem: applyFileOperations(ws.fileSystem, operations), tasks };
+    }));
+  }, [activeWorkspaceId]);
+
+  const handleRejectRepair = useCallback((taskId: string) => {
+    if (!activeWorkspaceId) return;
+    setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, tasks: ws.tasks.map((t): AITask => t.id === taskId && t.verification?.status === 'pending_confirmation' ? { ...t, verification: { status: 'failed', attempts: t.verification.attempts, error: 'The repair was rejected.' } } : t) } : ws));
+  }, [activeWorkspaceId]);
+
+  // Renders a task's applied changes in the background and, while the preview raises errors, sends them back to the AI
+  // to repair under the same task, up to MAX_VERIFICATION_REPAIRS times. Every check and repair is recorded on the task.
+  const verifyTaskChanges = useCallback(async (workspaceId: string, taskId: string) => {
+    const workspace = workspacesRef.current.find(w => w.id === workspaceId);
+    const task = workspace?.tasks.find(t => t.id === taskId);
+    if (!workspace || !task?.verification) return;
+    verifyingTaskIdsRef.current.add(taskId);
+    const controller = new AbortController();
+    abortControllersRef.current.set(taskId, controller);
+    // Repairs are applied here as well as to the workspace, whose state only catches up on the next render.
+    let fileSystem = workspace.fileSystem;
+    // Checks recorded before a reload count towards the limit.
+    let attempts = task.verification.attempts;
+
+    try {
+        while (true) {
+            const problems = await verifyPreview(fileSystem, controller.signal);
+            const attempt: VerificationAttempt = { checkedAt: new Date().toISOString(), problems };
+            attempts = [...attempts, attempt];
+            if (problems.length === 0 || attempts.length > MAX_VERIFICATION_REPAIRS) {
+                const verification = { status: problems.length === 0 ? 'passed' as const : 'failed' as const, attempts };
+                updateTask(workspaceId, taskId, t => ({ ...t, status: 'completed', verification }));
+                return;
+            }
+            updateTask(workspaceId, taskId, t => ({ ...t, verification: { status: 'running', attempts } }));
+
+            const current = workspacesRef.current.find(w => w.id === workspaceId) || workspace;
+            const aiSettings = current.aiSettings || DEFAULT_AI_SETTINGS;
+            const prompt = `The changes you made for the task "${task.userPrompt}" were applied, but the app now fails in the preview:\n---\n${describePreviewProblems(problems, fileSystem)}\n---\nFix these errors without undoing what the task asked for. Change only what is needed.`;
+            // The files that raised the errors matter most, then those the task just changed.
+            const errorPaths = problems.flatMap(problem => problem.location ? [problem.location.path] : []);
+            const contextHints = { selectedElement: null, recentlyEditedPaths: [...new Set([...errorPaths, ...findRecentlyEditedPaths(current)])] };
+            // The files the repair is written against; the user may edit them while it is generated.
+            const fileHashes = fingerprintFiles(fileSystem);
+            let inputTokens = 0;
+            let contextFiles: ContextFileEntry[] = [];
+            const stream = await geminiService.runTaskStream(prompt, getInstalledExtensions(), fileSystem, current.tasks, withUiStateDefaults(workspaceUiStatesRef.current[workspaceId]), [], [], getFailingCheckpoints(current), contextHints, null, aiSettings, controller.signal, request => { inputTokens = request.inputTokens; contextFiles = request.context.files; });
+            let fullResponseText = "";
+            for await (const chunk of stream) fullResponseText += chunk;
+            const response = await geminiService.resolveTaskResponse(prompt, fullResponseText, aiSettings, controller.signal, recordResponseRepair(workspaceId, taskId));
+            const repair: AssistantResponse = { content: response.message.trim(), operations: response.operations || [] };
+            const addUsage = (usage?: TaskUsage): TaskUsage => ({ inputTokens: (usage?.inputTokens || 0) + inputTokens, outputTokens: (usage?.outputTokens || 0) + estimateTokens(fullResponseText) });
+            // Repairs are applied without review, so they may not replace files the AI was not shown in full.
+            // Repairs of an Auto-Pilot step also stay within its policy like the step itself.
+            const partialUpdates = findPartialContextUpdates(repair.operations!, contextFiles);
+            const violations = task.type === 'autopilot' ? findPolicyViolations(repair.operations!, current.autoPilotPolicy || DEFAULT_AUTOPILOT_POLICY) : [];
+            const allowed = partialUpdates.length > 0 || violations.length > 0 ? [] : repair.operations!;
+            // A repair that would overwrite edits made while it was generated is left for the user to approve.
+            const latest = workspacesRef.current.find(w => w.id === workspaceId) || current;
+            const isConflicting = findConflictingPaths(latest.fileSystem, fileHashes, allowed).length > 0;
+            const operations = isConflicting ? [] : allowed;
+            // Only applied operations are kept, since reverting the task reverts the paths they name.
+            attempts = [...attempts.slice(0, -1), { ...attempt, repair: { ...repair, operations } }];
+            fileSystem = applyFileOperations(fileSystem, operations);
+            // Without changes the next check would find the same errors.
+            const verification: TaskVerification = isConflicting
+                ? { status: 'pending_confirmation', attempts, pendingRepair: { operations: allowed, base: { version: treeVersion(fileHashes), fileHashes } } }
+                : { status: operations.length > 0 ? 'running' : 'failed', attempts, error: partialUpdates.length > 0 ? `The repair was not applied because it replaces files the AI had not seen in full. ${partialUpdates.join(' ')}` : violations.length > 0 ? `The repair was not applied because it breaks the Auto-Pilot policy. ${violations.join(' ')}` : undefined };
+            setWorkspaces(prev => prev.map(ws => {
+                if (ws.id !== workspaceId) return ws;
+                const tasks = ws.tasks.map((t): AITask => t.id === taskId ? { ...t, status: operations.length > 0 ? t.status : 'completed', usage: addUsage(t.usage), verification } : t);
+                if (operations.length === 0) return { ...ws, tasks };
+                return { ...withSnapshot(ws, { reason: 'repair', label: `Repair: ${task.userPrompt}`, taskId }), fileSystem: applyFileOperations(ws.fileSystem, operations), tasks };
+            }));
+            if (operations.length === 0) return;
+        }
+    } catch (error) {
+        const isCancelled = controller.signal.aborted;
+        if (!isCancelled) console.error(`Error while verifying task ${taskId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        updateTask(workspaceId, taskId, t => ({ ...t, status: 'completed', verification: { status: isCancelled ? 'cancelled' : 'failed', attempts, error: isCancelled ? undefined : errorMessage } }));
+    } finally {
+        verifyingTaskIdsRef.current.delete(taskId);
+        if (abortControllersRef.current.get(taskId) === controller) abortControllersRef.current.delete(taskId);
+    }
+  }, [updateTask, recordResponseRepair]);
+
+  // Tasks are marked for verification when their changes are applied; this also resumes checks interrupted by a reload.
+  useEffect(() => {
+    for (const ws of workspaces) {
+      for (const task of ws.tasks) {
+        if (task.verification?.status === 'running' && !verifyingTaskIdsRef.current.has(task.id)) verifyTaskChanges(ws.id, task.id);
+      }
+    }
+  }, [workspaces, verifyTaskChanges]);
+
+  const updateCheckpoints = useCallback((workspaceId: string, update: (checkpoints: VisualCheckpoint[]) => VisualCheckpoint[]) => {
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, visualCheckpoints: update(ws.visualCheckpoints || []) } : ws));
+  }, []);
+
+  // Checkpoints are captured from a hidden render of the workspace, so they run whether or not the preview is shown.
+  const runCheckpoints = useCallback(async (workspaceId: string, checkpoints: VisualCheckpoint[]) => {
+    const workspace = workspacesRef.current.find(ws => ws.id === workspaceId);
+    if (!workspace || checkpoints.length === 0) return;
+    const ids = checkpoints.map(c => c.id);
+    setRunningCheckpointIds(prev => [...prev, ...ids]);
+    const runs = await runVisualCheckpointsOnTree(workspace.fileSystem, checkpoints);
+    updateCheckpoints(workspaceId, list => list.map(c => ids.includes(c.id) ? recordCheckpointRun(c, runs[ids.indexOf(c.id)]) : c));
+    setRunningCheckpointIds(prev => prev.filter(id => !ids.includes(id)));
+  }, [updateCheckpoints]);
+
+  const handleRunCheckpoints = useCallback((checkpointIds?: string[]) => {
+    if (!activeWorkspaceId) return;
+    const checkpoints = workspacesRef.current.find(ws => ws.id === activeWorkspaceId)?.visualCheckpoints || [];
+    runCheckpoints(activeWorkspaceId, checkpoints.filter(c => !checkpointIds || checkpointIds.includes(c.id)));
+  }, [activeWorkspaceId, runCheckpoints]);
+
+  // The first run captures the baselines.
+  const handleCreateCheckpoint = useCallback((fields: Pick<VisualCheckpoint, 'name' | 'selector' | 'viewports'>) => {
+    if (!activeWorkspaceId) return;
+    const checkpoint: VisualCheckpoint = { id: crypto.randomUUID(), ...fields, baselines: {}, createdAt: new Date().toISOString() };
+    updateCheckpoints(activeWorkspaceId, list => [...list, checkpoint]);
+    runCheckpoints(activeWorkspaceId, [checkpoint]);
+  }, [activeWorkspaceId, updateCheckpoints, runCheckpoints]);
+
+  const handleAcceptCheckpoint = useCallback((checkpointId: string) => { if (activeWorkspaceId) updateCheckpoints(activeWorkspaceId, list => list.map(c => c.id === checkpointId ? acceptVisualCheckpoint(c) : c)); }, [activeWorkspaceId, updateCheckpoints]);
+  const handleDeleteCheckpoint = useCallback((checkpointId: string) => { if (activeWorkspaceId) updateCheckpoints(activeWorkspaceId, list => list.filter(c => c.id !== checkpointId)); }, [activeWorkspaceId, updateCheckpoints]);
+  const handleAskAIAboutCheckpoint = useCallback((checkpoint: VisualCheckpoint) => {
+    const failed = checkpoint.lastRun?.results.filter(result => !result.passed) || [];
+    if (failed.length === 0) return;
+    setSelectedElementInfo(null);
+    setAttachmentContext({ type: 'image', name: `${checkpoint.name} ${failed[0].width}x${failed[0].height} diff.png`, data: failed[0].diffImage || failed[0].image });
+    const sizes = failed.map(result => `${result.width}×${result.height}`).join(', ');
+    patchCurrentUiState(() => ({ activeOverlay: null, aiPrompt: `The preview no longer matches the approved look of the visual checkpoint "${checkpoint.name}"${checkpoint.selector ? ` (element \`${checkpoint.selector}\`)` : ''} at ${sizes}. The attached image shows the approved baseline faded, with the pixels that changed in red. Find what caused the change and restore the approved look.` }));
+  }, [patchCurrentUiState]);
+
+  // Re-runs the checkpoints once the workspace state has caught up with an AI change.
+  const latestSnapshot = activeWorkspace?.history?.[0];
+  const latestAiSnapshotId = latestSnapshot && (latestSnapshot.reason === 'ai_task' || latestSnapshot.reason === 'autopilot' || latestSnapshot.reason === 'repair') ? latestSnapshot.id : null;
+  const hasCheckpoints = !!activeWorkspace?.visualCheckpoints?.length;
+  useEffect(() => {
+    if (!activeWorkspaceId) return;
+    const checked = checkedAiSnapshotIdsRef.current;
+    const isFirstLook = !checked.has(activeWorkspaceId);
+    if (checked.get(activeWorkspaceId) === latestAiSnapshotId) return;
+    checked.set(activeWorkspaceId, latestAiSnapshotId);
+    // Changes made before the workspace was opened in this session are not re-checked.
+    if (isFirstLook || !latestAiSnapshotId || !hasCheckpoints) return;
+    const timeoutId = setTimeout(() => { handleRunCheckpoints(); }, 2500);
+    return () => clearTimeout(timeoutId);
+  }, [activeWorkspaceId, latestAiSnapshotId, hasCheckpoints, handleRunCheckpoints]);
+
+  const handleAutoFix = useCallback((error: LogMessage) => { const { location } = error; const node = location && findNodeByPath(location.path, workspacesRef.current.find(ws => ws.id === activeWorkspaceId)?.fileSystem || { type: 'folder', children: {} }); const excerpt = location && node?.type === 'file' ? `The error was raised at ${location.path}, line ${location.line}, column ${location.column}:\n\`\`\`\n${formatSourceExcerpt(node.content, location.line)}\n\`\`\`\n` : ''; handleCreateTask(`My application has an error. Here is the console output:\n---\n${error.message}\n---\n${excerpt}Please analyze the current code and fix this error.`); }, [activeWorkspaceId, handleCreateTask]);
+  const handleFixTests = useCallback(() => { const failures = describeFailingTests(testResults); if (failures) handleCreateTask(`Some of my project's tests fail. Here are the failures:\n---\n${failures}\n---\nPlease analyze the code under test and fix it so the tests pass. Only change a test if the test itself is wrong.`); }, [testResults, handleCreateTask]);
   const handleCreateWorkspace = useCallback(() => setInputModalState({ isOpen: true, title: "Create New Workspace", label: "Enter a name for the new workspace:", initialValue: `Project ${workspaces.length + 1}`, confirmText: 'Create Workspace', onConfirm: (name) => { if (name?.trim()) { const newWorkspace: Workspace = { id: crypto.randomUUID(), name, fileSystem: INITIAL_FILES, tasks: [], createdAt: new Date().toISOString() }; setWorkspaces(prev => [...prev, newWorkspace]); setWorkspaceUiStates(prev => ({ ...prev, [newWorkspace.id]: DEFAULT_UI_STATE })); setActiveWorkspaceId(newWorkspace.id); } }, }), [workspaces.length]);
   const handleDeleteWorkspace = useCallback((id: string) => { if (workspaces.length <= 1) { alert("You cannot delete the last workspace."); return; } if (!confirm("Are you sure you want to delete this workspace? This cannot be undone.")) return; const newWorkspaces = workspaces.filter(ws => ws.id !== id); const newActiveId = (activeWorkspaceId === id) ? (newWorkspaces[0]?.id ?? null) : activeWorkspaceId; setWorkspaceUiStates(prev => { const newStates = {...prev}; delete newStates[id]; return newStates; }); setWorkspaces(newWorkspaces); setActiveWorkspaceId(newActiveId); }, [workspaces, activeWorkspaceId]);
   const handleSwitchWorkspace = useCallback((id: string) => setActiveWorkspaceId(id), []);
-  const handleFileSelect = useCallback((path: string) => { updateCurrentUiState('activeEditorPath', path); updateCurrentUiState('activeOverlay', null); }, [updateCurrentUiState]);
-  const handleCloseEditor = useCallback(() => updateCurrentUiState('activeEditorPath', null), [updateCurrentUiState]);
-  const handleFileContentChange = useCallback((path: string, content: string) => { if (!activeWorkspaceId) return; setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, fileSystem: updateFileContent(ws.fileSystem, path, content) } : ws)); }, [activeWorkspaceId]);
+  const handleExportWorkspace = useCallback((id: string) => { const ws = workspaces.find(w => w.id === id); if (!ws) return; const archive = exportWorkspaceArchive(ws, workspaceUiStates[id]); const url = URL.createObjectURL(new Blob([archive], { type: 'application/zip' })); const link = document.createElement('a'); link.href = url; link.download = toArchiveFileName(ws.name); link.click(); setTimeout(() => URL.revokeObjectURL(url), 0); }, [workspaces, workspaceUiStates]);
+  const handleImportWorkspace = useCallback(async (file: File) => { try { const { workspace, uiState, skippedFiles } = importWorkspaceArchive(new Uint8Array(await file.arrayBuffer()), file.name.replace(/\.zip$/i, '')); setWorkspaces(prev => [...prev, workspace]); setWorkspaceUiStates(prev => ({ ...prev, [workspace.id]: { ...withUiStateDefaults(uiState), activeOverlay: null, isAutoPilotOn: false, autoPilotStartedAt: null } })); setActiveWorkspaceId(workspace.id); if (skippedFiles.length > 0) alert(`Imported "${workspace.name}". ${skippedFiles.length} binary file(s) were skipped:\n${skippedFiles.join('\n')}`); } catch (error) { console.error("Failed to import workspace:", error); alert(`Could not import workspace: ${error instanceof Error ? error.message : String(error)}`); } }, []);
+  const handleSaveAISettings = useCallback((aiSettings: AIProviderSettings) => { if (!activeWorkspaceId) return; setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, aiSettings } : ws)); }, [activeWorkspaceId]);
+  const closeAISettings = useCallback(() => setIsAISettingsOpen(false), []);
+  const handleSaveAutoPilotPolicy = useCallback((autoPilotPolicy: AutoPilotPolicy) => { if (!activeWorkspaceId) return; setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...ws, autoPilotPolicy } : ws)); }, [activeWorkspaceId]);
+  const closeAutoPilotSettings = useCallback(() => setIsAutoPilotSettingsOpen(false), []);
+  const handleFileSelect = useCallback((path: string) => patchCurrentUiState(state => ({ activeEditorPath: path, openEditorPaths: state.openEditorPaths.includes(path) ? state.openEditorPaths : [...state.openEditorPaths, path], activeOverlay: null })), [patchCurrentUiState]);
+  const handleSelectEditorTab = useCallback((pane: 'primary' | 'secondary', path: string) => updateCurrentUiState(pane === 'primary' ? 'activeEditorPath' : 'secondaryEditorPath', path), [updateCurrentUiState]);
+  const handleEditorLayoutChange = useCallback((editorLayout: EditorLayout) => patchCurrentUiState(state => ({ editorLayout, secondaryEditorPath: state.secondaryEditorPath || state.activeEditorPath })), [patchCurrentUiState]);
+  const handlePreviewViewportChange = useCallback((viewport: PreviewViewport) => updateCurrentUiState('previewViewport', viewport), [updateCurrentUiState]);
+  const handleBufferChange = useCallback((path: string, content: string) => { if (!activeWorkspaceId) return; const node = findNodeByPath(path, workspacesRef.current.find(ws => ws.id === activeWorkspaceId)?.fileSystem || { type: 'folder', children: {} }); setUnsavedBuffers(prev => { const { [path]: _, ...rest } = prev[activeWorkspaceId] || {}; return { ...prev, [activeWorkspaceId]: node?.type === 'file' && node.content === content ? rest : { ...rest, [path]: content } }; }); }, [activeWorkspaceId]);
+  const handleCloseEditorTab = useCallback((path: string) => { if (!activeWorkspaceId) return; if (path in (unsavedBuffers[activeWorkspaceId] || {}) && !confirm(`"${path}" has unsaved changes. Close it and discard them?`)) return; setUnsavedBuffers(prev => { const { [path]: _, ...rest } = prev[activeWorkspaceId] || {}; return { ...prev, [activeWorkspaceId]: rest }; }); patchCurrentUiState(state => { const index = state.openEditorPaths.indexOf(path); const openEditorPaths = state.openEditorPaths.filter(p => p !== path); const neighbour = openEditorPaths[Math.min(index, openEditorPaths.length - 1)] ?? null; return { openEditorPaths, activeEditorPath: state.activeEditorPath === path ? neighbour : state.activeEditorPath, secondaryEditorPath: state.secondaryEditorPath === path ? neighbour : state.secondaryEditorPath }; }); }, [activeWorkspaceId, unsavedBuffers, patchCurrentUiState]);
+  const handleFileContentChange = useCallback((path: string, content: string) => { if (!activeWorkspaceId) return; setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId ? { ...withSnapshot(ws, { reason: 'manual_edit', label: `Edit ${path}`, editedPath: path }), fileSystem: updateFileContent(ws.fileSystem, path, content) } : ws)); }, [activeWorkspaceId]);
+  const handleOpenSourceLocation = useCallback((location: SourceLocation) => { handleFileSelect(location.path); updateCurrentUiState('isPreviewFullscreen', false); setEditorReveal({ path: location.path, lineNumber: location.line, column: location.column, length: 0 }); }, [handleFileSelect, updateCurrentUiState]);
+  const handleOpenSearchMatch = useCallback((path: string, match: SearchMatch) => { handleFileSelect(path); setEditorReveal({ path, lineNumber: match.lineNumber, column: match.column, length: match.length }); }, [handleFileSelect]);
+  const handleReplaceAll = useCallback((operations: FileOperation[], label: string) => { const unsavedPaths = operations.map(op => op.path).filter(path => path in (unsavedBuffers[activeWorkspaceId] || {})); if (unsavedPaths.length > 0 && !confirm(`${unsavedPaths.join(', ')} ${unsavedPaths.length === 1 ? 'has' : 'have'} unsaved changes in the editor, which will not include the replacement. Replace anyway?`)) return; handleDirectFileOperations(operations, label); }, [activeWorkspaceId, unsavedBuffers, handleDirectFileOperations]);
+  const handleSaveFile = useCallback((path: string) => { if (!activeWorkspaceId) return; const content = unsavedBuffers[activeWorkspaceId]?.[path]; if (content === undefined) return; handleFileContentChange(path, content); setUnsavedBuffers(prev => { const { [path]: _, ...rest } = prev[activeWorkspaceId] || {}; return { ...prev, [activeWorkspaceId]: rest }; }); }, [activeWorkspaceId, unsavedBuffers, handleFileContentChange]);
   const handleToggleFullscreen = useCallback(() => { const newIsFullscreen = !currentUiState.isPreviewFullscreen; updateCurrentUiState('isPreviewFullscreen', newIsFullscreen); if (newIsFullscreen) updateCurrentUiState('activeEditorPath', null); }, [currentUiState.isPreviewFullscreen, updateCurrentUiState]);
   const handleElementSelected = useCallback((info: SelectedElement) => { setSelectedElementInfo(info); setAttachmentContext(null); }, []);
-  const handleTakeScreenshot = useCallback(async () => { const iframe = iframeRef.current; if (!iframe?.contentWindow?.document.body) { alert("Could not take screenshot. Preview may not have loaded."); return; } await new Promise(resolve => setTimeout(resolve, 200)); try { const canvas = await html2canvas(iframe.contentWindow.document.body, { useCORS: true, allowTaint: true, backgroundColor: '#ffffff', window: iframe.contentWindow, logging: false } as any); setScreenshotDataUrl(canvas.toDataURL('image/jpeg', 0.9)); setIsAnnotationModalOpen(true); } catch (error) { console.error("Error taking screenshot:", error); alert(`Could not take screenshot. Error: ${error instanceof Error ? error.message : String(error)}`); } }, []);
+  const handleTakeScreenshot = useCallback(async () => { const iframe = iframeRef.current; if (!iframe?.contentWindow?.document.body) { alert("Could not take screenshot. Preview may not have loaded."); return; } await new Promise(resolve => setTimeout(resolve, 200)); try { const canvas = await capturePreview(iframe); setScreenshotDataUrl(canvas.toDataURL('image/jpeg', 0.9)); setIsAnnotationModalOpen(true); } catch (error) { console.error("Error taking screenshot:", error); alert(`Could not take screenshot. Error: ${error instanceof Error ? error.message : String(error)}`); } }, []);
   const handleClearContext = useCallback(() => { setSelectedElementInfo(null); setAttachmentContext(null); iframeRef.current?.contentWindow?.postMessage({ type: 'clear-selection' }, '*'); }, []);
   const handleFileContextUpload = useCallback((file: File) => { const reader = new FileReader(); reader.onload = (e) => { const data = e.target?.result as string; setAttachmentContext(file.type.startsWith('image/') ? { type: 'image', name: file.name, data } : { type: 'text', name: file.name, data }); }; if (file.type.startsWith('image/')) reader.readAsDataURL(file); else reader.readAsText(file); }, []);
-  const previewCode = useMemo(() => { if (!activeWorkspace) return "// No active workspace"; const appFileNode = findNodeByPath('src/App.tsx', activeWorkspace.fileSystem); return (appFileNode && appFileNode.type === 'file') ? appFileNode.content : "// App.tsx not found in src folder."; }, [activeWorkspace]);
-  const sidebarItems = [ { panelId: 'workspaces' as const, label: 'Workspaces', icon: <WorkspaceIcon className="w-6 h-6" /> }, { panelId: 'files' as const, label: 'File Explorer', icon: <FileExplorerIcon className="w-6 h-6" /> }, { panelId: 'ai' as const, label: 'AI Assistant', icon: <AIAssistantIcon className="w-6 h-6" /> }, { panelId: 'extensions' as const, label: 'Extensions', icon: <ExtensionsIcon className="w-6 h-6" /> } ];
+  const activeFileSystem = activeWorkspace?.fileSystem;
+  const previewModules = useMemo(() => activeFileSystem ? collectPreviewModules(activeFileSystem) : {}, [activeFileSystem]);
+  const sidebarItems = [ { panelId: 'workspaces' as const, label: 'Workspaces', icon: <WorkspaceIcon className="w-6 h-6" /> }, { panelId: 'files' as const, label: 'File Explorer', icon: <FileExplorerIcon className="w-6 h-6" /> }, { panelId: 'search' as const, label: 'Search', icon: <SearchIcon className="w-6 h-6" /> }, { panelId: 'history' as const, label: 'History', icon: <ClockIcon className="w-6 h-6" /> }, { panelId: 'visual' as const, label: 'Visual Checkpoints', icon: <EyeIcon className="w-6 h-6" /> }, { panelId: 'ai' as const, label: 'AI Assistant', icon: <AIAssistantIcon className="w-6 h-6" /> }, { panelId: 'extensions' as const, label: 'Extensions', icon: <ExtensionsIcon className="w-6 h-6" /> } ];
   const runningTasksCount = useMemo(() => activeWorkspace?.tasks.filter(t => t.status === 'running').length || 0, [activeWorkspace]);
+
+  const closeCommandPalette = useCallback(() => setCommandPalette(null), []);
+  const handleSaveAllFiles = useCallback(() => { for (const path of Object.keys(unsavedBuffers[activeWorkspaceId] || {})) handleSaveFile(path); }, [activeWorkspaceId, unsavedBuffers, handleSaveFile]);
+  const appCommands = useMemo((): Command[] => {
+    const { activeOverlay, activeEditorPath, isAutoPilotOn, isVerificationOn } = currentUiState;
+    const togglePanel = (panelId: OverlayPanelId) => () => updateCurrentUiState('activeOverlay', activeOverlay === panelId ? null : panelId);
+    const activeBuffers = unsavedBuffers[activeWorkspaceId] || {};
+    return [
+      { id: 'workbench.showCommands', category: 'View', title: 'Show All Commands', keybinding: 'Mod+Shift+P', run: () => setCommandPalette('commands') },
+      { id: 'workbench.quickOpen', category: 'Go', title: 'Go to File...', keybinding: 'Mod+P', run: () => setCommandPalette('files') },
+      { id: 'workbench.keyboardShortcuts', category: 'Preferences', title: 'Keyboard Shortcuts', run: () => setIsKeyboardShortcutsOpen(true) },
+      { id: 'view.workspaces', category: 'View', title: 'Toggle Workspaces', run: togglePanel('workspaces') },
+      { id: 'view.files', category: 'View', title: 'Toggle File Explorer', keybinding: 'Mod+Shift+E', run: togglePanel('files') },
+      { id: 'view.search', category: 'View', title: 'Toggle Search', keybinding: 'Mod+Shift+F', run: togglePanel('search') },
+      { id: 'view.history', category: 'View', title: 'Toggle History', run: togglePanel('history') },
+      { id: 'view.visualCheckpoints', category: 'View', title: 'Toggle Visual Checkpoints', run: togglePanel('visual') },
+      { id: 'view.extensions', category: 'View', title: 'Toggle Extensions', keybinding: 'Mod+Shift+X', run: togglePanel('extensions') },
+      { id: 'view.editorLayoutSingle', category: 'View', title: 'Editor Layout: Editor Only', isEnabled: () => !!activeEditorPath, run: () => handleEditorLayoutChange('single') },
+      { id: 'view.editorLayoutPreview', category: 'View', title: 'Editor Layout: Editor and Preview', isEnabled: () => !!activeEditorPath, run: () => handleEditorLayoutChange('editor_preview') },
+      { id: 'view.editorLayoutTwoEditors', category: 'View', title: 'Editor Layout: Two Editors', isEnabled: () => !!activeEditorPath, run: () => handleEditorLayoutChange('two_editors') },
+      { id: 'file.newFile', category: 'File', title: 'New File...', keybinding: 'Alt+N', run: () => handleRequestNewFile() },
+      { id: 'file.newFolder', category: 'File', title: 'New Folder...', run: () => handleRequestNewFolder() },
+      { id: 'file.save', category: 'File', title: 'Save', isEnabled: () => activeEditorPath in activeBuffers, run: () => handleSaveFile(activeEditorPath) },
+      { id: 'file.saveAll', category: 'File', title: 'Save All', keybinding: 'Mod+Alt+S', isEnabled: () => Object.keys(activeBuffers).length > 0, run: handleSaveAllFiles },
+      { id: 'file.closeEditor', category: 'File', title: 'Close Editor', keybinding: 'Alt+W', isEnabled: () => !!activeEditorPath, run: () => handleCloseEditorTab(activeEditorPath) },
+      { id: 'workspace.new', category: 'Workspace', title: 'New Workspace...', run: handleCreateWorkspace },
+      { id: 'workspace.export', category: 'Workspace', title: 'Export Current Workspace', run: () => handleExportWorkspace(activeWorkspaceId) },
+      ...workspaces.filter(ws => ws.id !== activeWorkspaceId).map((ws): Command => ({ id: `workspace.switch.${ws.id}`, category: 'Workspace', title: `Switch to "${ws.name}"`, run: () => handleSwitchWorkspace(ws.id) })),
+      { id: 'ai.toggleAutoPilot', category: 'AI', title: isAutoPilotOn ? 'Turn Off Auto-Pilot' : 'Turn On Auto-Pilot', run: handleToggleAutoPilot },
+      { id: 'ai.autoPilotSettings', category: 'AI', title: 'Auto-Pilot Settings', run: () => setIsAutoPilotSettingsOpen(true) },
+      { id: 'ai.toggleVerification', category: 'AI', title: isVerificationOn ? 'Stop Verifying AI Changes' : 'Verify AI Changes in the Preview', run: () => updateCurrentUiState('isVerificationOn', !isVerificationOn) },
+      { id: 'ai.settings', category: 'AI', title: 'Provider Settings', run: () => setIsAISettingsOpen(true) },
+      { id: 'preview.screenshot', category: 'Preview', title: 'Annotate Screenshot', isEnabled: () => !!iframeRef.current?.contentWindow, run: handleTakeScreenshot },
+      { id: 'preview.runVisualCheckpoints', category: 'Preview', title: 'Run Visual Checkpoints', isEnabled: () => !!activeWorkspace?.visualCheckpoints?.length, run: () => handleRunCheckpoints() },
+      { id: 'preview.toggleFullscreen', category: 'Preview', title: 'Toggle Fullscreen', keybinding: 'Alt+Enter', run: handleToggleFullscreen },
+    ];
+  }, [currentUiState, unsavedBuffers, activeWorkspaceId, workspaces, updateCurrentUiState, handleEditorLayoutChange, handleRequestNewFile, handleRequestNewFolder, handleSaveFile, handleSaveAllFiles, handleCloseEditorTab, handleCreateWorkspace, handleExportWorkspace, handleSwitchWorkspace, handleTakeScreenshot, handleToggleFullscreen, handleRunCheckpoints, handleToggleAutoPilot, activeWorkspace]);
+  useEffect(() => commandRegistry.register(appCommands), [commandRegistry, appCommands]);
+
+
+  // Runs in the capture phase so shortcuts also work while the code editor or an input has focus.
+  useEffect(() => {
+    if (isKeyboardShortcutsOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const keybinding = eventToKeybinding(e);
+      const command = keybinding && commandRegistry.getAll().find(c => getKeybinding(c, keybindingOverrides) === keybinding);
+      if (!command) return;
+      e.preventDefault();
+      e.stopPropagation();
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [commandRegistry, keybindingOverrides, isKeyboardShortcutsOpen]);
   
   if (!activeWorkspace) return <div className="bg-[#181818] h-screen flex justify-center items-center"><LoaderIcon className="w-12 h-12 animate-spin text-blue-400" /></div>;
   
-  const { activeEditorPath, isPreviewFullscreen } = currentUiState;
-  const activeFileNode = activeEditorPath ? findNodeByPath(activeEditorPath, activeWorkspace.fileSystem) : null;
-
-  return (
+  const { activeEditorPath, isPreviewFullscreen, editorLayout } = currentUiState;
+  // Tabs whose file was deleted or renamed since they were opened are dropped.
+  const openEditorPaths = currentUiState.openEditorPaths.filter(path => findNodeByPath(path, activeWorkspace.fileSystem)?.type === 'file');
+  const primaryEditorPath = activeEditorPath && (openEditorPaths.includes(activeEditorPath) ? activeEditorPath : openEditorPaths[0] ?? null);
+  const secondaryEditorPath = openEditorPaths.includes(currentUiState.secondaryEditorPath) ? currentUiState.secondaryEditorPath : primaryEditorPath;
+  const activeUnsavedBuffers = unsavedBuffers[activeWorkspace.id] || NO_UNSAVED_BUFFERS;
+  const preview = <WebsitePreview ref={iframeRef} modules={previewModules} fixableError={fixableError} onConsoleLog={(log: LogMessage) => { setConsoleLogs(prev => [log, ...prev].slice(0, 50)); if (log.level === 'error' && !fixableError) setFixableError(log); }} onAutoFix={handleAutoFix} onOpenLocation={handleOpenSourceLocation} isFullscreen={isPreviewFullscreen} onToggleFullscreen={handleToggleFullscreen} activeTab={currentUiState.previewTab} onTabChange={(tab) => updateCurrentUiState('previewTab', tab)} onTestResults={handleTestResults} onFixTests={handleFixTests} onElementSelected={handleElementSelected} onScreenshot={handleTakeScreenshot} viewport={currentUiState.previewViewport} onViewportChange={handlePreviewViewportChange} />;
+
+  const workbench = (
     <div className="bg-[#181818] text-gray-200 min-h-screen flex flex-col h-screen overflow-hidden" onClick={closeContextMenu}>
+      {commandPalette && <CommandPalette key={commandPalette} mode={commandPalette} registry={commandRegistry} keybindingOverrides={keybindingOverrides} fileSystem={activeWorkspace.fileSystem} onOpenFile={handleFileSelect} onClose={closeCommandPalette} />}
+      {isKeyboardShortcutsOpen && <KeyboardShortcutsModal commands={commandRegistry.getAll()} overrides={keybindingOverrides} onOverridesChange={setKeybindingOverrides} onClose={() => setIsKeyboardShortcutsOpen(false)} />}
       {codePreview && <CodePreviewModal {...codePreview} onClose={() => setCodePreview(null)} />}
       <InputModal {...inputModalState} onClose={closeInputModal} />
+      <AISettingsModal isOpen={isAISettingsOpen} settings={activeWorkspace.aiSettings || DEFAULT_AI_SETTINGS} onClose={closeAISettings} onSave={handleSaveAISettings} />
+      <AutoPilotSettingsModal isOpen={isAutoPilotSettingsOpen} policy={autoPilotPolicy} onClose={closeAutoPilotSettings} onSave={handleSaveAutoPilotPolicy} />
       {isAnnotationModalOpen && screenshotDataUrl && <AnnotationModal isOpen={isAnnotationModalOpen} screenshotDataUrl={screenshotDataUrl} onClose={() => setIsAnnotationModalOpen(false)} onConfirm={(imageData) => { setAttachmentContext({ type: 'image', name: 'annotated-screenshot.jpeg', data: imageData }); setSelectedElementInfo(null); setIsAnnotationModalOpen(false); }} />}
 
       <header className="flex items-center p-2.5 border-b border-gray-700 bg-[#1E1E1E] z-20 shrink-0">
@@ -391,25 +773,37 @@ const App: React.FC = () => {
       <div className="flex-grow flex overflow-hidden">
         {!isPreviewFullscreen && ( <>
           <Sidebar activePanel={currentUiState.activeOverlay} onPanelChange={(panelId) => { if (panelId !== 'ai') updateCurrentUiState('activeOverlay', currentUiState.activeOverlay === panelId ? null : panelId); }} items={sidebarItems} />
-          <OverlayPanel isOpen={currentUiState.activeOverlay === 'workspaces'} onClose={() => updateCurrentUiState('activeOverlay', null)}><WorkspacesPanel workspaces={workspaces} activeWorkspaceId={activeWorkspaceId} onSwitchWorkspace={handleSwitchWorkspace} onCreateWorkspace={handleCreateWorkspace} onDeleteWorkspace={handleDeleteWorkspace} /></OverlayPanel>
-          <OverlayPanel isOpen={currentUiState.activeOverlay === 'files'} onClose={() => updateCurrentUiState('activeOverlay', null)}><FileExplorer fileSystem={activeWorkspace.fileSystem} setContextMenu={setContextMenu} onAiTaskRequest={handleCreateTask} onDirectFileOps={handleDirectFileOperations} onFileSelect={handleFileSelect} activeFilePath={activeEditorPath} onFileUpload={handleFileUpload} onNewFileRequest={handleRequestNewFile} onNewFolderRequest={handleRequestNewFolder} /></OverlayPanel>
+          <OverlayPanel isOpen={currentUiState.activeOverlay === 'workspaces'} onClose={() => updateCurrentUiState('activeOverlay', null)}><WorkspacesPanel workspaces={workspaces} activeWorkspaceId={activeWorkspaceId} onSwitchWorkspace={handleSwitchWorkspace} onCreateWorkspace={handleCreateWorkspace} onDeleteWorkspace={handleDeleteWorkspace} onExportWorkspace={handleExportWorkspace} onImportWorkspace={handleImportWorkspace} /></OverlayPanel>
+          <OverlayPanel isOpen={currentUiState.activeOverlay === 'files'} onClose={() => updateCurrentUiState('activeOverlay', null)}><FileExplorer fileSystem={activeWorkspace.fileSystem} setContextMenu={setContextMenu} onAiTaskRequest={handleCreateTask} onDirectFileOps={handleDirectFileOperations} onFileSelect={handleFileSelect} activeFilePath={primaryEditorPath} onFileUpload={handleFileUpload} onNewFileRequest={handleRequestNewFile} onNewFolderRequest={handleRequestNewFolder} /></OverlayPanel>
+          <OverlayPanel isOpen={currentUiState.activeOverlay === 'search'} onClose={() => updateCurrentUiState('activeOverlay', null)}><SearchPanel fileSystem={activeWorkspace.fileSystem} state={searchState} onStateChange={setSearchState} onOpenMatch={handleOpenSearchMatch} onReplaceAll={handleReplaceAll} /></OverlayPanel>
+          <OverlayPanel isOpen={currentUiState.activeOverlay === 'history'} onClose={() => updateCurrentUiState('activeOverlay', null)}><HistoryPanel history={activeWorkspace.history || []} fileSystem={activeWorkspace.fileSystem} onRestore={handleRestoreSnapshot} /></OverlayPanel>
+          <OverlayPanel isOpen={currentUiState.activeOverlay === 'visual'} onClose={() => updateCurrentUiState('activeOverlay', null)}><VisualCheckpointsPanel checkpoints={activeWorkspace.visualCheckpoints || []} runningIds={runningCheckpointIds} onCreate={handleCreateCheckpoint} onRun={handleRunCheckpoints} onAccept={handleAcceptCheckpoint} onDelete={handleDeleteCheckpoint} onAskAI={handleAskAIAboutCheckpoint} /></OverlayPanel>
           <OverlayPanel isOpen={currentUiState.activeOverlay === 'extensions'} onClose={() => updateCurrentUiState('activeOverlay', null)}><ExtensionsPanel onExtensionChange={() => setInstalledExtensions(getInstalledExtensions())} /></OverlayPanel>
         </>)}
-        
+      
         {contextMenu && <ContextMenu {...contextMenu} onClose={closeContextMenu} />}
 
         <main className="flex-grow flex flex-row overflow-hidden">
-          <div className={`${isPreviewFullscreen ? 'w-full' : 'w-3/5'} flex flex-col ${!isPreviewFullscreen && 'border-r-2 border-gray-700'}`}>
-            {activeEditorPath && !isPreviewFullscreen && activeFileNode?.type === 'file' ? (
-              <CodeEditor path={activeEditorPath} content={activeFileNode.content} onContentChange={(newContent) => handleFileContentChange(activeEditorPath, newContent)} onClose={handleCloseEditor} />
-            ) : (
-              <WebsitePreview ref={iframeRef} code={previewCode} fixableError={fixableError} onConsoleLog={(log: LogMessage) => { setConsoleLogs(prev => [log, ...prev].slice(0, 50)); if (log.level === 'error' && !fixableError) setFixableError(log); }} onAutoFix={handleAutoFix} isFullscreen={isPreviewFullscreen} onToggleFullscreen={handleToggleFullscreen} activeTab={currentUiState.previewTab} onTabChange={(tab) => updateCurrentUiState('previewTab', tab)} onElementSelected={handleElementSelected} onScreenshot={handleTakeScreenshot} />
+          <div className={`${isPreviewFullscreen ? 'w-full' : 'w-3/5'} flex flex-row ${!isPreviewFullscreen && 'border-r-2 border-gray-700'}`}>
+            {primaryEditorPath && !isPreviewFullscreen ? ( <>
+              <div className={`${editorLayout === 'single' ? 'w-full' : 'w-1/2 border-r border-gray-700'} flex flex-col`}>
+                <CodeEditor workspaceId={activeWorkspace.id} openPaths={openEditorPaths} path={primaryEditorPath} fileSystem={activeWorkspace.fileSystem} unsavedBuffers={activeUnsavedBuffers} onSelectTab={(path) => handleSelectEditorTab('primary', path)} onCloseTab={handleCloseEditorTab} onBufferChange={handleBufferChange} onSave={handleSaveFile} layout={editorLayout} onLayoutChange={handleEditorLayoutChange} reveal={editorReveal} />
+              </div>
+              {editorLayout === 'editor_preview' && <div className="w-1/2 flex flex-col">{preview}</div>}
+              {editorLayout === 'two_editors' && (
+                <div className="w-1/2 flex flex-col">
+                  <CodeEditor workspaceId={activeWorkspace.id} openPaths={openEditorPaths} path={secondaryEditorPath} fileSystem={activeWorkspace.fileSystem} unsavedBuffers={activeUnsavedBuffers} onSelectTab={(path) => handleSelectEditorTab('secondary', path)} onCloseTab={handleCloseEditorTab} onBufferChange={handleBufferChange} onSave={handleSaveFile} />
+                </div>
+              )}
+            </>) : (
+              <div className="w-full flex flex-col">{preview}</div>
             )}
           </div>
           {!isPreviewFullscreen && (
             <div className="w-2/5 flex flex-col">
               <AIPanel 
                 tasks={activeWorkspace.tasks}
+                fileSystem={activeWorkspace.fileSystem}
                 onSendMessage={handleCreateTask}
                 isLoading={runningTasksCount > 0}
                 prompt={currentUiState.aiPrompt}
@@ -417,12 +811,24 @@ const App: React.FC = () => {
                 onApproveTask={handleApproveTask}
                 onRejectTask={handleRejectTask}
                 onApproveBlueprint={handleApproveBlueprint}
+                onRevertTask={handleRevertTask}
+                onCancelTask={handleCancelTask}
+                onRetryTask={handleRetryTask}
+                onRegenerateTask={handleRegenerateTask}
+                onApproveRepair={handleApproveRepair}
+                onRejectRepair={handleRejectRepair}
                 isAutoPilotOn={currentUiState.isAutoPilotOn}
-                onToggleAutoPilot={() => updateCurrentUiState('isAutoPilotOn', !currentUiState.isAutoPilotOn)}
+                onToggleAutoPilot={handleToggleAutoPilot}
+                autoPilotStatus={autoPilotStatus}
+                onOpenAutoPilotSettings={() => setIsAutoPilotSettingsOpen(true)}
+                isVerificationOn={currentUiState.isVerificationOn}
+                onToggleVerification={() => updateCurrentUiState('isVerificationOn', !currentUiState.isVerificationOn)}
                 elementContext={selectedElementInfo}
                 attachmentContext={attachmentContext}
                 onClearContext={handleClearContext}
                 onFileUploadForContext={handleFileContextUpload}
+                aiSettings={activeWorkspace.aiSettings || DEFAULT_AI_SETTINGS}
+                onOpenAISettings={() => setIsAISettingsOpen(true)}
               />
             </div>
           )}
@@ -430,6 +836,8 @@ const App: React.FC = () => {
       </div>
     </div>
   );
+
+  return <CommandRegistryContext.Provider value={commandRegistry}>{workbench}</CommandRegistryContext.Provider>;
 };
 
 export default App;
\ No newline at end of file
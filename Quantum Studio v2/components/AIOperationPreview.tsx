@@ -1,5 +1,7 @@
-import React from 'react';
-import type { FileOperation } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { FileOperation, FileSystemTree, FileSystemNode, OperationApproval } from '../types';
+import { diffLines, buildHunks, toSplitRows, countChanges, type DiffLine, type DiffLineType, type DiffHunk } from '../services/diff';
+import { findNodeByPath } from '../services/fileSystem';
 import { LoaderIcon } from './icons/LoaderIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { QuestionMarkCircleIcon } from './icons/QuestionMarkCircleIcon';
@@ -22,44 +24,169 @@ const getFileIcon = (fileName: string) => {
 };
 
 
-const FileChangePreview: React.FC<{ operation: FileOperation }> = ({ operation }) => {
-    const lines = (operation.content || '').split('\n');
-    // For now, we treat all lines in a create/update op as additions.
-    const diffLines = lines.map(line => ({ type: 'add', content: line }));
+type DiffViewMode = 'unified' | 'split';
+
+const lineClasses: Record<DiffLineType, string> = {
+    context: '',
+    add: 'bg-green-800/20',
+    remove: 'bg-red-800/20',
+};
+
+const markerClasses: Record<DiffLineType, string> = {
+    context: 'text-gray-600',
+    add: 'text-green-400',
+    remove: 'text-red-400',
+};
+
+const markers: Record<DiffLineType, string> = { context: ' ', add: '+', remove: '-' };
+
+// Lets each hunk be switched on or off while the operation is still pending.
+interface HunkSelection {
+    isAccepted: boolean;
+    onToggle?: () => void;
+}
+
+const HunkHeader: React.FC<{ hunk: DiffHunk; colSpan: number; selection?: HunkSelection }> = ({ hunk, colSpan, selection }) => (
+    <tr className="bg-blue-900/20">
+        <td colSpan={colSpan} className="px-2 py-0.5 text-blue-300/80 select-none">
+            <label className={`flex items-center gap-2 ${selection?.onToggle ? 'cursor-pointer' : ''}`}>
+                {selection?.onToggle && <input type="checkbox" checked={selection.isAccepted} onChange={selection.onToggle} className="accent-green-500" />}
+                <span>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+                {selection && !selection.isAccepted && <span className="text-gray-500 font-sans text-xs">excluded</span>}
+            </label>
+        </td>
+    </tr>
+);
+
+const UnifiedHunk: React.FC<{ hunk: DiffHunk; selection?: HunkSelection }> = ({ hunk, selection }) => (
+    <>
+        <HunkHeader hunk={hunk} colSpan={4} selection={selection} />
+        {hunk.lines.map((line, index) => (
+            <tr key={index} className={`${lineClasses[line.type]} ${selection && !selection.isAccepted ? 'opacity-40' : ''}`}>
+                <td className="w-10 px-2 text-right text-gray-500 select-none">{line.oldLineNumber ?? ''}</td>
+                <td className="w-10 px-2 text-right text-gray-500 select-none">{line.newLineNumber ?? ''}</td>
+                <td className={`w-4 px-1 text-center select-none ${markerClasses[line.type]}`}>{markers[line.type]}</td>
+                <td className="pr-4 py-0.5"><code className="text-gray-200 whitespace-pre-wrap">{line.content || ' '}</code></td>
+            </tr>
+        ))}
+    </>
+);
+
+const SplitCell: React.FC<{ line?: DiffLine; side: 'left' | 'right' }> = ({ line, side }) => {
+    const lineNumber = side === 'left' ? line?.oldLineNumber : line?.newLineNumber;
+    const bg = line ? lineClasses[line.type] : 'bg-gray-900/40';
+    return (
+        <>
+            <td className={`w-10 px-2 text-right text-gray-500 select-none ${bg}`}>{lineNumber ?? ''}</td>
+            <td className={`w-1/2 pr-2 py-0.5 ${bg} ${side === 'left' ? 'border-r border-gray-700' : ''}`}>
+                <code className="text-gray-200 whitespace-pre-wrap">{line?.content || ' '}</code>
+            </td>
+        </>
+    );
+};
+
+const SplitHunk: React.FC<{ hunk: DiffHunk; selection?: HunkSelection }> = ({ hunk, selection }) => (
+    <>
+        <HunkHeader hunk={hunk} colSpan={4} selection={selection} />
+        {toSplitRows(hunk.lines).map((row, index) => (
+            <tr key={index} className={selection && !selection.isAccepted ? 'opacity-40' : ''}>
+                <SplitCell line={row.left} side="left" />
+                <SplitCell line={row.right} side="right" />
+            </tr>
+        ))}
+    </>
+);
+
+interface FileChangePreviewProps {
+    operation: FileOperation;
+    originalContent: string | null;
+    viewMode: DiffViewMode;
+    isAccepted: boolean;
+    onToggle?: () => void;
+    rejectedHunks: number[];
+    onToggleHunk?: (hunkIndex: number) => void;
+}
+
+export const FileChangePreview: React.FC<FileChangePreviewProps> = ({ operation, originalContent, viewMode, isAccepted, onToggle, rejectedHunks, onToggleHunk }) => {
+    const diff = useMemo(() => diffLines(originalContent ?? '', operation.content || ''), [originalContent, operation.content]);
+    const hunks = useMemo(() => buildHunks(diff), [diff]);
+    const { added, removed } = countChanges(diff);
+    const isNewFile = originalContent === null;
 
     return (
-        <div className="bg-[#2a2d33] border border-gray-700 rounded-lg overflow-hidden">
+        <div className={`bg-[#2a2d33] border border-gray-700 rounded-lg overflow-hidden ${isAccepted ? '' : 'opacity-60'}`}>
             <div className="p-3 border-b border-gray-700 bg-[#34373d]">
-                <p className="font-mono text-sm text-blue-300 truncate" title={operation.path}>
-                    {getFileIcon(operation.path)}
-                    {operation.path}
-                </p>
+                <div className="flex items-center justify-between gap-2">
+                    {onToggle && <input type="checkbox" checked={isAccepted} onChange={onToggle} className="accent-green-500 shrink-0" title={isAccepted ? 'Exclude this file' : 'Include this file'} />}
+                    <p className={`font-mono text-sm truncate flex-grow ${isAccepted ? 'text-blue-300' : 'text-gray-500 line-through'}`} title={operation.path}>
+                        {getFileIcon(operation.path)}
+                        {operation.path}
+                    </p>
+                    <div className="flex items-center gap-2 text-xs font-mono shrink-0">
+                        {isNewFile && <span className="px-1.5 py-0.5 rounded bg-green-700/40 text-green-300 font-sans font-semibold">NEW</span>}
+                        <span className="text-green-400">+{added}</span>
+                        <span className="text-red-400">-{removed}</span>
+                    </div>
+                </div>
                 {operation.description && (
                     <p className="text-sm text-gray-300 mt-1.5">{operation.description}</p>
                 )}
             </div>
-            <div className="max-h-[300px] overflow-auto text-sm font-mono">
-                <table className="w-full text-left">
-                    <tbody>
-                        {diffLines.map((line, index) => (
-                            <tr key={index} className="bg-green-800/20">
-                                <td className="w-10 px-2 text-right text-gray-500 select-none">{index + 1}</td>
-                                <td className="w-4 px-1 text-center text-green-400 select-none">+</td>
-                                <td className="pr-4 py-0.5"><code className="text-gray-200 whitespace-pre-wrap">{line.content || ' '}</code></td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
+            {isAccepted && <div className="max-h-[300px] overflow-auto text-sm font-mono">
+                {hunks.length === 0 ? (
+                    <p className="p-3 text-gray-500 font-sans">No changes to this file's content.</p>
+                ) : (
+                    <table className="w-full text-left">
+                        <tbody>
+                            {hunks.map((hunk, index) => {
+                                // Partial application only makes sense for files that already exist.
+                                const selection = onToggleHunk && !isNewFile && hunks.length > 1
+                                    ? { isAccepted: !rejectedHunks.includes(index), onToggle: () => onToggleHunk(index) }
+                                    : undefined;
+                                return viewMode === 'split'
+                                    ? <SplitHunk key={index} hunk={hunk} selection={selection} />
+                                    : <UnifiedHunk key={index} hunk={hunk} selection={selection} />;
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>}
         </div>
     );
 };
 
+const countFiles = (node: FileSystemNode | null): number => {
+    if (!node) return 0;
+    if (node.type === 'file') return 1;
+    return Object.values(node.children).reduce((sum, child) => sum + countFiles(child), 0);
+};
+
+export const describeOperation = (op: FileOperation, fileSystem?: FileSystemTree): string => {
+    const node = fileSystem ? findNodeByPath(op.path, fileSystem) : null;
+    switch (op.operation) {
+        case 'RENAME_FILE': case 'RENAME_FOLDER':
+            return `Rename ${op.path} \u2192 ${op.newPath}`;
+        case 'DELETE_FILE':
+            return node?.type === 'file' ? `Delete ${op.path} (-${node.content.split('\n').length} lines)` : `Delete ${op.path}`;
+        case 'DELETE_FOLDER': {
+            const files = countFiles(node);
+            return fileSystem ? `Delete folder ${op.path} (${files} file${files === 1 ? '' : 's'})` : `Delete folder ${op.path}`;
+        }
+        case 'CREATE_FOLDER':
+            return `Create folder ${op.path}`;
+        default:
+            return `${op.operation.replace('_', ' ')}: ${op.path}`;
+    }
+};
 
 interface AIOperationPreviewProps {
     operations: FileOperation[];
     status: 'processing' | 'confirmed' | 'pending';
-    onApprove?: () => void;
+    // The tree the operations will be applied to. Without it, file contents are shown as additions.
+    fileSystem?: FileSystemTree;
+    // Operations that were actually applied; the rest are shown as skipped.
+    appliedOperations?: OperationApproval[];
+    onApprove?: (approvals: OperationApproval[]) => void;
     onReject?: () => void;
 }
 
@@ -78,35 +205,83 @@ const statusConfig = {
     }
 };
 
-export const AIOperationPreview: React.FC<AIOperationPreviewProps> = ({ operations, status, onApprove, onReject }) => {
+export const AIOperationPreview: React.FC<AIOperationPreviewProps> = ({ operations, status, fileSystem, appliedOperations, onApprove, onReject }) => {
     const { icon, title } = statusConfig[status];
+    const [viewMode, setViewMode] = useState<DiffViewMode>('unified');
+    const [rejectedOps, setRejectedOps] = useState<number[]>([]);
+    const [rejectedHunks, setRejectedHunks] = useState<{ [opIndex: number]: number[] }>({});
+    const isPending = status === 'pending';
+
+    const getOriginalContent = (path: string): string | null => {
+        const node = fileSystem ? findNodeByPath(path, fileSystem) : null;
+        return node?.type === 'file' ? node.content : null;
+    };
 
-    const validOps = operations.filter(op => op && op.operation && op.path);
-    const fileChangeOps = validOps.filter(op => op.operation === 'CREATE_FILE' || op.operation === 'UPDATE_FILE');
-    const otherOps = validOps.filter(op => op.operation !== 'CREATE_FILE' && op.operation !== 'UPDATE_FILE');
+    const isAccepted = (index: number) => isPending
+        ? !rejectedOps.includes(index)
+        : !appliedOperations || appliedOperations.some(a => a.index === index);
+
+    const toggleOperation = (index: number) => setRejectedOps(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+    const toggleHunk = (opIndex: number, hunkIndex: number) => setRejectedHunks(prev => {
+        const current = prev[opIndex] || [];
+        return { ...prev, [opIndex]: current.includes(hunkIndex) ? current.filter(i => i !== hunkIndex) : [...current, hunkIndex] };
+    });
+
+    // Keep each operation's original index so approvals can refer back to it.
+    const validOps = operations.map((op, index) => ({ op, index })).filter(({ op }) => op && op.operation && op.path);
+    const fileChangeOps = validOps.filter(({ op }) => op.operation === 'CREATE_FILE' || op.operation === 'UPDATE_FILE');
+    const otherOps = validOps.filter(({ op }) => op.operation !== 'CREATE_FILE' && op.operation !== 'UPDATE_FILE');
+    const acceptedCount = validOps.filter(({ index }) => isAccepted(index)).length;
+    const hasPartialSelection = acceptedCount < validOps.length || Object.values<number[]>(rejectedHunks).some(h => h.length > 0);
+
+    const handleApprove = () => {
+        onApprove?.(validOps
+            .filter(({ index }) => isAccepted(index))
+            .map(({ index }) => rejectedHunks[index]?.length ? { index, rejectedHunks: rejectedHunks[index] } : { index }));
+    };
 
     return (
         <div className="mt-3 bg-gray-800 rounded-lg border border-gray-600">
              <div className="p-3">
                 <div className="flex items-center gap-2 mb-3">
                     {icon}
-                    <h4 className="font-semibold text-gray-200">{title}</h4>
+                    <h4 className="font-semibold text-gray-200 flex-grow">{title}</h4>
+                    {fileChangeOps.length > 0 && (
+                        <div className="flex items-center text-xs rounded-md border border-gray-600 overflow-hidden">
+                            {(['unified', 'split'] as const).map(mode => (
+                                <button key={mode} onClick={() => setViewMode(mode)} className={`px-2 py-1 capitalize ${viewMode === mode ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
+                {status === 'confirmed' && appliedOperations && acceptedCount < validOps.length && (
+                    <p className="text-xs text-gray-400 mb-3">{acceptedCount} of {validOps.length} operations were applied.</p>
+                )}
                 
                 <div className="space-y-3">
-                    {fileChangeOps.map((op, index) => (
-                        <FileChangePreview key={index} operation={op} />
+                    {fileChangeOps.map(({ op, index }) => (
+                        <FileChangePreview
+                            key={index}
+                            operation={op}
+                            originalContent={getOriginalContent(op.path)}
+                            viewMode={viewMode}
+                            isAccepted={isAccepted(index)}
+                            onToggle={isPending ? () => toggleOperation(index) : undefined}
+                            rejectedHunks={rejectedHunks[index] || []}
+                            onToggleHunk={isPending ? (hunkIndex) => toggleHunk(index, hunkIndex) : undefined}
+                        />
                     ))}
                     
                     {otherOps.length > 0 && (
                         <div>
                             <ul className="space-y-1 text-sm">
-                                {otherOps.map((op, index) => (
-                                    <li key={index} className="font-mono text-gray-400">
-                                        {op.operation.startsWith('RENAME')
-                                            ? `Rename ${op.path} to ${op.newPath}`
-                                            : `${op.operation.replace('_', ' ')}: ${op.path}`
-                                        }
+                                {otherOps.map(({ op, index }) => (
+                                    <li key={index} className={`font-mono flex items-center gap-2 ${op.operation.startsWith('DELETE') ? 'text-red-300/80' : 'text-gray-400'} ${isAccepted(index) ? '' : 'line-through opacity-60'}`}>
+                                        {isPending && <input type="checkbox" checked={isAccepted(index)} onChange={() => toggleOperation(index)} className="accent-green-500 shrink-0" />}
+                                        {describeOperation(op, fileSystem)}
                                     </li>
                                 ))}
                             </ul>
@@ -115,7 +290,7 @@ export const AIOperationPreview: React.FC<AIOperationPreviewProps> = ({ operatio
                 </div>
             </div>
 
-            {status === 'pending' && (
+            {isPending && (
                 <div className="flex items-center justify-end gap-3 p-3 border-t border-gray-700 bg-gray-800/50">
                     <button 
                         onClick={onReject}
@@ -124,13 +299,14 @@ export const AIOperationPreview: React.FC<AIOperationPreviewProps> = ({ operatio
                         Reject
                     </button>
                      <button 
-                        onClick={onApprove}
-                        className="px-4 py-1.5 text-sm font-semibold rounded-md transition-colors bg-green-600 hover:bg-green-500 text-white"
+                        onClick={handleApprove}
+                        disabled={acceptedCount === 0}
+                        className="px-4 py-1.5 text-sm font-semibold rounded-md transition-colors bg-green-600 hover:bg-green-500 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
                     >
-                        Approve Changes
+                        {hasPartialSelection ? `Apply Selected (${acceptedCount}/${validOps.length})` : 'Approve Changes'}
                     </button>
                 </div>
             )}
         </div>
     );
-};
\ No newline at end of file
+};
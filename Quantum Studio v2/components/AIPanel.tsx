@@ -1,29 +1,47 @@
-import React, { useRef, useEffect } from 'react';
-import type { AITask, SelectedElement, AttachmentContext } from '../types';
+import React, { useRef, useEffect, useMemo } from 'react';
+import type { AITask, SelectedElement, AttachmentContext, AIProviderSettings, FileSystemTree, OperationApproval } from '../types';
 import { AITaskItem } from './AITaskItem';
+import { useRegisterCommands } from './CommandPalette';
 import { Switch } from './Switch';
 import { XCircleIcon } from './icons/XCircleIcon';
 import { PlusCircleIcon } from './icons/PlusCircleIcon';
+import { CogIcon } from './icons/CogIcon';
+import { PROVIDERS } from '../services/providers';
 
 interface AIPanelProps {
     tasks: AITask[];
+    fileSystem: FileSystemTree;
     onSendMessage: (prompt: string) => void;
     isLoading: boolean;
     prompt: string;
     onPromptChange: (newPrompt: string) => void;
-    onApproveTask: (taskId: string) => void;
+    onApproveTask: (taskId: string, approvals: OperationApproval[]) => void;
     onRejectTask: (taskId: string) => void;
     onApproveBlueprint: (taskId: string) => void;
+    onRevertTask: (taskId: string) => void;
+    onCancelTask: (taskId: string) => void;
+    onRetryTask: (taskId: string) => void;
+    onRegenerateTask: (taskId: string) => void;
+    onApproveRepair: (taskId: string, approvals: OperationApproval[]) => void;
+    onRejectRepair: (taskId: string) => void;
     isAutoPilotOn: boolean;
     onToggleAutoPilot: () => void;
+    /** The session's progress while Auto-Pilot is on, or why it stopped. */
+    autoPilotStatus: string | null;
+    onOpenAutoPilotSettings: () => void;
+    isVerificationOn: boolean;
+    onToggleVerification: () => void;
     elementContext: SelectedElement | null;
     attachmentContext: AttachmentContext | null;
     onClearContext: () => void;
     onFileUploadForContext: (file: File) => void;
+    aiSettings: AIProviderSettings;
+    onOpenAISettings: () => void;
 }
 
 export const AIPanel: React.FC<AIPanelProps> = ({
     tasks,
+    fileSystem,
     onSendMessage,
     isLoading,
     prompt,
@@ -31,15 +49,32 @@ export const AIPanel: React.FC<AIPanelProps> = ({
     onApproveTask,
     onRejectTask,
     onApproveBlueprint,
+    onRevertTask,
+    onCancelTask,
+    onRetryTask,
+    onRegenerateTask,
+    onApproveRepair,
+    onRejectRepair,
     isAutoPilotOn,
     onToggleAutoPilot,
+    autoPilotStatus,
+    onOpenAutoPilotSettings,
+    isVerificationOn,
+    onToggleVerification,
     elementContext,
     attachmentContext,
     onClearContext,
-    onFileUploadForContext
+    onFileUploadForContext,
+    aiSettings,
+    onOpenAISettings
 }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const promptRef = useRef<HTMLTextAreaElement>(null);
+
+    useRegisterCommands(useMemo(() => [
+        { id: 'ai.focusPrompt', category: 'AI', title: 'Focus Prompt', keybinding: 'Mod+L', run: () => promptRef.current?.focus() },
+    ], []));
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -79,11 +114,25 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                 <div className="flex justify-between items-center">
                     <h2 className="text-lg font-bold text-gray-200">AI Assistant</h2>
                      <div className="flex items-center gap-2">
+                        <span title="Render applied changes in the background and let the AI repair the errors they cause" className={`text-xs font-bold uppercase ${isVerificationOn ? 'text-blue-400' : 'text-gray-500'}`}>Verify</span>
+                        <Switch isOn={isVerificationOn} onToggle={onToggleVerification} id="verification-switch" />
                         <span className={`text-xs font-bold uppercase ${isAutoPilotOn ? 'text-blue-400' : 'text-gray-500'}`}>Auto-Pilot</span>
                         <Switch isOn={isAutoPilotOn} onToggle={onToggleAutoPilot} id="autopilot-switch" />
+                        <button onClick={onOpenAutoPilotSettings} title="Auto-Pilot settings" className="p-1 text-gray-400 rounded-md hover:bg-gray-700 hover:text-white">
+                            <CogIcon className="w-4 h-4" />
+                        </button>
                     </div>
                 </div>
-                <p className="text-sm text-gray-400 mt-1">The AI can work proactively or on-demand.</p>
+                {autoPilotStatus && (
+                    <p className={`text-xs mt-1 text-right ${isAutoPilotOn ? 'text-blue-400' : 'text-yellow-400'}`}>{autoPilotStatus}</p>
+                )}
+                <div className="flex justify-between items-center mt-1 gap-2">
+                    <p className="text-sm text-gray-400">The AI can work proactively or on-demand.</p>
+                    <button onClick={onOpenAISettings} title="AI provider settings" className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-400 rounded-md hover:bg-gray-700 hover:text-white shrink-0 min-w-0">
+                        <CogIcon className="w-4 h-4 shrink-0" />
+                        <span className="truncate">{PROVIDERS[aiSettings.providerId]?.label} &middot; {aiSettings.model}</span>
+                    </button>
+                </div>
             </div>
             <div className="flex-grow p-4 overflow-y-auto space-y-4">
                  <div ref={messagesEndRef} />
@@ -100,6 +149,13 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                         onApprove={onApproveTask}
                         onReject={onRejectTask}
                         onApproveBlueprint={onApproveBlueprint}
+                        onRevert={onRevertTask}
+                        onCancel={onCancelTask}
+                        onRetry={onRetryTask}
+                        onRegenerate={onRegenerateTask}
+                        onApproveRepair={onApproveRepair}
+                        onRejectRepair={onRejectRepair}
+                        fileSystem={fileSystem}
                     />
                 ))}
             </div>
@@ -145,6 +201,7 @@ export const AIPanel: React.FC<AIPanelProps> = ({
                         <PlusCircleIcon className="w-7 h-7" />
                     </button>
                     <textarea
+                        ref={promptRef}
                         value={prompt}
                         onChange={(e) => onPromptChange(e.target.value)}
                         onKeyDown={handlePromptKeyDown}
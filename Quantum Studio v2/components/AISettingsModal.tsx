@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import type { AIProviderSettings, LLMProviderId } from '../types';
+import { PROVIDERS } from '../services/providers';
+import { DEFAULT_CONTEXT_BUDGET } from '../services/taskContext';
+
+interface AISettingsModalProps {
+    isOpen: boolean;
+    settings: AIProviderSettings;
+    onClose: () => void;
+    onSave: (settings: AIProviderSettings) => void;
+}
+
+const inputClassName = "w-full p-2 bg-gray-800 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-sm";
+
+export const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, settings, onClose, onSave }) => {
+    const [draft, setDraft] = useState<AIProviderSettings>(settings);
+
+    useEffect(() => {
+        if (isOpen) setDraft(settings);
+    }, [isOpen, settings]);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        if (isOpen) window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const provider = PROVIDERS[draft.providerId];
+
+    const handleProviderChange = (providerId: LLMProviderId) => {
+        setDraft({ providerId, model: PROVIDERS[providerId].defaultModel, baseUrl: providerId === 'openai-compatible' ? draft.baseUrl : undefined, contextBudget: draft.contextBudget });
+    };
+
+    const handleSave = () => {
+        onSave({ ...draft, model: draft.model.trim() || provider.defaultModel });
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="relative flex flex-col bg-[#1E1E1E] border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg text-white p-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-bold mb-1">AI Provider</h2>
+                <p className="text-sm text-gray-400 mb-4">These settings apply to the current workspace only.</p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="ai-provider" className="block text-sm text-gray-400 mb-2">Provider</label>
+                        <select id="ai-provider" value={draft.providerId} onChange={(e) => handleProviderChange(e.target.value as LLMProviderId)} className={inputClassName}>
+                            {Object.values(PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                    </div>
+                    {draft.providerId !== 'mock' && (
+                        <div>
+                            <label htmlFor="ai-model" className="block text-sm text-gray-400 mb-2">Model</label>
+                            <input id="ai-model" type="text" value={draft.model} placeholder={provider.defaultModel} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className={inputClassName} />
+                        </div>
+                    )}
+                    {draft.providerId === 'openai-compatible' && (
+                        <div>
+                            <label htmlFor="ai-base-url" className="block text-sm text-gray-400 mb-2">Base URL</label>
+                            <input id="ai-base-url" type="text" value={draft.baseUrl || ''} placeholder="http://localhost:11434/v1" onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} className={inputClassName} />
+                        </div>
+                    )}
+                    {draft.providerId !== 'mock' && (
+                        <div>
+                            <label htmlFor="ai-api-key" className="block text-sm text-gray-400 mb-2">API Key {!provider.requiresApiKey && '(optional)'}</label>
+                            <input id="ai-api-key" type="password" value={draft.apiKey || ''} placeholder={draft.providerId === 'gemini' ? 'Defaults to GEMINI_API_KEY' : ''} onChange={(e) => setDraft({ ...draft, apiKey: e.target.value || undefined })} className={inputClassName} />
+                        </div>
+                    )}
+                    {draft.providerId !== 'mock' && (
+                        <div>
+                            <label htmlFor="ai-context-budget" className="block text-sm text-gray-400 mb-2">Context budget (tokens)</label>
+                            <input id="ai-context-budget" type="number" min={1000} step={1000} value={draft.contextBudget ?? ''} placeholder={String(DEFAULT_CONTEXT_BUDGET)} onChange={(e) => { const budget = parseInt(e.target.value, 10); setDraft({ ...draft, contextBudget: budget > 0 ? budget : undefined }); }} className={inputClassName} />
+                            <p className="text-xs text-gray-500 mt-1">The most relevant files are sent in full within this budget, the rest as outlines or paths. Raise it for models with a larger context window.</p>
+                        </div>
+                    )}
+                    {draft.providerId === 'mock' && (
+                        <p className="text-sm text-gray-400">The mock provider replays responses recorded from earlier runs with a real provider. It needs no network access or key.</p>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-gray-600 hover:bg-gray-500 text-white">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import type { AITask } from '../types';
+import React, { useState, useMemo } from 'react';
+import type { AITask, AssistantResponse, FileSystemTree, OperationApproval, TaskVerification, TaskContextReport, ContextFileEntry } from '../types';
 import { LoaderIcon } from './icons/LoaderIcon';
 import { CopyIcon } from './icons/CopyIcon';
 import { AIOperationPreview } from './AIOperationPreview';
@@ -11,6 +11,11 @@ import { QuestionMarkCircleIcon } from './icons/QuestionMarkCircleIcon';
 import { BrainCircuitIcon } from './icons/BrainCircuitIcon';
 import { UserIcon } from './icons/UserIcon';
 import { AppBlueprintDisplay } from './AppBlueprintDisplay';
+import { UndoIcon } from './icons/UndoIcon';
+import { RefreshIcon } from './icons/RefreshIcon';
+import { findConflictingPaths } from '../services/fileSystem';
+import { formatTokenCount } from '../services/tokenEstimate';
+import { findPartialContextUpdates } from '../services/taskContext';
 
 
 const CodeBlock: React.FC<{ code: string; language: string }> = ({ code, language }) => {
@@ -79,6 +84,8 @@ const StatusIcon: React.FC<{ status: AITask['status'] }> = ({ status }) => {
             return <CheckCircleIcon className="h-5 w-5 text-green-400" />;
         case 'error':
             return <XCircleIcon className="h-5 w-5 text-red-400" />;
+        case 'cancelled':
+            return <XCircleIcon className="h-5 w-5 text-gray-500" />;
         case 'pending_confirmation':
         case 'pending_blueprint_approval':
             return <QuestionMarkCircleIcon className="h-5 w-5 text-yellow-400" />;
@@ -87,14 +94,186 @@ const StatusIcon: React.FC<{ status: AITask['status'] }> = ({ status }) => {
     }
 };
 
+const EarlierResponses: React.FC<{ alternatives: AssistantResponse[] }> = ({ alternatives }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="border-t border-gray-700/80 pt-3">
+            <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white">
+                <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                {alternatives.length} earlier response{alternatives.length === 1 ? '' : 's'}
+            </button>
+            {isOpen && (
+                <ol className="mt-2 space-y-3">
+                    {alternatives.map((alternative, index) => ({ alternative, index })).reverse().map(({ alternative, index }) => (
+                        <li key={index} className="bg-gray-900/40 rounded-md p-3 text-sm opacity-80">
+                            <p className="text-xs text-gray-500 mb-1">Response {index + 1}</p>
+                            <AssistantMessageContent content={alternative.content} />
+                            {alternative.blueprint && (
+                                <p className="mt-2 text-xs text-gray-400">Proposed blueprint: {alternative.blueprint.appName}</p>
+                            )}
+                            {alternative.operations && alternative.operations.length > 0 && (
+                                <ul className="mt-2 space-y-0.5 text-xs font-mono text-gray-400">
+                                    {alternative.operations.map((op, i) => <li key={i}>{op.operation} {op.path}</li>)}
+                                </ul>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+const describeVerification = (verification: TaskVerification): string => {
+    const repairs = verification.attempts.filter(attempt => attempt.repair).length;
+    const afterRepairs = repairs > 0 ? ` after ${repairs} repair${repairs === 1 ? '' : 's'}` : '';
+    switch (verification.status) {
+        case 'running': {
+            const last = verification.attempts[verification.attempts.length - 1];
+            return last && last.problems.length > 0 && !last.repair ? 'Asking the AI to repair the errors...' : 'Rendering the changes in the background...';
+        }
+        case 'passed': return `The preview renders without errors${afterRepairs}.`;
+        case 'failed': return verification.error ? `Verification stopped: ${verification.error}` : `The preview still has errors${afterRepairs}.`;
+        case 'cancelled': return 'Verification was cancelled.';
+        case 'pending_confirmation': return 'Files the repair changes were edited while the AI wrote it, so it waits for your approval.';
+    }
+};
+
+interface VerificationReportProps {
+    verification: TaskVerification;
+    fileSystem: FileSystemTree;
+    onApproveRepair: (approvals: OperationApproval[]) => void;
+    onRejectRepair: () => void;
+}
+
+// Each check of the preview, with the errors it found and what the AI changed to repair them.
+const VerificationReport: React.FC<VerificationReportProps> = ({ verification, fileSystem, onApproveRepair, onRejectRepair }) => {
+    const isClean = verification.status === 'passed';
+    const { pendingRepair } = verification;
+    const conflictingPaths = useMemo(() => pendingRepair ? findConflictingPaths(fileSystem, pendingRepair.base.fileHashes, pendingRepair.operations) : [], [pendingRepair, fileSystem]);
+    return (
+        <div className="border-t border-gray-700/80 pt-3 text-sm">
+            <div className={`flex items-center gap-2 ${isClean ? 'text-green-400' : verification.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                {verification.status === 'running' && <LoaderIcon className="h-4 w-4 animate-spin text-blue-400" />}
+                {isClean && <CheckCircleIcon className="h-4 w-4" />}
+                {verification.status === 'failed' && <XCircleIcon className="h-4 w-4" />}
+                {verification.status === 'pending_confirmation' && <QuestionMarkCircleIcon className="h-4 w-4 text-yellow-400" />}
+                <span>{describeVerification(verification)}</span>
+            </div>
+            {verification.attempts.length > 0 && (
+                <ol className="mt-2 space-y-2">
+                    {verification.attempts.map((attempt, index) => (
+                        <li key={index} className="bg-gray-900/40 rounded-md p-3">
+                            <p className="text-xs text-gray-500 mb-1">Check {index + 1} &middot; {new Date(attempt.checkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</p>
+                            {attempt.problems.length === 0 ? (
+                                <p className="text-green-400">The app rendered without errors.</p>
+                            ) : (
+                                <ul className="space-y-1 text-xs font-mono text-red-300">
+                                    {attempt.problems.map((problem, i) => (
+                                        <li key={i} className="break-words">
+                                            {problem.kind === 'render' && <span className="font-semibold">Render failed: </span>}
+                                            {problem.message.split('\n')[0]}
+                                            {problem.location && <span className="text-gray-500"> ({problem.location.path}:{problem.location.line})</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {attempt.repair && (
+                                <div className="mt-2 pt-2 border-t border-gray-700/60">
+                                    <p className="text-xs text-gray-500 mb-1">Repair</p>
+                                    <AssistantMessageContent content={attempt.repair.content} />
+                                    {attempt.repair.operations && attempt.repair.operations.length > 0 && (
+                                        <ul className="mt-2 space-y-0.5 text-xs font-mono text-gray-400">
+                                            {attempt.repair.operations.map((op, i) => <li key={i}>{op.operation} {op.path}</li>)}
+                                        </ul>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {verification.status === 'pending_confirmation' && pendingRepair && (
+                <>
+                    {conflictingPaths.length > 0 && (
+                        <div className="mt-3 bg-yellow-900/30 border border-yellow-600/50 p-3 rounded-md text-sm">
+                            <p className="font-semibold text-yellow-300">Files changed since the AI read them</p>
+                            <p className="text-yellow-200/80 mt-1">Applying the repair will overwrite edits made to:</p>
+                            <ul className="mt-1 font-mono text-xs text-yellow-200/80">
+                                {conflictingPaths.map(path => <li key={path}>{path}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    <AIOperationPreview
+                        operations={pendingRepair.operations}
+                        status="pending"
+                        fileSystem={fileSystem}
+                        onApprove={onApproveRepair}
+                        onReject={onRejectRepair}
+                    />
+                </>
+            )}
+        </div>
+    );
+};
+
+const CONTEXT_DETAIL_LABELS: Record<ContextFileEntry['detail'], string> = { full: 'Full', outline: 'Outline', path: 'Path' };
+
+const describeContext = (context: TaskContextReport): string => {
+    const count = (detail: ContextFileEntry['detail']) => context.files.filter(file => file.detail === detail).length;
+    const parts = [`${count('full')} in full`];
+    if (count('outline') > 0) parts.push(`${count('outline')} outlined`);
+    if (count('path') > 0) parts.push(`${count('path')} by path only`);
+    return `~${formatTokenCount(context.inputTokens)} of ${formatTokenCount(context.budgetTokens)} tokens · files: ${parts.join(', ')} · ${context.historyTasks} earlier task${context.historyTasks === 1 ? '' : 's'}`;
+};
+
+// The files always get a minimum share, so a prompt and real-time context that fill the budget on their own push the request over it.
+const OVER_BUDGET_NOTE = 'The prompt and the current state alone use most of the budget. Earlier tasks were left out, and the files still got their minimum share.';
+
+// What the latest request sent the AI, most relevant files first.
+const ContextReport: React.FC<{ context: TaskContextReport }> = ({ context }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="border-t border-gray-700/80 pt-3">
+            <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white text-left">
+                <ChevronDownIcon className={`w-4 h-4 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                Context: {describeContext(context)}
+                {context.inputTokens > context.budgetTokens && <span className="text-yellow-400" title={OVER_BUDGET_NOTE}>&nbsp;· over budget</span>}
+            </button>
+            {isOpen && context.inputTokens > context.budgetTokens && <p className="mt-2 text-xs text-yellow-400">{OVER_BUDGET_NOTE}</p>}
+            {isOpen && (
+                <ul className="mt-2 space-y-1 text-xs">
+                    {context.files.map(file => (
+                        <li key={file.path} className="flex items-baseline gap-2">
+                            <span className={`w-14 shrink-0 ${file.detail === 'full' ? 'text-green-400' : file.detail === 'outline' ? 'text-yellow-400' : 'text-gray-500'}`}>{CONTEXT_DETAIL_LABELS[file.detail]}</span>
+                            <span className="font-mono text-gray-300 truncate" title={file.path}>{file.path}</span>
+                            <span className="text-gray-500 shrink-0">{formatTokenCount(file.tokens)}</span>
+                            {file.reasons.length > 0 && <span className="text-gray-500 truncate" title={file.reasons.join(', ')}>{file.reasons.join(', ')}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 interface AITaskItemProps {
     task: AITask;
-    onApprove: (taskId: string) => void;
+    onApprove: (taskId: string, approvals: OperationApproval[]) => void;
     onReject: (taskId: string) => void;
     onApproveBlueprint: (taskId: string) => void;
+    onRevert: (taskId: string) => void;
+    onCancel: (taskId: string) => void;
+    onRetry: (taskId: string) => void;
+    onRegenerate: (taskId: string) => void;
+    onApproveRepair: (taskId: string, approvals: OperationApproval[]) => void;
+    onRejectRepair: (taskId: string) => void;
+    fileSystem: FileSystemTree;
 }
 
-export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onReject, onApproveBlueprint }) => {
+export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onReject, onApproveBlueprint, onRevert, onCancel, onRetry, onRegenerate, onApproveRepair, onRejectRepair, fileSystem }) => {
     const [isOpen, setIsOpen] = useState(true);
     const time = task.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
@@ -104,6 +283,15 @@ export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onRejec
         return 'confirmed';
     }
 
+    const canRegenerate = task.status === 'completed' || task.status === 'pending_confirmation' || task.status === 'pending_blueprint_approval';
+    const canRevert = task.status === 'completed' && task.appliedOperations && task.appliedOperations.length > 0;
+    const conflictingPaths = useMemo(() => task.status === 'pending_confirmation' && task.base && task.assistantResponse?.operations
+        ? findConflictingPaths(fileSystem, task.base.fileHashes, task.assistantResponse.operations)
+        : [], [task.status, task.base, task.assistantResponse?.operations, fileSystem]);
+    const partialUpdates = useMemo(() => task.status === 'pending_confirmation' && task.context && task.assistantResponse?.operations
+        ? findPartialContextUpdates(task.assistantResponse.operations, task.context.files)
+        : [], [task.status, task.context, task.assistantResponse?.operations]);
+
     return (
         <div className="bg-gray-800/50 border border-gray-700 rounded-lg transition-all duration-300">
             <header 
@@ -117,6 +305,15 @@ export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onRejec
                     </p>
                     {task.type === 'autopilot' && <span className="text-xs text-indigo-400 font-semibold">AUTO-PILOT</span>}
                 </div>
+                {task.status === 'running' && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onCancel(task.id); }}
+                        className="px-2 py-0.5 text-xs font-semibold rounded-md text-gray-300 bg-gray-700 hover:bg-red-900/60 hover:text-red-300 transition-colors shrink-0"
+                        title="Stop generating"
+                    >
+                        Cancel
+                    </button>
+                )}
                 <StatusIcon status={task.status} />
                 <span className="text-xs text-gray-500 shrink-0">{time}</span>
                 <ChevronDownIcon className={`w-5 h-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
@@ -132,6 +329,12 @@ export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onRejec
                                 </div>
                                 <div className="flex-grow pt-1">
                                     <AssistantMessageContent content={task.assistantResponse.content} />
+
+                                    {task.responseRepairs && task.responseRepairs.length > 0 && (
+                                        <p className="mt-2 text-xs text-gray-500" title={task.responseRepairs.join('\n')}>
+                                            The response did not match the expected format and was repaired ({task.responseRepairs.length} attempt{task.responseRepairs.length === 1 ? '' : 's'}).
+                                        </p>
+                                    )}
                                     
                                     {task.assistantResponse.blueprint && task.status === 'pending_blueprint_approval' && (
                                         <div className="mt-4">
@@ -142,24 +345,95 @@ export const AITaskItem: React.FC<AITaskItemProps> = ({ task, onApprove, onRejec
                                         </div>
                                     )}
 
+                                    {conflictingPaths.length > 0 && (
+                                        <div className="mt-3 bg-yellow-900/30 border border-yellow-600/50 p-3 rounded-md text-sm">
+                                            <p className="font-semibold text-yellow-300">Files changed since the AI read them</p>
+                                            <p className="text-yellow-200/80 mt-1">Applying these changes will overwrite edits made to:</p>
+                                            <ul className="mt-1 font-mono text-xs text-yellow-200/80">
+                                                {conflictingPaths.map(path => <li key={path}>{path}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+
+                                    {partialUpdates.length > 0 && (
+                                        <div className="mt-3 bg-yellow-900/30 border border-yellow-600/50 p-3 rounded-md text-sm">
+                                            <p className="font-semibold text-yellow-300">Files the AI did not see in full</p>
+                                            <p className="text-yellow-200/80 mt-1">Applying these changes replaces the whole file with content written without the rest of it:</p>
+                                            <ul className="mt-1 font-mono text-xs text-yellow-200/80">
+                                                {partialUpdates.map(reason => <li key={reason}>{reason}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+
+                                    {task.status === 'pending_confirmation' && task.policyViolations && (
+                                        <div className="mt-3 bg-yellow-900/30 border border-yellow-600/50 p-3 rounded-md text-sm">
+                                            <p className="font-semibold text-yellow-300">Held back by Auto-Pilot</p>
+                                            <p className="text-yellow-200/80 mt-1">These changes were not applied automatically:</p>
+                                            <ul className="mt-1 font-mono text-xs text-yellow-200/80">
+                                                {task.policyViolations.map(violation => <li key={violation}>{violation}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+
                                     {task.assistantResponse.operations && task.assistantResponse.operations.length > 0 && (
                                         <AIOperationPreview
                                             operations={task.assistantResponse.operations}
                                             status={getPreviewStatus()}
-                                            onApprove={() => onApprove(task.id)}
+                                            fileSystem={task.status === 'pending_confirmation' ? fileSystem : undefined}
+                                            appliedOperations={task.appliedOperations}
+                                            onApprove={(approvals) => onApprove(task.id, approvals)}
                                             onReject={() => onReject(task.id)}
                                         />
                                     )}
+
+                                    {canRegenerate && (
+                                        <div className="flex items-center justify-end gap-2 mt-2 text-xs">
+                                            <button onClick={() => onRegenerate(task.id)} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white" title="Run the same prompt again and keep this response as an alternative">
+                                                <RefreshIcon className="w-4 h-4" />
+                                                Regenerate
+                                            </button>
+                                            {canRevert && (task.revertedAt ? (
+                                                <span className="text-yellow-400">Reverted {new Date(task.revertedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                            ) : (
+                                                <button onClick={() => onRevert(task.id)} className="flex items-center gap-1.5 px-2 py-1 rounded-md text-gray-400 hover:bg-gray-700 hover:text-white" title="Undo the file changes made by this task">
+                                                    <UndoIcon className="w-4 h-4" />
+                                                    Revert this task
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         )}
 
+                        {task.verification && <VerificationReport verification={task.verification} fileSystem={fileSystem} onApproveRepair={(approvals) => onApproveRepair(task.id, approvals)} onRejectRepair={() => onRejectRepair(task.id)} />}
+
                         {task.status === 'error' && (
                             <div className="bg-red-900/40 border border-red-500/50 p-3 rounded-md">
-                                <p className="font-semibold text-red-400">An error occurred</p>
+                                <div className="flex items-start justify-between gap-3">
+                                    <p className="font-semibold text-red-400">An error occurred</p>
+                                    <button onClick={() => onRetry(task.id)} className="flex items-center gap-1.5 px-2 py-1 text-xs font-semibold rounded-md bg-red-800/60 hover:bg-red-700/60 text-red-100 shrink-0">
+                                        <RefreshIcon className="w-4 h-4" />
+                                        Retry
+                                    </button>
+                                </div>
                                 <p className="text-sm text-red-300 mt-1 font-mono">{task.error}</p>
                             </div>
                         )}
+
+                        {task.status === 'cancelled' && (
+                            <div className="flex items-center justify-between gap-3 bg-gray-700/40 border border-gray-600 p-3 rounded-md">
+                                <p className="text-sm text-gray-400">This task was cancelled.</p>
+                                <button onClick={() => onRetry(task.id)} className="flex items-center gap-1.5 px-2 py-1 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 text-white shrink-0">
+                                    <RefreshIcon className="w-4 h-4" />
+                                    Retry
+                                </button>
+                            </div>
+                        )}
+
+                        {task.alternatives && task.alternatives.length > 0 && <EarlierResponses alternatives={task.alternatives} />}
+
+                        {task.context && <ContextReport context={task.context} />}
                         
                         {task.status === 'running' && !task.assistantResponse && (
                             <div className="text-center text-gray-400 py-4">
@@ -1,17 +1,27 @@
 import React from 'react';
-import type { LogMessage } from '../types';
+import type { LogMessage, SourceLocation } from '../types';
 import { RefactorIcon } from './icons/RefactorIcon';
 
 interface AutoFixPromptProps {
     error: LogMessage;
     onFix: (error: LogMessage) => void;
+    onOpenLocation: (location: SourceLocation) => void;
 }
 
-export const AutoFixPrompt: React.FC<AutoFixPromptProps> = ({ error, onFix }) => {
+export const AutoFixPrompt: React.FC<AutoFixPromptProps> = ({ error, onFix, onOpenLocation }) => {
     return (
         <div className="bg-gray-800 border border-red-500 rounded-lg p-4 m-2 flex items-center justify-between gap-4 animate-slide-in-left shadow-lg">
             <div className="min-w-0">
                 <p className="font-semibold text-red-400">Application Error Detected</p>
+                {error.location && (
+                    <button
+                        onClick={() => onOpenLocation(error.location!)}
+                        className="text-sm font-mono text-blue-400 hover:underline mt-1 truncate max-w-full"
+                        title="Open in editor"
+                    >
+                        {error.location.path}:{error.location.line}:{error.location.column}
+                    </button>
+                )}
                 <p className="text-gray-400 text-sm mt-1">The AI can attempt to automatically fix this issue.</p>
             </div>
             <button
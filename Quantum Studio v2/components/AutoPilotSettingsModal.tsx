@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import type { AutoPilotPolicy } from '../types';
+import { MIN_AUTOPILOT_INTERVAL_SECONDS } from '../services/autoPilot';
+
+interface AutoPilotSettingsModalProps {
+    isOpen: boolean;
+    policy: AutoPilotPolicy;
+    onClose: () => void;
+    onSave: (policy: AutoPilotPolicy) => void;
+}
+
+// Limits are edited as text, so a field can be left empty for "no limit".
+interface PolicyDraft extends Omit<AutoPilotPolicy, 'intervalSeconds' | 'maxSteps' | 'maxTokens'> {
+    intervalSeconds: string;
+    maxSteps: string;
+    maxTokens: string;
+}
+
+const inputClassName = "w-full p-2 bg-gray-800 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-sm";
+
+const toDraft = (policy: AutoPilotPolicy): PolicyDraft => ({
+    ...policy,
+    intervalSeconds: String(policy.intervalSeconds),
+    maxSteps: policy.maxSteps === undefined ? '' : String(policy.maxSteps),
+    maxTokens: policy.maxTokens === undefined ? '' : String(policy.maxTokens),
+});
+
+const parseLimit = (value: string): number | undefined => {
+    const limit = parseInt(value, 10);
+    return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+};
+
+export const AutoPilotSettingsModal: React.FC<AutoPilotSettingsModalProps> = ({ isOpen, policy, onClose, onSave }) => {
+    const [draft, setDraft] = useState<PolicyDraft>(() => toDraft(policy));
+
+    useEffect(() => {
+        if (isOpen) setDraft(toDraft(policy));
+    }, [isOpen, policy]);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        if (isOpen) window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const handleSave = () => {
+        onSave({
+            ...draft,
+            intervalSeconds: Math.max(MIN_AUTOPILOT_INTERVAL_SECONDS, parseLimit(draft.intervalSeconds) ?? MIN_AUTOPILOT_INTERVAL_SECONDS),
+            maxSteps: parseLimit(draft.maxSteps),
+            maxTokens: parseLimit(draft.maxTokens),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="relative flex flex-col bg-[#1E1E1E] border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto text-white p-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-bold mb-1">Auto-Pilot</h2>
+                <p className="text-sm text-gray-400 mb-4">These settings apply to the current workspace only. Limits count from when Auto-Pilot is turned on.</p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="autopilot-goal" className="block text-sm text-gray-400 mb-2">Goal</label>
+                        <textarea id="autopilot-goal" rows={4} value={draft.goal} placeholder={'What Auto-Pilot should work towards, e.g. a backlog:\n- Add a dark mode toggle\n- Make the cards keyboard accessible'} onChange={(e) => setDraft({ ...draft, goal: e.target.value })} className={`${inputClassName} resize-y`} />
+                        <p className="text-xs text-gray-500 mt-1">When empty, the AI picks its own improvements.</p>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor="autopilot-interval" className="block text-sm text-gray-400 mb-2">Seconds between steps</label>
+                            <input id="autopilot-interval" type="number" min={MIN_AUTOPILOT_INTERVAL_SECONDS} value={draft.intervalSeconds} onChange={(e) => setDraft({ ...draft, intervalSeconds: e.target.value })} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="autopilot-max-steps" className="block text-sm text-gray-400 mb-2">Step limit</label>
+                            <input id="autopilot-max-steps" type="number" min={1} value={draft.maxSteps} placeholder="None" onChange={(e) => setDraft({ ...draft, maxSteps: e.target.value })} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="autopilot-max-tokens" className="block text-sm text-gray-400 mb-2">Token limit</label>
+                            <input id="autopilot-max-tokens" type="number" min={1} step={1000} value={draft.maxTokens} placeholder="None" onChange={(e) => setDraft({ ...draft, maxTokens: e.target.value })} className={inputClassName} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500 -mt-2">Tokens are estimated from the text sent and received, including repairs of the preview.</p>
+                    <div>
+                        <label htmlFor="autopilot-allowed-paths" className="block text-sm text-gray-400 mb-2">Paths it may change</label>
+                        <input id="autopilot-allowed-paths" type="text" value={draft.allowedPaths} placeholder="All, or e.g. src/components, *.css" onChange={(e) => setDraft({ ...draft, allowedPaths: e.target.value })} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="autopilot-denied-paths" className="block text-sm text-gray-400 mb-2">Paths it must not change</label>
+                        <input id="autopilot-denied-paths" type="text" value={draft.deniedPaths} placeholder="e.g. package.json, src/api/**" onChange={(e) => setDraft({ ...draft, deniedPaths: e.target.value })} className={inputClassName} />
+                        <p className="text-xs text-gray-500 mt-1">Comma-separated globs. Changes outside these rules wait for your approval.</p>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.allowDeletions} onChange={(e) => setDraft({ ...draft, allowDeletions: e.target.checked })} />
+                        Allow deleting files and folders
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.stopOnPreviewErrors} onChange={(e) => setDraft({ ...draft, stopOnPreviewErrors: e.target.checked })} />
+                        Stop when the preview has errors
+                    </label>
+                </div>
+
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-gray-600 hover:bg-gray-500 text-white">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
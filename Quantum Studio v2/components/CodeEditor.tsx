@@ -1,29 +1,215 @@
-import React from 'react';
-import { XCircleIcon } from './icons/XCircleIcon';
+import React, { useEffect, useRef, useState } from 'react';
+import type * as Monaco from 'monaco-editor';
+import type { EditorLayout, FileSystemTree } from '../types';
+import { findNodeByPath } from '../services/fileSystem';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+type MonacoSetup = typeof import('../services/monacoSetup');
+
+/** Asks the editor to select a range once `path` is showing. A new object re-reveals the same range. */
+export interface EditorRevealRequest {
+    path: string;
+    lineNumber: number;
+    column: number;
+    length: number;
+}
 
 interface CodeEditorProps {
+    workspaceId: string;
+    openPaths: string[];
     path: string;
-    content: string;
-    onContentChange: (newContent: string) => void;
-    onClose: () => void;
+    fileSystem: FileSystemTree;
+    /** Edited content that has not been saved to the workspace yet, by path. */
+    unsavedBuffers: { [path: string]: string };
+    onSelectTab: (path: string) => void;
+    onCloseTab: (path: string) => void;
+    onBufferChange: (path: string, content: string) => void;
+    onSave: (path: string) => void;
+    /** Only the primary pane shows the layout controls. */
+    layout?: EditorLayout;
+    onLayoutChange?: (layout: EditorLayout) => void;
+    reveal?: EditorRevealRequest | null;
 }
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ path, content, onContentChange, onClose }) => {
+const LAYOUT_OPTIONS: { layout: EditorLayout; label: string; title: string }[] = [
+    { layout: 'single', label: 'Editor', title: 'Show only the editor' },
+    { layout: 'editor_preview', label: 'Editor + Preview', title: 'Show the editor next to the live preview' },
+    { layout: 'two_editors', label: 'Two Editors', title: 'Show two editors side by side' },
+];
+
+// Monaco is large, so it is only loaded the first time a file is opened.
+let monacoSetupPromise: Promise<MonacoSetup> | null = null;
+const loadMonaco = () => monacoSetupPromise ??= import('../services/monacoSetup');
+
+const getFileName = (path: string) => path.split('/').pop() || path;
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ workspaceId, openPaths, path, fileSystem, unsavedBuffers, onSelectTab, onCloseTab, onBufferChange, onSave, layout, onLayoutChange, reveal }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null);
+    const [setup, setSetup] = useState<MonacoSetup | null>(null);
+    const [problems, setProblems] = useState({ errors: 0, warnings: 0 });
+    // Read by Monaco listeners, which are registered once.
+    const latestRef = useRef({ path, fileSystem, unsavedBuffers, onBufferChange, onSave });
+    latestRef.current = { path, fileSystem, unsavedBuffers, onBufferChange, onSave };
+
+    useEffect(() => {
+        let cancelled = false;
+        loadMonaco().then(loaded => {
+            if (cancelled || !containerRef.current) return;
+            const editor = loaded.monaco.editor.create(containerRef.current, {
+                theme: 'vs-dark',
+                automaticLayout: true,
+                fontSize: 14,
+                tabSize: 2,
+                minimap: { enabled: true },
+                scrollBeyondLastLine: false,
+                bracketPairColorization: { enabled: true },
+                matchBrackets: 'always',
+                multiCursorModifier: 'alt',
+                model: null,
+            });
+            editor.onDidChangeModelContent(() => {
+                const { path, fileSystem, unsavedBuffers, onBufferChange } = latestRef.current;
+                const node = findNodeByPath(path, fileSystem);
+                const expected = unsavedBuffers[path] ?? (node?.type === 'file' ? node.content : undefined);
+                const value = editor.getValue();
+                // Changes synced in from the workspace (or from the other pane) already match what is stored.
+                if (value !== expected) onBufferChange(path, value);
+            });
+            // Actions are scoped to their editor, so each pane saves its own file.
+            editor.addAction({
+                id: 'quantum.saveFile',
+                label: 'Save File',
+                keybindings: [loaded.monaco.KeyMod.CtrlCmd | loaded.monaco.KeyCode.KeyS],
+                run: () => latestRef.current.onSave(latestRef.current.path),
+            });
+            editorRef.current = editor;
+            setSetup(loaded);
+        }).catch(error => console.error("Failed to load the code editor", error));
+        return () => {
+            cancelled = true;
+            editorRef.current?.dispose();
+            editorRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        setup?.syncWorkspaceModels(workspaceId, fileSystem, unsavedBuffers);
+    }, [setup, workspaceId, fileSystem, unsavedBuffers]);
+
+    useEffect(() => {
+        if (!setup || !editorRef.current) return;
+        const model = setup.getWorkspaceModel(path);
+        editorRef.current.setModel(model);
+        if (!model) return;
+
+        const updateProblems = () => {
+            const markers = setup.monaco.editor.getModelMarkers({ resource: model.uri });
+            setProblems({
+                errors: markers.filter(m => m.severity === setup.monaco.MarkerSeverity.Error).length,
+                warnings: markers.filter(m => m.severity === setup.monaco.MarkerSeverity.Warning).length,
+            });
+        };
+        updateProblems();
+        const subscription = setup.monaco.editor.onDidChangeMarkers(uris => {
+            if (uris.some(uri => uri.toString() === model.uri.toString())) updateProblems();
+        });
+        return () => subscription.dispose();
+    }, [setup, path]);
+
+    // Each request is revealed once, not again every time its file's tab is selected.
+    const revealedRef = useRef<EditorRevealRequest | null>(null);
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!setup || !editor || !reveal || reveal.path !== path || revealedRef.current === reveal) return;
+        revealedRef.current = reveal;
+        const range = new setup.monaco.Range(reveal.lineNumber, reveal.column, reveal.lineNumber, reveal.column + reveal.length);
+        editor.setSelection(range);
+        editor.revealRangeInCenter(range);
+        editor.focus();
+    }, [setup, path, reveal]);
+
+    const isDirty = path in unsavedBuffers;
+
     return (
-        <div className="bg-[#1E1E1E] flex flex-col h-full">
-            <header className="flex items-center justify-between p-2.5 border-b border-gray-700 bg-[#252526] shrink-0">
-                <h3 className="font-mono text-sm text-gray-300 bg-gray-700 px-3 py-1 rounded-md">{path}</h3>
-                <button onClick={onClose} aria-label="Close editor">
-                    <XCircleIcon className="h-6 w-6 text-gray-500 hover:text-white transition-colors" />
-                </button>
+        <div className="bg-[#1E1E1E] flex flex-col h-full min-w-0">
+            <div className="flex items-stretch bg-[#252526] border-b border-gray-700 shrink-0 overflow-x-auto" role="tablist">
+                {openPaths.map(tabPath => {
+                    const isActive = tabPath === path;
+                    const isTabDirty = tabPath in unsavedBuffers;
+                    return (
+                        <div
+                            key={tabPath}
+                            role="tab"
+                            aria-selected={isActive}
+                            title={tabPath}
+                            onClick={() => onSelectTab(tabPath)}
+                            onMouseDown={(e) => { if (e.button === 1) { e.preventDefault(); onCloseTab(tabPath); } }}
+                            className={`group flex items-center gap-2 pl-3 pr-2 py-2 text-sm font-mono cursor-pointer border-r border-gray-700 shrink-0 ${isActive ? 'bg-[#1E1E1E] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                            <span className={isTabDirty ? 'italic' : ''}>{getFileName(tabPath)}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onCloseTab(tabPath); }}
+                                aria-label={`Close ${tabPath}`}
+                                className="w-4 h-4 flex items-center justify-center rounded text-gray-500 hover:text-white hover:bg-gray-600"
+                            >
+                                {isTabDirty ? (
+                                    <>
+                                        <span className="group-hover:hidden" title="Unsaved changes">&#9679;</span>
+                                        <span className="hidden group-hover:inline">&times;</span>
+                                    </>
+                                ) : (
+                                    <span className={isActive ? '' : 'invisible group-hover:visible'}>&times;</span>
+                                )}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+            <header className="flex items-center justify-between gap-3 px-3 py-1.5 border-b border-gray-700 bg-[#1E1E1E] shrink-0">
+                <div className="flex items-center gap-3 min-w-0">
+                    <span className="font-mono text-xs text-gray-400 truncate">{path}</span>
+                    {setup && (problems.errors > 0 || problems.warnings > 0) && (
+                        <span className="text-xs font-mono shrink-0" title="TypeScript diagnostics for this file">
+                            {problems.errors > 0 && <span className="text-red-400">{problems.errors} error{problems.errors === 1 ? '' : 's'}</span>}
+                            {problems.errors > 0 && problems.warnings > 0 && <span className="text-gray-500"> &middot; </span>}
+                            {problems.warnings > 0 && <span className="text-yellow-400">{problems.warnings} warning{problems.warnings === 1 ? '' : 's'}</span>}
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <button
+                        onClick={() => onSave(path)}
+                        disabled={!isDirty}
+                        title="Save (Ctrl+S / Cmd+S)"
+                        className="px-2.5 py-1 text-xs font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {isDirty ? 'Save' : 'Saved'}
+                    </button>
+                    {layout && onLayoutChange && (
+                        <div className="flex items-center bg-gray-800 rounded-md p-0.5">
+                            {LAYOUT_OPTIONS.map(option => (
+                                <button
+                                    key={option.layout}
+                                    onClick={() => onLayoutChange(option.layout)}
+                                    title={option.title}
+                                    className={`px-2 py-0.5 text-xs rounded ${layout === option.layout ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
             </header>
-            <main className="flex-grow overflow-hidden">
-                <textarea
-                    value={content}
-                    onChange={(e) => onContentChange(e.target.value)}
-                    spellCheck="false"
-                    className="w-full h-full bg-[#1E1E1E] text-gray-200 p-4 font-mono text-sm leading-relaxed resize-none border-none focus:outline-none focus:ring-0"
-                />
+            <main className="flex-grow overflow-hidden relative">
+                {!setup && (
+                    <div className="absolute inset-0 flex items-center justify-center gap-2 text-gray-400">
+                        <LoaderIcon className="h-5 w-5 animate-spin" />
+                        Loading editor...
+                    </div>
+                )}
+                <div ref={containerRef} className="w-full h-full" />
             </main>
         </div>
     );
@@ -0,0 +1,161 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { FileSystemTree } from '../types';
+import { getKeybinding, formatKeybinding, type Command, type CommandRegistry, type KeybindingOverrides } from '../services/commands';
+import { fuzzyMatch, fuzzyMatchPath } from '../services/fuzzyMatch';
+import { flattenFiles } from '../services/fileSystem';
+import { FileIcon } from './icons/FileIcon';
+
+export const CommandRegistryContext = createContext<CommandRegistry | null>(null);
+
+/** Registers `commands` while the calling component is mounted. Memoize the array to avoid re-registering every render. */
+export const useRegisterCommands = (commands: Command[]) => {
+    const registry = useContext(CommandRegistryContext);
+    useEffect(() => registry?.register(commands), [registry, commands]);
+};
+
+/** Typing this prefix switches the palette from files to commands, as in most editors. */
+const COMMAND_PREFIX = '>';
+const MAX_ITEMS = 50;
+
+export type CommandPaletteMode = 'commands' | 'files';
+
+interface CommandPaletteProps {
+    mode: CommandPaletteMode;
+    registry: CommandRegistry;
+    keybindingOverrides: KeybindingOverrides;
+    fileSystem: FileSystemTree;
+    onOpenFile: (path: string) => void;
+    onClose: () => void;
+}
+
+interface PaletteItem {
+    key: string;
+    label: string;
+    detail?: string;
+    positions: number[];
+    keybinding?: string;
+    isFile: boolean;
+    run: () => void;
+}
+
+const HighlightedText: React.FC<{ text: string; positions: number[]; offset?: number }> = ({ text, positions, offset = 0 }) => (
+    <>
+        {text.split('').map((ch, i) => positions.includes(i + offset)
+            ? <span key={i} className="text-blue-300 font-semibold">{ch}</span>
+            : ch)}
+    </>
+);
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ mode, registry, keybindingOverrides, fileSystem, onOpenFile, onClose }) => {
+    const [query, setQuery] = useState(mode === 'commands' ? COMMAND_PREFIX : '');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+    // Read once per opening, so commands registered while the palette is open do not reshuffle it.
+    const [commands] = useState(() => registry.getAll());
+
+    const isCommandMode = query.startsWith(COMMAND_PREFIX);
+    const search = isCommandMode ? query.slice(COMMAND_PREFIX.length).trim() : query.trim();
+
+    const items = useMemo((): PaletteItem[] => {
+        if (isCommandMode) {
+            return commands
+                .map(command => {
+                    const label = command.category ? `${command.category}: ${command.title}` : command.title;
+                    return { command, label, match: fuzzyMatch(search, label) };
+                })
+                .filter(({ match }) => match)
+                .sort((a, b) => search ? b.match.score - a.match.score : a.label.localeCompare(b.label))
+                .slice(0, MAX_ITEMS)
+                .map(({ command, label, match }) => ({
+                    key: command.id,
+                    label,
+                    positions: match.positions,
+                    keybinding: getKeybinding(command, keybindingOverrides),
+                    isFile: false,
+                    run: command.run,
+                }));
+        }
+        return Object.keys(flattenFiles(fileSystem))
+            .map(path => ({ path, match: fuzzyMatchPath(search, path) }))
+            .filter(({ match }) => match)
+            .sort((a, b) => search ? b.match.score - a.match.score : a.path.localeCompare(b.path))
+            .slice(0, MAX_ITEMS)
+            .map(({ path, match }) => ({
+                key: path,
+                label: path,
+                positions: match.positions,
+                isFile: true,
+                run: () => onOpenFile(path),
+            }));
+    }, [isCommandMode, search, commands, fileSystem, keybindingOverrides, onOpenFile]);
+
+    useEffect(() => setSelectedIndex(0), [search, isCommandMode]);
+
+    useEffect(() => {
+        listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const runItem = (item: PaletteItem | undefined) => {
+        if (!item) return;
+        // Closed first, so commands that open their own modal get the focus.
+        onClose();
+        item.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') { e.preventDefault(); setSelectedIndex(i => Math.min(i + 1, items.length - 1)); }
+        else if (e.key === 'ArrowUp') { e.preventDefault(); setSelectedIndex(i => Math.max(i - 1, 0)); }
+        else if (e.key === 'Enter') { e.preventDefault(); runItem(items[selectedIndex]); }
+        else if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-center items-start pt-[12vh] bg-black/40" onClick={onClose}>
+            <div
+                className="w-full max-w-xl bg-[#252526] border border-gray-600 rounded-lg shadow-2xl overflow-hidden text-white"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label={isCommandMode ? 'Command palette' : 'Go to file'}
+            >
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    autoFocus
+                    placeholder={isCommandMode ? 'Type a command' : `Search files by name (type ${COMMAND_PREFIX} for commands)`}
+                    className="w-full p-3 bg-[#1E1E1E] border-b border-gray-700 focus:outline-none text-sm"
+                />
+                <ul ref={listRef} className="max-h-[50vh] overflow-y-auto py-1" role="listbox">
+                    {items.map((item, index) => {
+                        const nameStart = item.isFile ? item.label.lastIndexOf('/') + 1 : 0;
+                        return (
+                            <li
+                                key={item.key}
+                                role="option"
+                                aria-selected={index === selectedIndex}
+                                onMouseMove={() => setSelectedIndex(index)}
+                                onClick={() => runItem(item)}
+                                className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${index === selectedIndex ? 'bg-blue-600/40' : ''}`}
+                            >
+                                {item.isFile ? (
+                                    <>
+                                        <FileIcon className="h-4 w-4 shrink-0 text-gray-400" />
+                                        <span className="text-gray-100 shrink-0"><HighlightedText text={item.label.substring(nameStart)} positions={item.positions} offset={nameStart} /></span>
+                                        <span className="text-xs text-gray-500 truncate"><HighlightedText text={item.label.substring(0, Math.max(nameStart - 1, 0))} positions={item.positions} /></span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span className="text-gray-100 truncate flex-grow"><HighlightedText text={item.label} positions={item.positions} /></span>
+                                        {item.keybinding && <kbd className="text-xs font-mono text-gray-300 bg-gray-700 border border-gray-600 rounded px-1.5 py-0.5 shrink-0">{formatKeybinding(item.keybinding)}</kbd>}
+                                    </>
+                                )}
+                            </li>
+                        );
+                    })}
+                    {items.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">{isCommandMode ? 'No matching commands.' : 'No matching files.'}</li>}
+                </ul>
+            </div>
+        </div>
+    );
+};
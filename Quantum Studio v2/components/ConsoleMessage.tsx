@@ -1,8 +1,14 @@
-import React from 'react';
-import type { LogMessage } from '../types';
+import React, { useState } from 'react';
+import type { ConsoleTable, ConsoleValue, LogMessage, SourceLocation } from '../types';
+import { parseStackTrace } from '../services/previewConsole';
 
 interface ConsoleMessageProps {
   log: LogMessage;
+  /** How many identical messages in a row this one stands for. */
+  count?: number;
+  isGroupCollapsed?: boolean;
+  onToggleGroup?: () => void;
+  onOpenLocation: (location: SourceLocation) => void;
 }
 
 const levelClasses = {
@@ -13,15 +19,154 @@ const levelClasses = {
   debug: 'text-gray-500',
 };
 
-export const ConsoleMessage: React.FC<ConsoleMessageProps> = ({ log }) => {
+const kindClasses: { [kind in ConsoleValue['kind']]?: string } = {
+  string: 'text-orange-300',
+  number: 'text-blue-300',
+  bigint: 'text-blue-300',
+  boolean: 'text-purple-300',
+  null: 'text-gray-500',
+  undefined: 'text-gray-500',
+  symbol: 'text-teal-300',
+  regexp: 'text-orange-300',
+  date: 'text-teal-300',
+  function: 'text-yellow-200 italic',
+  node: 'text-purple-300',
+  circular: 'text-gray-500',
+};
+
+// Top-level strings are printed as they are, like console.log() does; nested ones are quoted.
+const ConsoleValueView: React.FC<{ value: ConsoleValue; isNested?: boolean; onOpenLocation: (location: SourceLocation) => void }> = ({ value, isNested, onOpenLocation }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const preview = value.kind === 'string' && isNested ? JSON.stringify(value.preview) : value.preview;
+
+  if (value.kind === 'error') {
+    return isNested ? <span className="text-red-300">{preview}</span> : <StackTrace title={preview} stack={value.stack || ''} onOpenLocation={onOpenLocation} />;
+  }
+  if (!value.entries?.length) {
+    return <span className={kindClasses[value.kind] || ''}>{preview}</span>;
+  }
+  return (
+    <span className="inline-block align-top">
+      <button onClick={() => setIsExpanded(expanded => !expanded)} className="text-left hover:bg-white/5 rounded">
+        <span className="inline-block w-3 text-gray-500">{isExpanded ? '▾' : '▸'}</span>
+        {preview}
+      </button>
+      {isExpanded && (
+        <div className="pl-4 border-l border-gray-700 ml-1">
+          {value.entries.map(entry => (
+            <div key={entry.key}>
+              <span className="text-purple-300">{entry.key}</span>
+              <span className="text-gray-500">: </span>
+              <ConsoleValueView value={entry.value} isNested onOpenLocation={onOpenLocation} />
+            </div>
+          ))}
+          {value.isTruncated && <div className="text-gray-500">…</div>}
+        </div>
+      )}
+    </span>
+  );
+};
+
+export const LocationLink: React.FC<{ location: SourceLocation; label?: string; onOpen: (location: SourceLocation) => void }> = ({ location, label, onOpen }) => (
+  <button onClick={() => onOpen(location)} title={`Open ${location.path}:${location.line}:${location.column}`} className="text-blue-400 hover:underline">
+    {label || `${location.path}:${location.line}:${location.column}`}
+  </button>
+);
+
+// Frames outside the workspace (React, the preview runtime) are hidden until asked for.
+export const StackTrace: React.FC<{ title?: string; stack: string; onOpenLocation: (location: SourceLocation) => void }> = ({ title, stack, onOpenLocation }) => {
+  const [showAllFrames, setShowAllFrames] = useState(false);
+  const frames = parseStackTrace(stack);
+  const visibleFrames = showAllFrames ? frames : frames.filter(frame => frame.path);
+  const hiddenCount = frames.length - visibleFrames.length;
+
+  return (
+    <div>
+      {title && <pre>{title}</pre>}
+      {visibleFrames.map((frame, index) => (
+        <div key={index} className={`pl-4 ${frame.path ? 'text-gray-300' : 'text-gray-500'}`}>
+          {frame.path
+            ? <>at {frame.functionName && `${frame.functionName} `}<LocationLink location={{ path: frame.path, line: frame.line, column: frame.column }} onOpen={onOpenLocation} /></>
+            : frame.text}
+        </div>
+      ))}
+      {hiddenCount > 0 && (
+        <button onClick={() => setShowAllFrames(true)} className="pl-4 text-gray-500 hover:text-gray-300">
+          {hiddenCount} more {hiddenCount === 1 ? 'frame' : 'frames'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ConsoleTableView: React.FC<{ table: ConsoleTable; onOpenLocation: (location: SourceLocation) => void }> = ({ table, onOpenLocation }) => (
+  <div className="overflow-x-auto my-1">
+    <table className="text-left border border-gray-700">
+      <thead>
+        <tr className="bg-gray-800">
+          <th className="px-2 py-0.5 border border-gray-700 font-normal text-gray-400">(index)</th>
+          {table.columns.map(column => <th key={column} className="px-2 py-0.5 border border-gray-700 font-normal text-gray-400">{column}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map(row => (
+          <tr key={row.index}>
+            <td className="px-2 py-0.5 border border-gray-700">{row.index}</td>
+            {table.columns.map(column => (
+              <td key={column} className="px-2 py-0.5 border border-gray-700">
+                {row.cells[column] && <ConsoleValueView value={row.cells[column]} isNested onOpenLocation={onOpenLocation} />}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const ConsoleMessage: React.FC<ConsoleMessageProps> = ({ log, count = 1, isGroupCollapsed, onToggleGroup, onOpenLocation }) => {
   const time = log.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
   const baseClass = 'console-msg';
   const levelClass = levelClasses[log.level] || '';
+  const indent = (log.groupIds?.length || 0) * 12;
+
+  const content = log.args ? (
+    <div className="whitespace-pre-wrap break-words">
+      {log.args.map((arg, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ' '}
+          <ConsoleValueView value={arg} onOpenLocation={onOpenLocation} />
+        </React.Fragment>
+      ))}
+    </div>
+  ) : (
+    <pre>{log.message}</pre>
+  );
 
   return (
     <div className={`${baseClass} ${levelClass}`}>
       <span className="text-gray-500 shrink-0">{time}</span>
-      <pre className="flex-grow">{log.message}</pre>
+      <div className="flex-grow min-w-0" style={{ paddingLeft: indent }}>
+        <div className="flex gap-1.5">
+          {log.replRole && <span className="text-gray-500 shrink-0">{log.replRole === 'input' ? '›' : '‹'}</span>}
+          {log.group && (
+            <button onClick={onToggleGroup} className="text-gray-500 hover:text-white shrink-0 w-3" aria-label={isGroupCollapsed ? 'Expand group' : 'Collapse group'}>
+              {isGroupCollapsed ? '▸' : '▾'}
+            </button>
+          )}
+          <div className={`flex-grow min-w-0 ${log.group ? 'font-semibold' : ''}`}>{content}</div>
+          {log.location && (
+            <span className="shrink-0 self-start">
+              <LocationLink location={log.location} label={`${log.location.path.split('/').pop()}:${log.location.line}`} onOpen={onOpenLocation} />
+            </span>
+          )}
+          {count > 1 && (
+            <span className="shrink-0 self-start bg-gray-600 text-white text-xs rounded-full px-1.5">{count}</span>
+          )}
+        </div>
+        {log.table && <ConsoleTableView table={log.table} onOpenLocation={onOpenLocation} />}
+        {log.stack && <StackTrace stack={log.stack} onOpenLocation={onOpenLocation} />}
+      </div>
     </div>
   );
 };
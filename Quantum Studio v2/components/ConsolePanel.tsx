@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { LogMessage, SourceLocation } from '../types';
+import { ConsoleMessage } from './ConsoleMessage';
+import { AutoFixPrompt } from './AutoFixPrompt';
+
+interface ConsolePanelProps {
+    logs: LogMessage[];
+    fixableError: LogMessage | null;
+    onAutoFix: (log: LogMessage) => void;
+    onOpenLocation: (location: SourceLocation) => void;
+    onEvaluate: (expression: string) => void;
+    onClear: () => void;
+}
+
+const LEVEL_FILTERS: { label: string; levels: LogMessage['level'][] }[] = [
+    { label: 'Errors', levels: ['error'] },
+    { label: 'Warnings', levels: ['warn'] },
+    { label: 'Info', levels: ['info', 'log'] },
+    { label: 'Verbose', levels: ['debug'] },
+];
+
+const MAX_HISTORY = 50;
+
+// Consecutive identical messages are shown once, with a count.
+const isRepeat = (previous: LogMessage, log: LogMessage) =>
+    previous.level === log.level && previous.message === log.message && !previous.replRole && !log.replRole &&
+    !previous.group && !log.group && !previous.table && !log.table &&
+    (previous.groupIds || []).join() === (log.groupIds || []).join();
+
+export const ConsolePanel: React.FC<ConsolePanelProps> = ({ logs, fixableError, onAutoFix, onOpenLocation, onEvaluate, onClear }) => {
+    const [hiddenLevels, setHiddenLevels] = useState<LogMessage['level'][]>([]);
+    const [search, setSearch] = useState('');
+    // Groups the user folded or unfolded; the rest keep the state they were logged with.
+    const [groupToggles, setGroupToggles] = useState<{ [id: number]: boolean }>({});
+    const [expression, setExpression] = useState('');
+    const [history, setHistory] = useState<string[]>([]);
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+    const listRef = useRef<HTMLDivElement | null>(null);
+    const isAtBottomRef = useRef(true);
+
+    // Group ids start over when the preview reloads, which clears the console.
+    const isEmpty = logs.length === 0;
+    useEffect(() => {
+        if (isEmpty) setGroupToggles({});
+    }, [isEmpty]);
+
+    const collapsedGroups = useMemo(() => new Set(logs
+        .filter(log => log.group && (groupToggles[log.group.id] ?? log.group.isCollapsed))
+        .map(log => log.group!.id)), [logs, groupToggles]);
+
+    const rows = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        const rows: { log: LogMessage; count: number }[] = [];
+        for (const log of logs) {
+            if (hiddenLevels.includes(log.level)) continue;
+            if (query && !log.message.toLowerCase().includes(query)) continue;
+            if (log.groupIds?.some(id => collapsedGroups.has(id))) continue;
+            const previous = rows[rows.length - 1];
+            if (previous && isRepeat(previous.log, log)) previous.count++;
+            else rows.push({ log, count: 1 });
+        }
+        return rows;
+    }, [logs, hiddenLevels, search, collapsedGroups]);
+
+    // Follows new messages, unless the user scrolled up to read older ones.
+    useEffect(() => {
+        const list = listRef.current;
+        if (list && isAtBottomRef.current) list.scrollTop = list.scrollHeight;
+    }, [rows]);
+
+    const toggleLevels = (levels: LogMessage['level'][]) => setHiddenLevels(hidden =>
+        levels.every(level => hidden.includes(level)) ? hidden.filter(level => !levels.includes(level)) : [...hidden, ...levels]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (!expression.trim()) return;
+            onEvaluate(expression);
+            setHistory(prev => [...prev.filter(entry => entry !== expression), expression].slice(-MAX_HISTORY));
+            setHistoryIndex(null);
+            setExpression('');
+            isAtBottomRef.current = true;
+        } else if (e.key === 'ArrowUp' && history.length > 0) {
+            e.preventDefault();
+            const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+            setHistoryIndex(index);
+            setExpression(history[index]);
+        } else if (e.key === 'ArrowDown' && historyIndex !== null) {
+            e.preventDefault();
+            const index = historyIndex + 1;
+            setHistoryIndex(index < history.length ? index : null);
+            setExpression(index < history.length ? history[index] : '');
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="px-2 py-1 border-b border-gray-700 flex items-center gap-1 text-xs text-gray-400 flex-wrap">
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Filter messages"
+                    className="bg-gray-800 border border-gray-600 rounded-md px-2 py-0.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 w-48"
+                />
+                {LEVEL_FILTERS.map(({ label, levels }) => {
+                    const isShown = !levels.every(level => hiddenLevels.includes(level));
+                    return (
+                        <button
+                            key={label}
+                            onClick={() => toggleLevels(levels)}
+                            aria-pressed={isShown}
+                            className={`px-2 py-0.5 rounded-md ${isShown ? 'bg-gray-600 text-white' : 'hover:bg-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    );
+                })}
+                <button onClick={onClear} className="ml-auto px-2 py-0.5 rounded-md hover:bg-gray-700 hover:text-white">Clear</button>
+            </div>
+            <div
+                ref={listRef}
+                onScroll={(e) => { const list = e.currentTarget; isAtBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 16; }}
+                className="console-log flex-grow min-h-0"
+            >
+                {fixableError && (
+                   <AutoFixPrompt error={fixableError} onFix={onAutoFix} onOpenLocation={onOpenLocation} />
+                )}
+                {rows.length > 0 ? (
+                    rows.map(({ log, count }, index) => (
+                        <ConsoleMessage
+                            key={index}
+                            log={log}
+                            count={count}
+                            isGroupCollapsed={log.group && collapsedGroups.has(log.group.id)}
+                            onToggleGroup={() => log.group && setGroupToggles(prev => ({ ...prev, [log.group!.id]: !collapsedGroups.has(log.group!.id) }))}
+                            onOpenLocation={onOpenLocation}
+                        />
+                    ))
+                ) : (
+                    <div className="p-4 text-gray-500">
+                        {logs.length > 0 ? 'No messages match the filter.' : 'Console is empty. Use console.log() in your code to see output here.'}
+                    </div>
+                )}
+            </div>
+            <div className="border-t border-gray-700 flex items-center gap-2 px-2 font-mono text-sm">
+                <span className="text-blue-400">›</span>
+                <input
+                    type="text"
+                    value={expression}
+                    onChange={(e) => { setExpression(e.target.value); setHistoryIndex(null); }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Evaluate an expression in the preview"
+                    aria-label="Console input"
+                    spellCheck={false}
+                    className="flex-grow bg-transparent py-1.5 text-gray-200 focus:outline-none"
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { WorkspaceSnapshot, FileSystemTree, SnapshotReason } from '../types';
+import { diffTrees, findNodeByPath } from '../services/fileSystem';
+import { FileChangePreview, describeOperation } from './AIOperationPreview';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { UndoIcon } from './icons/UndoIcon';
+
+interface HistoryPanelProps {
+    history: WorkspaceSnapshot[];
+    fileSystem: FileSystemTree;
+    onRestore: (snapshotId: string) => void;
+}
+
+const reasonLabels: Record<SnapshotReason, { label: string; className: string }> = {
+    ai_task: { label: 'AI task', className: 'bg-blue-700/40 text-blue-300' },
+    autopilot: { label: 'Auto-Pilot', className: 'bg-indigo-700/40 text-indigo-300' },
+    repair: { label: 'Repair', className: 'bg-blue-700/40 text-blue-300' },
+    file_operation: { label: 'Files', className: 'bg-gray-600 text-gray-300' },
+    manual_edit: { label: 'Edit', className: 'bg-gray-600 text-gray-300' },
+    restore: { label: 'Restore', className: 'bg-yellow-700/40 text-yellow-300' },
+    revert: { label: 'Revert', className: 'bg-yellow-700/40 text-yellow-300' },
+};
+
+const SnapshotDiffModal: React.FC<{ snapshot: WorkspaceSnapshot; fileSystem: FileSystemTree; onClose: () => void; onRestore: () => void }> = ({ snapshot, fileSystem, onClose, onRestore }) => {
+    // What restoring the snapshot would change in the current tree.
+    const operations = useMemo(() => diffTrees(fileSystem, snapshot.fileSystem), [fileSystem, snapshot]);
+    const fileChanges = operations.filter(op => op.operation !== 'DELETE_FILE');
+    const deletions = operations.filter(op => op.operation === 'DELETE_FILE');
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="relative flex flex-col bg-[#1E1E1E] border border-gray-700 rounded-lg shadow-2xl w-full max-w-4xl h-full max-h-[85vh] text-white"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="flex items-center justify-between p-4 border-b border-gray-700 shrink-0 gap-4">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold text-gray-200 truncate">{snapshot.label}</h3>
+                        <p className="text-sm text-gray-400">Changes that restoring this snapshot would make to the current files.</p>
+                    </div>
+                    <button onClick={onClose} aria-label="Close snapshot diff">
+                        <XCircleIcon className="h-7 w-7 text-gray-500 hover:text-white" />
+                    </button>
+                </header>
+                <main className="p-4 overflow-auto flex-grow space-y-3">
+                    {operations.length === 0 && <p className="text-gray-500">The current files are identical to this snapshot.</p>}
+                    {fileChanges.map(op => {
+                        const node = findNodeByPath(op.path, fileSystem);
+                        return (
+                            <FileChangePreview
+                                key={op.path}
+                                operation={op}
+                                originalContent={node?.type === 'file' ? node.content : null}
+                                viewMode="unified"
+                                isAccepted={true}
+                                rejectedHunks={[]}
+                            />
+                        );
+                    })}
+                    {deletions.length > 0 && (
+                        <ul className="space-y-1 text-sm">
+                            {deletions.map(op => <li key={op.path} className="font-mono text-red-300/80">{describeOperation(op, fileSystem)}</li>)}
+                        </ul>
+                    )}
+                </main>
+                <footer className="flex justify-end gap-4 p-4 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-gray-600 hover:bg-gray-500 text-white">
+                        Close
+                    </button>
+                    <button onClick={onRestore} disabled={operations.length === 0} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        Restore Snapshot
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, fileSystem, onRestore }) => {
+    const [viewedSnapshot, setViewedSnapshot] = useState<WorkspaceSnapshot | null>(null);
+
+    const handleRestore = (snapshot: WorkspaceSnapshot) => {
+        if (!confirm(`Restore the files to how they were before "${snapshot.label}"? The current state is saved to history first.`)) return;
+        onRestore(snapshot.id);
+        setViewedSnapshot(null);
+    };
+
+    return (
+        <div className="bg-[#1E1E1E] flex flex-col h-full w-full text-white">
+            {viewedSnapshot && (
+                <SnapshotDiffModal snapshot={viewedSnapshot} fileSystem={fileSystem} onClose={() => setViewedSnapshot(null)} onRestore={() => handleRestore(viewedSnapshot)} />
+            )}
+            <div className="p-4 border-b border-gray-700 shrink-0">
+                <h2 className="text-lg font-bold">History</h2>
+                <p className="text-xs text-gray-400 mt-1">A snapshot is saved before every change to the files.</p>
+            </div>
+            <div className="flex-grow overflow-y-auto">
+                {history.length > 0 ? (
+                    <ul className="p-2 space-y-1">
+                        {history.map(snapshot => {
+                            const reason = reasonLabels[snapshot.reason];
+                            return (
+                                <li key={snapshot.id}>
+                                    <div className="group flex items-center justify-between gap-2 p-2 rounded-md hover:bg-gray-700 transition-colors">
+                                        <div className="flex-grow min-w-0 cursor-pointer" onClick={() => setViewedSnapshot(snapshot)} title="View changes since this snapshot">
+                                            <p className="font-medium truncate text-gray-200" title={snapshot.label}>{snapshot.label}</p>
+                                            <p className="text-xs text-gray-400 flex items-center gap-1.5">
+                                                <span className={`px-1.5 rounded font-semibold ${reason.className}`}>{reason.label}</span>
+                                                {new Date(snapshot.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleRestore(snapshot)}
+                                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-600 hover:text-white opacity-0 group-hover:opacity-100 transition-all shrink-0"
+                                            title="Restore this snapshot"
+                                        >
+                                            <UndoIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <div className="p-4 text-center text-gray-500">
+                        No snapshots yet. Changes to your files will show up here.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
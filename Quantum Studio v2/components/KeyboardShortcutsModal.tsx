@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { eventToKeybinding, formatKeybinding, getKeybinding, isValidKeybinding, type Command, type KeybindingOverrides } from '../services/commands';
+import { fuzzyMatch } from '../services/fuzzyMatch';
+import { XCircleIcon } from './icons/XCircleIcon';
+
+interface KeyboardShortcutsModalProps {
+    commands: Command[];
+    overrides: KeybindingOverrides;
+    onOverridesChange: (overrides: KeybindingOverrides) => void;
+    onClose: () => void;
+}
+
+const getLabel = (command: Command) => command.category ? `${command.category}: ${command.title}` : command.title;
+
+export const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({ commands, overrides, onOverridesChange, onClose }) => {
+    const [filter, setFilter] = useState('');
+    const [recordingId, setRecordingId] = useState<string | null>(null);
+    const [recordingHint, setRecordingHint] = useState<string | null>(null);
+
+    const setKeybinding = (command: Command, keybinding: string | null) => {
+        const { [command.id]: _, ...rest } = overrides;
+        // Choosing the default again drops the override, so later changes to the default still apply.
+        onOverridesChange((keybinding || undefined) === command.keybinding ? rest : { ...rest, [command.id]: keybinding });
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!recordingId) {
+                if (e.key === 'Escape') onClose();
+                return;
+            }
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') { setRecordingId(null); setRecordingHint(null); return; }
+            const keybinding = eventToKeybinding(e);
+            if (!keybinding) return;
+            if (!isValidKeybinding(keybinding)) { setRecordingHint(`${formatKeybinding(keybinding)} needs Ctrl, Cmd or Alt.`); return; }
+            const command = commands.find(c => c.id === recordingId);
+            if (command) setKeybinding(command, keybinding);
+            setRecordingId(null);
+            setRecordingHint(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    });
+
+    const rows = useMemo(() => commands
+        .map(command => ({ command, label: getLabel(command), keybinding: getKeybinding(command, overrides) }))
+        .filter(row => fuzzyMatch(filter, row.label) || (row.keybinding && formatKeybinding(row.keybinding).toLowerCase().includes(filter.toLowerCase())))
+        .sort((a, b) => a.label.localeCompare(b.label)), [commands, overrides, filter]);
+
+    // Commands that share a shortcut; only one of them can run when it is pressed.
+    const commandsByKeybinding = useMemo(() => {
+        const map = new Map<string, string[]>();
+        for (const command of commands) {
+            const keybinding = getKeybinding(command, overrides);
+            if (keybinding) map.set(keybinding, [...(map.get(keybinding) || []), getLabel(command)]);
+        }
+        return map;
+    }, [commands, overrides]);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="relative flex flex-col bg-[#1E1E1E] border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl h-full max-h-[80vh] text-white"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="flex items-center justify-between p-4 border-b border-gray-700 shrink-0 gap-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-200">Keyboard Shortcuts</h3>
+                        <p className="text-sm text-gray-400">Click a shortcut to change it, then press the new key combination.</p>
+                    </div>
+                    <button onClick={onClose} aria-label="Close keyboard shortcuts">
+                        <XCircleIcon className="h-7 w-7 text-gray-500 hover:text-white" />
+                    </button>
+                </header>
+                <div className="p-4 border-b border-gray-700 shrink-0">
+                    <input
+                        type="text"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter commands or shortcuts"
+                        autoFocus
+                        className="w-full p-2 bg-gray-800 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-sm"
+                    />
+                </div>
+                <main className="overflow-y-auto flex-grow">
+                    <table className="w-full text-sm">
+                        <tbody>
+                            {rows.map(({ command, label, keybinding }) => {
+                                const isRecording = recordingId === command.id;
+                                const sharedWith = keybinding ? (commandsByKeybinding.get(keybinding) || []).filter(other => other !== label) : [];
+                                return (
+                                    <tr key={command.id} className="border-b border-gray-800 hover:bg-gray-800/50">
+                                        <td className="px-4 py-2 text-gray-200">
+                                            {label}
+                                            {sharedWith.length > 0 && <p className="text-xs text-yellow-400">Also bound to {sharedWith.join(', ')}</p>}
+                                        </td>
+                                        <td className="px-4 py-2 w-48">
+                                            <button
+                                                onClick={() => { setRecordingId(command.id); setRecordingHint(null); }}
+                                                title="Change shortcut"
+                                                className={`font-mono text-xs rounded px-2 py-1 border ${isRecording ? 'border-blue-500 text-blue-300' : 'border-gray-600 text-gray-300 hover:border-gray-400'}`}
+                                            >
+                                                {isRecording ? (recordingHint || 'Press keys… (Esc to cancel)') : keybinding ? formatKeybinding(keybinding) : '—'}
+                                            </button>
+                                        </td>
+                                        <td className="px-4 py-2 w-40 text-right whitespace-nowrap">
+                                            {keybinding && (
+                                                <button onClick={() => setKeybinding(command, null)} className="text-xs text-gray-400 hover:text-white mr-3">Remove</button>
+                                            )}
+                                            {command.id in overrides && (
+                                                <button onClick={() => setKeybinding(command, command.keybinding || null)} className="text-xs text-gray-400 hover:text-white">Reset</button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import type { PreviewViewport, ViewportPresetId } from '../types';
+import { applyViewportPreset, getViewportSize, MAX_VIEWPORT_SIZE, MIN_VIEWPORT_SIZE, VIEWPORT_PRESETS, ZOOM_LEVELS } from '../services/previewViewport';
+import { RotateIcon } from './icons/RotateIcon';
+import { SunIcon } from './icons/SunIcon';
+import { MoonIcon } from './icons/MoonIcon';
+
+interface PreviewViewportToolbarProps {
+    viewport: PreviewViewport;
+    onChange: (viewport: PreviewViewport) => void;
+}
+
+const controlClassName = "bg-gray-800 border border-gray-600 rounded-md px-1.5 py-0.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const clampSize = (value: number) => Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, Math.round(value)));
+
+// Applies on blur or Enter, so clearing the field to type a new size does not resize the frame on every key.
+const SizeInput: React.FC<{ label: string; value: number; onCommit: (value: number) => void }> = ({ label, value, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const parsed = parseInt(draft, 10);
+        const size = Number.isNaN(parsed) ? value : clampSize(parsed);
+        setDraft(String(size));
+        if (size !== value) onCommit(size);
+    };
+
+    return (
+        <input
+            type="number"
+            aria-label={label}
+            value={draft}
+            min={MIN_VIEWPORT_SIZE}
+            max={MAX_VIEWPORT_SIZE}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+            className={`${controlClassName} w-16 text-center`}
+        />
+    );
+};
+
+export const PreviewViewportToolbar: React.FC<PreviewViewportToolbarProps> = ({ viewport, onChange }) => {
+    const { width, height } = getViewportSize(viewport);
+    const isDark = viewport.colorScheme === 'dark';
+
+    // The inputs show the rotated size, so typing into "width" changes whichever side is currently horizontal.
+    const setSize = (side: 'width' | 'height', value: number) => {
+        const stored = viewport.isRotated ? (side === 'width' ? 'height' : 'width') : side;
+        onChange({ ...viewport, preset: 'custom', [stored]: value });
+    };
+
+    return (
+        <div className="px-2 py-1 border-b border-gray-700 flex items-center gap-2 text-xs text-gray-400 flex-wrap">
+            <select
+                aria-label="Viewport"
+                value={viewport.preset}
+                onChange={(e) => onChange(applyViewportPreset(viewport, e.target.value as ViewportPresetId))}
+                className={controlClassName}
+            >
+                {VIEWPORT_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>
+                        {preset.size ? `${preset.label} (${preset.size.width}×${preset.size.height})` : preset.label}
+                    </option>
+                ))}
+            </select>
+            {viewport.preset !== 'responsive' && (
+                <>
+                    <SizeInput label="Viewport width" value={width} onCommit={(value) => setSize('width', value)} />
+                    <span>×</span>
+                    <SizeInput label="Viewport height" value={height} onCommit={(value) => setSize('height', value)} />
+                    <button onClick={() => onChange({ ...viewport, isRotated: !viewport.isRotated })} title="Rotate" className="p-1 rounded-md hover:bg-gray-700 hover:text-white">
+                        <RotateIcon className="h-4 w-4" />
+                    </button>
+                    <select
+                        aria-label="Zoom"
+                        value={String(viewport.zoom)}
+                        onChange={(e) => onChange({ ...viewport, zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+                        className={controlClassName}
+                    >
+                        <option value="fit">Fit</option>
+                        {ZOOM_LEVELS.map(zoom => <option key={zoom} value={zoom}>{Math.round(zoom * 100)}%</option>)}
+                    </select>
+                </>
+            )}
+            <button
+                onClick={() => onChange({ ...viewport, colorScheme: isDark ? 'light' : 'dark' })}
+                title={isDark ? 'Emulating dark color scheme' : 'Emulating light color scheme'}
+                className="ml-auto p-1 rounded-md hover:bg-gray-700 hover:text-white"
+            >
+                {isDark ? <MoonIcon className="h-4 w-4" /> : <SunIcon className="h-4 w-4" />}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,189 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import type { FileOperation, FileSystemTree } from '../types';
+import { searchWorkspace, replaceInWorkspace, previewReplacement, MAX_SEARCH_MATCHES, type SearchMatch, type SearchOptions, type WorkspaceSearchResult } from '../services/workspaceSearch';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+
+/** Kept by the parent so the query and results survive closing the panel to look at a match. */
+export interface SearchPanelState extends SearchOptions {
+    query: string;
+    replacement: string;
+    isReplaceOpen: boolean;
+    areFiltersOpen: boolean;
+}
+
+export const DEFAULT_SEARCH_STATE: SearchPanelState = {
+    query: '',
+    replacement: '',
+    isReplaceOpen: false,
+    areFiltersOpen: false,
+    isRegex: false,
+    matchCase: false,
+    wholeWord: false,
+    include: '',
+    exclude: '',
+};
+
+interface SearchPanelProps {
+    fileSystem: FileSystemTree;
+    state: SearchPanelState;
+    onStateChange: (state: SearchPanelState) => void;
+    onOpenMatch: (path: string, match: SearchMatch) => void;
+    onReplaceAll: (operations: FileOperation[], label: string) => void;
+}
+
+const inputClassName = "w-full p-1.5 bg-gray-800 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-sm";
+
+// Long lines are cut around the match so it stays visible in the narrow panel.
+const MATCH_CONTEXT_CHARS = 24;
+
+const ToggleButton: React.FC<{ isOn: boolean; onToggle: () => void; title: string; children: React.ReactNode }> = ({ isOn, onToggle, title, children }) => (
+    <button
+        onClick={onToggle}
+        title={title}
+        aria-pressed={isOn}
+        className={`px-1.5 h-6 text-xs font-mono rounded transition-colors ${isOn ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-600 hover:text-white'}`}
+    >
+        {children}
+    </button>
+);
+
+const MatchLine: React.FC<{ match: SearchMatch; replacement: string | null }> = ({ match, replacement }) => {
+    const start = match.column - 1;
+    const contextStart = Math.max(0, start - MATCH_CONTEXT_CHARS);
+    const before = (contextStart > 0 ? '…' : '') + match.lineText.substring(contextStart, start).trimStart();
+    const matched = match.lineText.substr(start, match.length);
+    const after = match.lineText.substring(start + match.length);
+    return (
+        <span className="font-mono text-xs whitespace-pre truncate">
+            <span className="text-gray-400">{before}</span>
+            {replacement === null ? (
+                <span className="bg-yellow-500/30 text-yellow-100 rounded-sm">{matched}</span>
+            ) : (
+                <>
+                    <span className="bg-red-500/30 text-red-200 line-through rounded-sm">{matched}</span>
+                    <span className="bg-green-500/30 text-green-200 rounded-sm">{replacement}</span>
+                </>
+            )}
+            <span className="text-gray-400">{after}</span>
+        </span>
+    );
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ fileSystem, state, onStateChange, onOpenMatch, onReplaceAll }) => {
+    const [collapsedPaths, setCollapsedPaths] = useState<string[]>([]);
+    // Searching every file on each keystroke is deferred so typing stays responsive.
+    const deferredState = useDeferredValue(state);
+    const update = (patch: Partial<SearchPanelState>) => onStateChange({ ...state, ...patch });
+
+    const { result, error } = useMemo((): { result: WorkspaceSearchResult | null; error: string | null } => {
+        try {
+            return { result: searchWorkspace(fileSystem, deferredState.query, deferredState), error: null };
+        } catch (e) {
+            return { result: null, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [fileSystem, deferredState.query, deferredState.isRegex, deferredState.matchCase, deferredState.wholeWord, deferredState.include, deferredState.exclude]);
+
+    const showReplacement = state.isReplaceOpen && !error;
+    const getReplacement = (match: SearchMatch) => showReplacement ? previewReplacement(match, deferredState.query, state.replacement, deferredState) : null;
+
+    const handleReplaceAll = () => {
+        if (!result || result.matchCount === 0) return;
+        const operations = replaceInWorkspace(fileSystem, state.query, state.replacement, state);
+        if (operations.length === 0) return;
+        if (!confirm(`Replace ${result.matchCount}${result.truncated ? '+' : ''} occurrence${result.matchCount === 1 ? '' : 's'} of "${state.query}" in ${operations.length} file${operations.length === 1 ? '' : 's'}? You can undo this from History.`)) return;
+        onReplaceAll(operations, `Replace "${state.query}" with "${state.replacement}"`);
+    };
+
+    const toggleCollapsed = (path: string) => setCollapsedPaths(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+
+    return (
+        <div className="bg-[#1E1E1E] flex flex-col h-full w-full text-white">
+            <div className="p-4 border-b border-gray-700 shrink-0 space-y-2">
+                <h2 className="text-lg font-bold text-gray-200">Search</h2>
+                <div className="flex items-start gap-1">
+                    <button
+                        onClick={() => update({ isReplaceOpen: !state.isReplaceOpen })}
+                        title={state.isReplaceOpen ? 'Hide replace' : 'Show replace'}
+                        className="p-1 mt-1 rounded text-gray-400 hover:bg-gray-600 hover:text-white"
+                    >
+                        <ChevronDownIcon className={`w-4 h-4 transition-transform ${state.isReplaceOpen ? '' : '-rotate-90'}`} />
+                    </button>
+                    <div className="flex-grow space-y-1.5 min-w-0">
+                        <div className="relative">
+                            <input type="text" value={state.query} onChange={(e) => update({ query: e.target.value })} placeholder="Search" aria-label="Search" autoFocus className={`${inputClassName} pr-24`} />
+                            <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+                                <ToggleButton isOn={state.matchCase} onToggle={() => update({ matchCase: !state.matchCase })} title="Match Case">Aa</ToggleButton>
+                                <ToggleButton isOn={state.wholeWord} onToggle={() => update({ wholeWord: !state.wholeWord })} title="Match Whole Word">ab</ToggleButton>
+                                <ToggleButton isOn={state.isRegex} onToggle={() => update({ isRegex: !state.isRegex })} title="Use Regular Expression">.*</ToggleButton>
+                            </div>
+                        </div>
+                        {state.isReplaceOpen && (
+                            <div className="flex items-center gap-1">
+                                <input type="text" value={state.replacement} onChange={(e) => update({ replacement: e.target.value })} placeholder="Replace" aria-label="Replace" className={inputClassName} />
+                                <button
+                                    onClick={handleReplaceAll}
+                                    disabled={!result || result.matchCount === 0}
+                                    title="Replace All"
+                                    className="px-2 py-1.5 text-xs font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed shrink-0"
+                                >
+                                    Replace All
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+                <button onClick={() => update({ areFiltersOpen: !state.areFiltersOpen })} className="text-xs text-gray-400 hover:text-white">
+                    {state.areFiltersOpen ? 'Hide' : 'Show'} file filters{!state.areFiltersOpen && (state.include || state.exclude) ? ' (active)' : ''}
+                </button>
+                {state.areFiltersOpen && (
+                    <div className="space-y-1.5">
+                        <input type="text" value={state.include} onChange={(e) => update({ include: e.target.value })} placeholder="Files to include, e.g. src/**/*.tsx" aria-label="Files to include" className={inputClassName} />
+                        <input type="text" value={state.exclude} onChange={(e) => update({ exclude: e.target.value })} placeholder="Files to exclude, e.g. *.json, src/legacy" aria-label="Files to exclude" className={inputClassName} />
+                    </div>
+                )}
+            </div>
+            <div className="flex-grow overflow-y-auto">
+                {error && <p className="p-4 text-sm text-red-400">{error}</p>}
+                {result && state.query && (
+                    <p className="px-4 pt-3 pb-1 text-xs text-gray-400">
+                        {result.matchCount === 0
+                            ? 'No results.'
+                            : `${result.matchCount} result${result.matchCount === 1 ? '' : 's'} in ${result.files.length} file${result.files.length === 1 ? '' : 's'}`}
+                        {result.truncated && ` (stopped at ${MAX_SEARCH_MATCHES}; refine the search to see the rest)`}
+                    </p>
+                )}
+                <ul className="p-2 space-y-1">
+                    {result?.files.map(file => {
+                        const isCollapsed = collapsedPaths.includes(file.path);
+                        return (
+                            <li key={file.path}>
+                                <button onClick={() => toggleCollapsed(file.path)} className="w-full flex items-center gap-1 px-1 py-0.5 rounded hover:bg-gray-700 text-left" title={file.path}>
+                                    <ChevronDownIcon className={`w-3.5 h-3.5 shrink-0 text-gray-400 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                                    <span className="text-sm text-gray-200 truncate">{file.path.split('/').pop()}</span>
+                                    <span className="text-xs text-gray-500 truncate flex-grow">{file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : ''}</span>
+                                    <span className="text-xs bg-gray-600 text-gray-200 rounded-full px-1.5 shrink-0">{file.matches.length}</span>
+                                </button>
+                                {!isCollapsed && (
+                                    <ul>
+                                        {file.matches.map(match => (
+                                            <li key={`${match.lineNumber}:${match.column}`}>
+                                                <button
+                                                    onClick={() => onOpenMatch(file.path, match)}
+                                                    className="w-full flex items-baseline gap-2 pl-6 pr-1 py-0.5 rounded hover:bg-gray-700 text-left min-w-0"
+                                                    title={`Line ${match.lineNumber}, column ${match.column}`}
+                                                >
+                                                    <span className="text-xs text-gray-500 font-mono shrink-0 w-8 text-right">{match.lineNumber}</span>
+                                                    <MatchLine match={match} replacement={getReplacement(match)} />
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+};
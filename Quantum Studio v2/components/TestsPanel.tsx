@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import type { SourceLocation, TestCaseResult, TestError, TestFileResult } from '../types';
+import { countTestResults } from '../services/previewTests';
+import { LocationLink, StackTrace } from './ConsoleMessage';
+import { RefactorIcon } from './icons/RefactorIcon';
+import { RefreshIcon } from './icons/RefreshIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+interface TestsPanelProps {
+    results: TestFileResult[];
+    testFileCount: number;
+    isRunning: boolean;
+    onRun: () => void;
+    onFix: () => void;
+    onOpenLocation: (location: SourceLocation) => void;
+}
+
+const statusIcons: Record<TestCaseResult['status'], { icon: string; className: string }> = {
+    passed: { icon: '✓', className: 'text-green-400' },
+    failed: { icon: '✕', className: 'text-red-400' },
+    skipped: { icon: '○', className: 'text-gray-500' },
+    todo: { icon: '✎', className: 'text-purple-300' },
+};
+
+const TestErrorView: React.FC<{ error: TestError; onOpenLocation: (location: SourceLocation) => void }> = ({ error, onOpenLocation }) => (
+    <div className="ml-5 my-1 p-2 rounded-md bg-red-900/20 border border-red-900/60 text-xs">
+        <pre className="whitespace-pre-wrap break-words text-red-300">{error.message}</pre>
+        {error.location && (
+            <div className="mt-1">
+                <LocationLink location={error.location} onOpen={onOpenLocation} />
+            </div>
+        )}
+        {error.stack && <StackTrace stack={error.stack} onOpenLocation={onOpenLocation} />}
+    </div>
+);
+
+const TestFileView: React.FC<{ file: TestFileResult; onOpenLocation: (location: SourceLocation) => void }> = ({ file, onOpenLocation }) => {
+    const hasFailures = !!file.error || file.tests.some(test => test.status === 'failed');
+    // Passing files are folded, so the failures are what the panel shows first.
+    const [isExpanded, setIsExpanded] = useState(hasFailures);
+    const counts = countTestResults([file]);
+
+    return (
+        <li>
+            <button onClick={() => setIsExpanded(expanded => !expanded)} className="w-full flex items-center gap-2 px-2 py-1 rounded-md hover:bg-gray-800 text-left">
+                <span className="inline-block w-3 text-gray-500">{isExpanded ? '▾' : '▸'}</span>
+                <span className={hasFailures ? 'text-red-400' : 'text-green-400'}>{hasFailures ? '✕' : '✓'}</span>
+                <span className="font-mono truncate flex-grow">{file.path}</span>
+                <span className="text-xs text-gray-500 shrink-0">
+                    {file.tests.length} {file.tests.length === 1 ? 'test' : 'tests'}
+                    {counts.failed > 0 && <span className="text-red-400"> · {counts.failed} failed</span>}
+                    {' · '}{file.duration} ms
+                </span>
+            </button>
+            {isExpanded && (
+                <div className="pl-6">
+                    {file.error && <TestErrorView error={file.error} onOpenLocation={onOpenLocation} />}
+                    {file.tests.map((test, index) => {
+                        const status = statusIcons[test.status];
+                        return (
+                            <div key={index}>
+                                <div className="flex items-center gap-2 py-0.5">
+                                    <span className={`w-3 text-center ${status.className}`}>{status.icon}</span>
+                                    <span className={`flex-grow min-w-0 truncate ${test.status === 'skipped' || test.status === 'todo' ? 'text-gray-500' : ''}`}>
+                                        {test.ancestors.map(name => <span key={name} className="text-gray-500">{name} › </span>)}
+                                        {test.name}
+                                    </span>
+                                    {test.status !== 'skipped' && test.status !== 'todo' && <span className="text-xs text-gray-500 shrink-0">{test.duration} ms</span>}
+                                </div>
+                                {test.error && <TestErrorView error={test.error} onOpenLocation={onOpenLocation} />}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </li>
+    );
+};
+
+export const TestsPanel: React.FC<TestsPanelProps> = ({ results, testFileCount, isRunning, onRun, onFix, onOpenLocation }) => {
+    const counts = countTestResults(results);
+    const summary = [
+        counts.failed > 0 && `${counts.failed} failed`,
+        `${counts.passed} passed`,
+        counts.skipped > 0 && `${counts.skipped} skipped`,
+        counts.todo > 0 && `${counts.todo} todo`,
+    ].filter(Boolean).join(', ');
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="px-2 py-1 border-b border-gray-700 flex items-center gap-2 text-xs text-gray-400">
+                {isRunning && <LoaderIcon className="w-4 h-4 animate-spin text-blue-400" />}
+                <span>
+                    {testFileCount === 0
+                        ? 'No test files'
+                        : isRunning
+                            ? `Running ${results.length + 1} of ${testFileCount} test files…`
+                            : `${testFileCount} test ${testFileCount === 1 ? 'file' : 'files'}: ${summary}`}
+                </span>
+                <div className="ml-auto flex items-center gap-1">
+                    {!isRunning && counts.failed > 0 && (
+                        <button onClick={onFix} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white">
+                            <RefactorIcon className="w-4 h-4" />
+                            Fix with AI
+                        </button>
+                    )}
+                    <button onClick={onRun} disabled={testFileCount === 0} className="flex items-center gap-1 px-2 py-0.5 rounded-md hover:bg-gray-700 hover:text-white disabled:opacity-50 disabled:hover:bg-transparent">
+                        <RefreshIcon className="w-4 h-4" />
+                        Run
+                    </button>
+                </div>
+            </div>
+            <div className="flex-grow min-h-0 overflow-y-auto p-2 font-mono text-sm text-gray-300">
+                {testFileCount === 0 ? (
+                    <div className="p-2 text-gray-500 font-sans">
+                        Files named <code>*.test.*</code> or <code>*.spec.*</code> with a <code>.ts</code>, <code>.tsx</code>, <code>.js</code> or <code>.jsx</code> extension run here, with the <code>describe</code>, <code>it</code>, <code>expect</code> and <code>vi.fn()</code> APIs of Jest and Vitest. They run again whenever the code changes.
+                    </div>
+                ) : (
+                    <ul className="space-y-0.5">
+                        {results.map(file => <TestFileView key={file.path} file={file} onOpenLocation={onOpenLocation} />)}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import type { VisualCheckpoint } from '../types';
+import { CHECKPOINT_VIEWPORTS, toViewportKey } from '../services/visualCheckpoints';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { PlayCircleIcon } from './icons/PlayCircleIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+interface VisualCheckpointsPanelProps {
+    checkpoints: VisualCheckpoint[];
+    runningIds: string[];
+    onCreate: (checkpoint: Pick<VisualCheckpoint, 'name' | 'selector' | 'viewports'>) => void;
+    onRun: (checkpointIds?: string[]) => void;
+    onAccept: (checkpointId: string) => void;
+    onDelete: (checkpointId: string) => void;
+    onAskAI: (checkpoint: VisualCheckpoint) => void;
+}
+
+const DEFAULT_VIEWPORT_LABELS = ['Mobile', 'Desktop'];
+
+const getStatus = (checkpoint: VisualCheckpoint, isRunning: boolean): { label: string; className: string } => {
+    if (isRunning) return { label: 'Running', className: 'bg-blue-700/40 text-blue-300' };
+    const run = checkpoint.lastRun;
+    if (!run) return { label: 'Not run', className: 'bg-gray-600 text-gray-300' };
+    if (run.error) return { label: 'Error', className: 'bg-yellow-700/40 text-yellow-300' };
+    return run.passed ? { label: 'Passed', className: 'bg-green-700/40 text-green-300' } : { label: 'Changed', className: 'bg-red-700/40 text-red-300' };
+};
+
+const CheckpointImage: React.FC<{ title: string; src?: string }> = ({ title, src }) => (
+    <figure className="min-w-0">
+        <figcaption className="text-xs text-gray-400 mb-1">{title}</figcaption>
+        {src
+            ? <a href={src} target="_blank" rel="noreferrer"><img src={src} alt={title} className="w-full border border-gray-700 bg-white" /></a>
+            : <div className="border border-dashed border-gray-700 text-gray-500 text-xs p-4 text-center">None</div>}
+    </figure>
+);
+
+const CheckpointResultsModal: React.FC<{ checkpoint: VisualCheckpoint; onClose: () => void; onAccept: () => void; onAskAI: () => void }> = ({ checkpoint, onClose, onAccept, onAskAI }) => {
+    const run = checkpoint.lastRun;
+    const hasFailed = !!run && !run.passed && !run.error;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div
+                className="relative flex flex-col bg-[#1E1E1E] border border-gray-700 rounded-lg shadow-2xl w-full max-w-5xl h-full max-h-[85vh] text-white"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="flex items-center justify-between p-4 border-b border-gray-700 shrink-0 gap-4">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-semibold text-gray-200 truncate">{checkpoint.name}</h3>
+                        <p className="text-sm text-gray-400">
+                            {run ? `Last run ${new Date(run.ranAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}.` : 'Not run yet.'}
+                            {checkpoint.selector && <> Element <code className="text-gray-300">{checkpoint.selector}</code>.</>}
+                        </p>
+                    </div>
+                    <button onClick={onClose} aria-label="Close checkpoint results">
+                        <XCircleIcon className="h-7 w-7 text-gray-500 hover:text-white" />
+                    </button>
+                </header>
+                <main className="p-4 overflow-auto flex-grow space-y-6">
+                    {run?.error && <p className="text-yellow-300 text-sm">Could not capture the preview: {run.error}</p>}
+                    {checkpoint.viewports.map(viewport => {
+                        const key = toViewportKey(viewport);
+                        const result = run?.results.find(r => toViewportKey(r) === key);
+                        return (
+                            <section key={key}>
+                                <h4 className="text-sm font-semibold text-gray-300 mb-2 flex items-center gap-2">
+                                    {viewport.width}×{viewport.height}
+                                    {result && (
+                                        <span className={result.passed ? 'text-green-400' : 'text-red-400'}>
+                                            {result.passed ? 'matches the baseline' : `${(result.mismatchRatio * 100).toFixed(2)}% of pixels changed`}
+                                        </span>
+                                    )}
+                                </h4>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <CheckpointImage title="Baseline" src={checkpoint.baselines[key]} />
+                                    <CheckpointImage title="Current" src={result?.image} />
+                                    <CheckpointImage title="Difference" src={result?.diffImage} />
+                                </div>
+                            </section>
+                        );
+                    })}
+                </main>
+                <footer className="flex justify-end gap-4 p-4 border-t border-gray-700">
+                    <button onClick={onAskAI} disabled={!hasFailed} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-gray-600 hover:bg-gray-500 text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                        Ask AI to Fix
+                    </button>
+                    <button onClick={onAccept} disabled={!hasFailed} className="px-4 py-2 text-sm font-semibold rounded-md transition-colors bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        Accept as New Baseline
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+const NewCheckpointForm: React.FC<{ onCreate: VisualCheckpointsPanelProps['onCreate']; onCancel: () => void }> = ({ onCreate, onCancel }) => {
+    const [name, setName] = useState('');
+    const [selector, setSelector] = useState('');
+    const [viewportLabels, setViewportLabels] = useState(DEFAULT_VIEWPORT_LABELS);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const viewports = CHECKPOINT_VIEWPORTS.filter(v => viewportLabels.includes(v.label)).map(({ width, height }) => ({ width, height }));
+        if (!name.trim() || viewports.length === 0) return;
+        onCreate({ name: name.trim(), selector: selector.trim() || undefined, viewports });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-3 border-b border-gray-700 space-y-2 text-sm">
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Home page"
+                autoFocus
+                className="w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+                type="text"
+                value={selector}
+                onChange={(e) => setSelector(e.target.value)}
+                placeholder="CSS selector (optional, whole page if empty)"
+                className="w-full bg-gray-800 border border-gray-600 rounded-md px-2 py-1 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex flex-wrap gap-3 text-gray-300">
+                {CHECKPOINT_VIEWPORTS.map(viewport => (
+                    <label key={viewport.label} className="flex items-center gap-1.5">
+                        <input
+                            type="checkbox"
+                            checked={viewportLabels.includes(viewport.label)}
+                            onChange={(e) => setViewportLabels(prev => e.target.checked ? [...prev, viewport.label] : prev.filter(label => label !== viewport.label))}
+                        />
+                        {viewport.label} <span className="text-gray-500">{viewport.width}×{viewport.height}</span>
+                    </label>
+                ))}
+            </div>
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500">Cancel</button>
+                <button type="submit" disabled={!name.trim() || viewportLabels.length === 0} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed">Create</button>
+            </div>
+        </form>
+    );
+};
+
+export const VisualCheckpointsPanel: React.FC<VisualCheckpointsPanelProps> = ({ checkpoints, runningIds, onCreate, onRun, onAccept, onDelete, onAskAI }) => {
+    const [isCreating, setIsCreating] = useState(false);
+    const [viewedCheckpointId, setViewedCheckpointId] = useState<string | null>(null);
+    const viewedCheckpoint = checkpoints.find(c => c.id === viewedCheckpointId);
+
+    const handleDelete = (checkpoint: VisualCheckpoint) => {
+        if (!confirm(`Delete the visual checkpoint "${checkpoint.name}" and its baselines?`)) return;
+        onDelete(checkpoint.id);
+    };
+
+    return (
+        <div className="bg-[#1E1E1E] flex flex-col h-full w-full text-white">
+            {viewedCheckpoint && (
+                <CheckpointResultsModal
+                    checkpoint={viewedCheckpoint}
+                    onClose={() => setViewedCheckpointId(null)}
+                    onAccept={() => onAccept(viewedCheckpoint.id)}
+                    onAskAI={() => { onAskAI(viewedCheckpoint); setViewedCheckpointId(null); }}
+                />
+            )}
+            <div className="p-4 border-b border-gray-700 shrink-0">
+                <div className="flex items-center justify-between gap-2">
+                    <h2 className="text-lg font-bold">Visual Checkpoints</h2>
+                    <div className="flex gap-1 text-sm">
+                        <button onClick={() => onRun()} disabled={checkpoints.length === 0 || runningIds.length > 0} className="px-2 py-1 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent">Run All</button>
+                        <button onClick={() => setIsCreating(true)} className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-500">New</button>
+                    </div>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">The preview is captured at each viewport and compared with the approved baseline. They run after every AI change; while one fails, Auto-Pilot changes wait for approval.</p>
+            </div>
+            {isCreating && <NewCheckpointForm onCreate={(checkpoint) => { onCreate(checkpoint); setIsCreating(false); }} onCancel={() => setIsCreating(false)} />}
+            <div className="flex-grow overflow-y-auto">
+                {checkpoints.length > 0 ? (
+                    <ul className="p-2 space-y-1">
+                        {checkpoints.map(checkpoint => {
+                            const isRunning = runningIds.includes(checkpoint.id);
+                            const status = getStatus(checkpoint, isRunning);
+                            return (
+                                <li key={checkpoint.id}>
+                                    <div className="group flex items-center justify-between gap-2 p-2 rounded-md hover:bg-gray-700 transition-colors">
+                                        <div className="flex-grow min-w-0 cursor-pointer" onClick={() => setViewedCheckpointId(checkpoint.id)} title="View captures">
+                                            <p className="font-medium truncate text-gray-200" title={checkpoint.name}>{checkpoint.name}</p>
+                                            <p className="text-xs text-gray-400 flex items-center gap-1.5">
+                                                <span className={`px-1.5 rounded font-semibold ${status.className}`}>{status.label}</span>
+                                                <span className="truncate">{checkpoint.viewports.map(v => `${v.width}×${v.height}`).join(', ')}{checkpoint.selector && ` · ${checkpoint.selector}`}</span>
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => onRun([checkpoint.id])}
+                                            disabled={isRunning}
+                                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-600 hover:text-white shrink-0"
+                                            title="Run this checkpoint"
+                                        >
+                                            {isRunning ? <LoaderIcon className="w-5 h-5 animate-spin" /> : <PlayCircleIcon className="w-5 h-5" />}
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(checkpoint)}
+                                            className="p-1.5 rounded-md text-gray-500 hover:bg-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all shrink-0"
+                                            title="Delete this checkpoint"
+                                        >
+                                            <TrashIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <div className="p-4 text-center text-gray-500">
+                        No checkpoints yet. Create one to catch unintended changes to how the preview looks.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,34 +1,80 @@
 import React, { useMemo, useState, useEffect, useRef, forwardRef } from 'react';
-import { ConsoleMessage } from './ConsoleMessage';
-import { AutoFixPrompt } from './AutoFixPrompt';
-import type { LogMessage, SelectedElement } from '../types';
+import { ConsolePanel } from './ConsolePanel';
+import { TestsPanel } from './TestsPanel';
+import type { LogMessage, PreviewTab, PreviewViewport, SelectedElement, SourceLocation, TestFileResult } from '../types';
+import { buildModuleLoaderScript, PREVIEW_ENTRY_PATH, type PreviewModules } from '../services/previewBundler';
+import { transpilePreviewModules } from '../services/previewTranspiler';
+import { buildRuntimeScriptTags } from '../services/previewRuntime';
+import { findPackageImports, parseDependencies, resolvePreviewPackages, PACKAGE_MANIFEST_PATH, type PreviewPackages } from '../services/previewPackages';
 import { EyeIcon } from './icons/EyeIcon';
 import { TerminalIcon } from './icons/TerminalIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { RefreshIcon } from './icons/RefreshIcon';
+import { useRegisterCommands } from './CommandPalette';
+import type { Command } from '../services/commands';
 import { FullscreenIcon } from './icons/FullscreenIcon';
 import { ExitFullscreenIcon } from './icons/ExitFullscreenIcon';
 import { SelectToolIcon } from './icons/SelectToolIcon';
 import { CameraIcon } from './icons/CameraIcon';
+import { PreviewViewportToolbar } from './PreviewViewportToolbar';
+import { getViewportSize } from '../services/previewViewport';
+import { buildConsoleScript, findErrorLocation, mapPreviewLocations } from '../services/previewConsole';
+import type { PreviewSourceMaps } from '../services/sourceMaps';
+import { buildTestRunnerScript, countTestResults, findTestFiles, mapTestResults } from '../services/previewTests';
 
 
 interface WebsitePreviewProps {
-    code: string;
+    modules: PreviewModules;
     fixableError: LogMessage | null;
     onConsoleLog: (log: LogMessage) => void;
     onAutoFix: (log: LogMessage) => void;
+    onOpenLocation: (location: SourceLocation) => void;
     isFullscreen: boolean;
     onToggleFullscreen: () => void;
-    activeTab: 'preview' | 'console';
-    onTabChange: (tab: 'preview' | 'console') => void;
+    activeTab: PreviewTab;
+    onTabChange: (tab: PreviewTab) => void;
+    onTestResults: (files: TestFileResult[]) => void;
+    onFixTests: () => void;
     onElementSelected: (info: SelectedElement) => void;
     onScreenshot: () => void;
+    viewport: PreviewViewport;
+    onViewportChange: (viewport: PreviewViewport) => void;
 }
 
-export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>(({ code, fixableError, onConsoleLog, onAutoFix, isFullscreen, onToggleFullscreen, activeTab, onTabChange, onElementSelected, onScreenshot }, ref) => {
+// Room kept around a sized device frame, including its bezel, when zoomed to fit.
+const FRAME_MARGIN = 56;
+
+interface PreviewBuild {
+    compiledModules: PreviewModules;
+    sourceMaps: PreviewSourceMaps;
+    packages: PreviewPackages;
+}
+
+export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>(({ modules, fixableError, onConsoleLog, onAutoFix, onOpenLocation, isFullscreen, onToggleFullscreen, activeTab, onTabChange, onTestResults, onFixTests, onElementSelected, onScreenshot, viewport, onViewportChange }, ref) => {
     const [logs, setLogs] = useState<LogMessage[]>([]);
     const [refreshKey, setRefreshKey] = useState(0);
     const [isSelectorActive, setIsSelectorActive] = useState(false);
     const internalRef = useRef<HTMLIFrameElement | null>(null);
+    const [previewBuild, setPreviewBuild] = useState<PreviewBuild | null>(null);
+    // The build the iframe document was created from. Later builds are sent to it as hot updates.
+    const [documentBuild, setDocumentBuild] = useState<PreviewBuild | null>(null);
+    const previewBuildRef = useRef(previewBuild);
+    previewBuildRef.current = previewBuild;
+    // The modules the running preview has, or null while it loads or when it failed to render.
+    const runningBuildRef = useRef<{ compiledModules: PreviewModules; packagesKey: string } | null>(null);
+    // Source maps of the modules the iframe was last sent, for mapping the stack traces it reports.
+    const sourceMapsRef = useRef<PreviewSourceMaps>({});
+    const stageRef = useRef<HTMLDivElement | null>(null);
+    const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+    const colorSchemeRef = useRef(viewport.colorScheme);
+    colorSchemeRef.current = viewport.colorScheme;
+    // The build the test runner iframe runs the test files of, and the results it has reported so far.
+    const [testBuild, setTestBuild] = useState<PreviewBuild | null>(null);
+    const [testRunKey, setTestRunKey] = useState(0);
+    const [testResults, setTestResults] = useState<TestFileResult[]>([]);
+    const [isTestRunning, setIsTestRunning] = useState(false);
+    const testFrameRef = useRef<HTMLIFrameElement | null>(null);
+    const testPaths = useMemo(() => testBuild ? findTestFiles(testBuild.compiledModules) : [], [testBuild]);
 
     useEffect(() => {
         if (ref) {
@@ -38,9 +84,11 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
                 ref.current = internalRef.current;
             }
         }
-    }, [ref]);
+    }, [ref, refreshKey]);
 
     const handleRefresh = () => {
+        runningBuildRef.current = null;
+        setDocumentBuild(previewBuildRef.current);
         setRefreshKey(prev => prev + 1);
         setIsSelectorActive(false);
     };
@@ -51,60 +99,34 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
         internalRef.current?.contentWindow?.postMessage({ type: 'toggle-selector', enabled: nextState }, '*');
     };
 
-    const consoleScript = `
-        const originalConsole = { ...window.console };
-        const serialize = (arg) => {
-            if (arg instanceof Error) {
-                return \`Error: \${arg.message}\\n\${arg.stack}\`;
-            }
-            if (typeof arg === 'function') {
-                return \`[Function: \${arg.name || 'anonymous'}]\`;
-            }
-            if (typeof arg === 'undefined') return 'undefined';
-            if (arg === null) return 'null';
-            if (typeof arg === 'object') {
-                try {
-                    const seen = new WeakSet();
-                    return JSON.stringify(arg, (key, value) => {
-                        if (typeof value === 'object' && value !== null) {
-                            if (seen.has(value)) return '[Circular]';
-                            seen.add(value);
-                        }
-                        return value;
-                    }, 2);
-                } catch (e) {
-                    return '[Unserializable Object]';
-                }
-            }
-            return String(arg);
-        };
+    const runTests = () => {
+        setTestBuild(previewBuildRef.current);
+        setTestRunKey(prev => prev + 1);
+    };
 
-        Object.keys(originalConsole).forEach(level => {
-            window.console[level] = (...args) => {
-                window.parent.postMessage({
-                    type: 'console',
-                    level: level,
-                    message: args.map(serialize).join(' '),
-                }, '*');
-                originalConsole[level].apply(window.console, args);
-            };
-        });
+    const postColorScheme = () => {
+        internalRef.current?.contentWindow?.postMessage({ type: 'set-color-scheme', colorScheme: colorSchemeRef.current }, '*');
+    };
 
-        window.addEventListener('error', (event) => {
-             window.parent.postMessage({
-                type: 'console',
-                level: 'error',
-                message: \`Uncaught Error: \${event.message} at \${event.filename}:\${event.lineno}\`,
-            }, '*');
-        });
-        window.addEventListener('unhandledrejection', event => {
-            window.parent.postMessage({
-                type: 'console',
-                level: 'error',
-                message: \`Unhandled Promise Rejection: \${event.reason}\`,
-            }, '*');
-        });
-    `;
+    useEffect(postColorScheme, [viewport.colorScheme]);
+
+    useRegisterCommands(useMemo((): Command[] => [
+        { id: 'preview.refresh', category: 'Preview', title: 'Refresh', keybinding: 'Alt+R', run: handleRefresh },
+        { id: 'preview.selectElement', category: 'Preview', title: isSelectorActive ? 'Stop Selecting Elements' : 'Select Element', isEnabled: () => activeTab === 'preview', run: toggleElementSelector },
+        { id: 'preview.showConsole', category: 'Preview', title: activeTab === 'console' ? 'Show Preview' : 'Show Console', keybinding: 'Mod+`', run: () => onTabChange(activeTab === 'console' ? 'preview' : 'console') },
+        { id: 'preview.showTests', category: 'Preview', title: 'Show Tests', isEnabled: () => activeTab !== 'tests', run: () => onTabChange('tests') },
+        { id: 'tests.run', category: 'Tests', title: 'Run Tests', run: runTests },
+        { id: 'preview.toggleColorScheme', category: 'Preview', title: viewport.colorScheme === 'dark' ? 'Emulate Light Color Scheme' : 'Emulate Dark Color Scheme', run: () => onViewportChange({ ...viewport, colorScheme: viewport.colorScheme === 'dark' ? 'light' : 'dark' }) },
+        { id: 'preview.rotateViewport', category: 'Preview', title: 'Rotate Viewport', isEnabled: () => viewport.preset !== 'responsive', run: () => onViewportChange({ ...viewport, isRotated: !viewport.isRotated }) },
+    ], [isSelectorActive, activeTab, onTabChange, viewport, onViewportChange]));
+
+    useEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) return;
+        const observer = new ResizeObserver(([entry]) => setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+        observer.observe(stage);
+        return () => observer.disconnect();
+    }, []);
 
     const selectorScript = `
         let selectorActive = false;
@@ -201,13 +223,129 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
         }, true);
     `;
 
+    // Emulates the prefers-color-scheme media feature chosen in the toolbar by rewriting the media
+    // queries that test it, in the page's stylesheets and in matchMedia().
+    const colorSchemeScript = `
+        const colorSchemeFeature = /\\(\\s*prefers-color-scheme\\s*:\\s*(light|dark)\\s*\\)/g;
+        const originalMediaTexts = new WeakMap();
+        let colorScheme = ${JSON.stringify(colorSchemeRef.current)};
+
+        const emulateColorScheme = (mediaText) => mediaText.replace(colorSchemeFeature, (_, value) => value === colorScheme ? '(min-width: 0px)' : '(max-width: 0px) and (min-width: 1px)');
+
+        const applyColorSchemeToRules = (rules) => {
+            for (const rule of rules) {
+                if (rule instanceof CSSMediaRule) {
+                    if (!originalMediaTexts.has(rule)) originalMediaTexts.set(rule, rule.media.mediaText);
+                    const mediaText = emulateColorScheme(originalMediaTexts.get(rule));
+                    if (rule.media.mediaText !== mediaText) rule.media.mediaText = mediaText;
+                }
+                if (rule.cssRules) applyColorSchemeToRules(rule.cssRules);
+            }
+        };
+
+        const applyColorScheme = () => {
+            document.documentElement.style.colorScheme = colorScheme;
+            for (const sheet of document.styleSheets) {
+                try {
+                    applyColorSchemeToRules(sheet.cssRules);
+                } catch (e) {
+                    // Cross-origin stylesheets cannot be read.
+                }
+            }
+        };
+
+        const originalMatchMedia = window.matchMedia.bind(window);
+        window.matchMedia = (query) => originalMatchMedia(emulateColorScheme(query));
+
+        // Tailwind and imported .css files add or rewrite style elements while the app runs.
+        new MutationObserver(applyColorScheme).observe(document.head, { childList: true, subtree: true, characterData: true });
+
+        window.addEventListener('message', (event) => {
+            if (event.data && event.data.type === 'set-color-scheme') {
+                colorScheme = event.data.colorScheme;
+                applyColorScheme();
+            }
+        });
+
+        applyColorScheme();
+    `;
+
+    // Serialized once so the preview only rebuilds when file contents actually change.
+    const modulesKey = useMemo(() => JSON.stringify(modules), [modules]);
+    useEffect(() => {
+        let cancelled = false;
+        const sourceModules: PreviewModules = JSON.parse(modulesKey);
+        transpilePreviewModules(sourceModules)
+            .then(async ({ modules: compiledModules, sourceMaps }) => {
+                // The previous build stays on screen while new packages download.
+                const packages = await resolvePreviewPackages(findPackageImports(compiledModules), parseDependencies(sourceModules[PACKAGE_MANIFEST_PATH]));
+                if (!cancelled) setPreviewBuild({ compiledModules, sourceMaps, packages });
+            })
+            .catch(error => console.error("Failed to load the preview transpiler", error));
+        return () => { cancelled = true; };
+    }, [modulesKey]);
+
+    // Sends the running preview the modules that changed since its last update, or reloads it when the change cannot be hot swapped.
+    const syncPreview = () => {
+        const build = previewBuildRef.current;
+        const running = runningBuildRef.current;
+        if (!build || !running || build.compiledModules === running.compiledModules) return;
+        // The import map cannot change once the document has loaded.
+        if (JSON.stringify(build.packages) !== running.packagesKey) {
+            handleRefresh();
+            return;
+        }
+        const changedModules: PreviewModules = {};
+        for (const [path, code] of Object.entries(build.compiledModules)) {
+            if (running.compiledModules[path] !== code) changedModules[path] = code;
+        }
+        const removedPaths = Object.keys(running.compiledModules).filter(path => build.compiledModules[path] === undefined);
+        internalRef.current?.contentWindow?.postMessage({ type: 'hot-update', modules: changedModules, removedPaths }, '*');
+        sourceMapsRef.current = build.sourceMaps;
+        runningBuildRef.current = { ...running, compiledModules: build.compiledModules };
+    };
+
+    // Tests run again on every build, like a test runner in watch mode, so their results stay current for the AI.
+    useEffect(() => {
+        if (previewBuild) runTests();
+    }, [previewBuild]);
+
+    useEffect(() => {
+        if (!previewBuild) return;
+        // Until the preview runs (it is still loading or failed to render), there is nothing to update in place.
+        if (runningBuildRef.current) syncPreview();
+        else setDocumentBuild(previewBuild);
+    }, [previewBuild]);
 
     const srcDoc = useMemo(() => {
+        // Shown only while the transpiler loads for the first time.
+        if (!documentBuild) return '<!DOCTYPE html><html><body style="font-family: sans-serif; color: #6b7280; padding: 1rem;">Loading preview...</body></html>';
+        const moduleLoaderScript = buildModuleLoaderScript(documentBuild.compiledModules, PREVIEW_ENTRY_PATH, documentBuild.packages);
         const renderScript = `
             try {
-                ${code}
-                const root = ReactDOM.createRoot(document.getElementById('root'));
+                await window.__quantumModules.loadPackages();
+                const entry = window.__quantumModules.load(${JSON.stringify(PREVIEW_ENTRY_PATH)});
+                const App = entry.default || entry.App;
+                if (typeof App !== 'function' && typeof App !== 'object') {
+                    throw new Error(${JSON.stringify(PREVIEW_ENTRY_PATH)} + ' must export an App component, e.g. "export default App;".');
+                }
+                let canHotUpdate = true;
+                const root = ReactDOM.createRoot(document.getElementById('root'), {
+                    // The app was unmounted, so later changes cannot be swapped into it; the next one reloads the preview.
+                    onUncaughtError: (error) => { canHotUpdate = false; reportError(error); },
+                });
                 root.render(React.createElement(App));
+                window.addEventListener('message', (event) => {
+                    if (event.source !== window.parent || !event.data || event.data.type !== 'hot-update') return;
+                    let applied = false;
+                    try {
+                        applied = canHotUpdate && window.__quantumModules.hotUpdate(event.data.modules, event.data.removedPaths);
+                    } catch (err) {
+                        // Reloading shows the error the same way as on the first render.
+                    }
+                    if (!applied) window.parent.postMessage({ type: 'hot-update-failed' }, '*');
+                });
+                window.parent.postMessage({ type: 'preview-ready' }, '*');
             } catch (err) {
                 console.error(err);
                 const errorContainer = document.createElement('div');
@@ -228,38 +366,110 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
             <head>
                 <meta charset="UTF-8" />
                 <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-                <script src="https://cdn.tailwindcss.com"></script>
-                <script crossorigin src="https://unpkg.com/react@18/umd/react.development.js"></script>
-                <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-                <script crossorigin src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
+                ${buildRuntimeScriptTags(documentBuild.packages.imports)}
                 <style> body { background-color: #ffffff; color: #111827; padding: 0; margin: 0; } </style>
-                <script>${consoleScript}</script>
+                <script>${buildConsoleScript()}</script>
                 <script>${selectorScript}</script>
+                <script>${colorSchemeScript}</script>
             </head>
             <body>
                 <div id="root"></div>
-                <script type="text/babel" data-presets="react,typescript">${renderScript}</script>
+                <script type="module">${moduleLoaderScript}</script>
+                <script type="module">${renderScript}</script>
             </body>
             </html>
         `;
-    }, [code]);
+    }, [documentBuild]);
+
+    useEffect(() => {
+        sourceMapsRef.current = documentBuild?.sourceMaps || {};
+    }, [documentBuild]);
+
+    const testSrcDoc = useMemo(() => {
+        if (!testBuild || testPaths.length === 0) return '';
+        const moduleLoaderScript = buildModuleLoaderScript(testBuild.compiledModules, PREVIEW_ENTRY_PATH, testBuild.packages);
+        const runScript = `
+            await window.__quantumModules.loadPackages();
+            for (const path of ${JSON.stringify(testPaths)}) {
+                const file = await window.__quantumTest.runFile(path, () => window.__quantumModules.load(path));
+                window.parent.postMessage({ type: 'test-file-result', file }, '*');
+            }
+            window.parent.postMessage({ type: 'test-run-complete' }, '*');
+        `;
+        return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8" />
+                ${buildRuntimeScriptTags(testBuild.packages.imports)}
+                <script>${buildTestRunnerScript()}</script>
+            </head>
+            <body>
+                <div id="root"></div>
+                <script type="module">${moduleLoaderScript}</script>
+                <script type="module">${runScript}</script>
+            </body>
+            </html>
+        `;
+    }, [testBuild, testPaths]);
+
+    // Every run starts from a fresh document, so nothing one run leaves behind affects the next.
+    const testResultsRef = useRef<TestFileResult[]>([]);
+    useEffect(() => {
+        testResultsRef.current = [];
+        setTestResults([]);
+        setIsTestRunning(testPaths.length > 0);
+        if (testPaths.length === 0) onTestResults([]);
+    }, [testSrcDoc, testRunKey]);
+
+    // Points the stack traces and messages of a log at the workspace sources instead of the compiled modules.
+    const toSourceLog = (log: LogMessage): LogMessage => {
+        const mapLocations = (text: string) => mapPreviewLocations(text, sourceMapsRef.current);
+        const sourceLog: LogMessage = {
+            ...log,
+            message: mapLocations(log.message),
+            stack: log.stack && mapLocations(log.stack),
+            args: log.args?.map(arg => arg.stack ? { ...arg, stack: mapLocations(arg.stack) } : arg),
+        };
+        return { ...sourceLog, location: findErrorLocation(sourceLog) };
+    };
 
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
+            if (event.source === testFrameRef.current?.contentWindow && testBuild) {
+                if (event.data && event.data.type === 'test-file-result') {
+                    testResultsRef.current = [...testResultsRef.current, ...mapTestResults([event.data.file], testBuild.sourceMaps)];
+                    setTestResults(testResultsRef.current);
+                } else if (event.data && event.data.type === 'test-run-complete') {
+                    setIsTestRunning(false);
+                    onTestResults(testResultsRef.current);
+                }
+                return;
+            }
             if (event.source !== internalRef.current?.contentWindow) return;
 
             if (event.data && event.data.type === 'console') {
-                const { level, message } = event.data;
+                const { level, message, args, table, stack, groupIds, group } = event.data;
                 const validLevels: LogMessage['level'][] = ['log', 'debug', 'info', 'warn', 'error'];
                 const logLevel = validLevels.includes(level) ? level : 'log';
                 
-                const newLog = { level: logLevel, message, timestamp: new Date() };
+                const newLog = toSourceLog({ level: logLevel, message, timestamp: new Date(), args, table, stack, groupIds, group });
                 setLogs(prevLogs => [...prevLogs, newLog]);
                 onConsoleLog(newLog);
 
-                if (logLevel === 'error' && activeTab !== 'console') {
+                if (logLevel === 'error' && activeTab === 'preview') {
                     onTabChange('console');
                 }
+            } else if (event.data && event.data.type === 'console-result') {
+                const { isError, message, value } = event.data;
+                setLogs(prevLogs => [...prevLogs, toSourceLog({ level: isError ? 'error' : 'log', message, timestamp: new Date(), args: [value], replRole: 'result' })]);
+            } else if (event.data && event.data.type === 'console-clear') {
+                setLogs([]);
+            } else if (event.data && event.data.type === 'preview-ready') {
+                runningBuildRef.current = documentBuild && { compiledModules: documentBuild.compiledModules, packagesKey: JSON.stringify(documentBuild.packages) };
+                syncPreview();
+            } else if (event.data && event.data.type === 'hot-update-failed') {
+                handleRefresh();
             } else if (event.data && event.data.type === 'element-selected') {
                 onElementSelected({ selector: event.data.selector, text: event.data.text });
                 setIsSelectorActive(false);
@@ -268,11 +478,26 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
 
         window.addEventListener('message', handleMessage);
         return () => window.removeEventListener('message', handleMessage);
-    }, [activeTab, onConsoleLog, onTabChange, onElementSelected]);
+    }, [activeTab, documentBuild, testBuild, onConsoleLog, onTabChange, onTestResults, onElementSelected]);
 
+    // Hot updates keep the console, like the rest of the app's state.
     useEffect(() => {
         setLogs([]);
-    }, [code, refreshKey]);
+    }, [documentBuild, refreshKey]);
+
+    const handleEvaluate = (expression: string) => {
+        setLogs(prevLogs => [...prevLogs, { level: 'log', message: expression, timestamp: new Date(), replRole: 'input' }]);
+        internalRef.current?.contentWindow?.postMessage({ type: 'console-evaluate', expression }, '*');
+    };
+
+    const testCounts = countTestResults(testResults);
+
+    const isResponsive = viewport.preset === 'responsive';
+    const isHandheld = viewport.preset === 'mobile' || viewport.preset === 'tablet';
+    const frameSize = getViewportSize(viewport);
+    const scale = viewport.zoom === 'fit'
+        ? Math.max(0.1, Math.min(1, (stageSize.width - FRAME_MARGIN) / frameSize.width, (stageSize.height - FRAME_MARGIN) / frameSize.height))
+        : viewport.zoom;
 
     return (
         <div className="bg-[#1E1E1E] flex-grow flex flex-col h-full">
@@ -297,6 +522,18 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
                             </span>
                         )}
                     </button>
+                    <button
+                        onClick={() => onTabChange('tests')}
+                        className={`flex items-center gap-1.5 px-3 py-1 rounded-md ${activeTab === 'tests' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        <CheckCircleIcon className="h-4 w-4"/>
+                        <span>Tests</span>
+                        {testCounts.failed > 0 && (
+                            <span className="bg-red-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
+                                {testCounts.failed}
+                            </span>
+                        )}
+                    </button>
                 </div>
                  <div className="flex items-center gap-2">
                     <button onClick={toggleElementSelector} title="Select Element" className={`p-1.5 rounded-md ${isSelectorActive ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'}`}>
@@ -313,27 +550,47 @@ export const WebsitePreview = forwardRef<HTMLIFrameElement, WebsitePreviewProps>
                     </button>
                 </div>
             </div>
-            <div className="flex-grow bg-gray-900">
-                {activeTab === 'preview' ? (
+            {activeTab === 'preview' && <PreviewViewportToolbar viewport={viewport} onChange={onViewportChange} />}
+            <div className="flex-grow bg-gray-900 min-h-0">
+                {/* The preview stays loaded behind the console, so the console can evaluate expressions in it. */}
+                <div ref={stageRef} className={activeTab === 'preview' ? `w-full h-full flex ${isResponsive ? '' : 'overflow-auto p-4'}` : 'hidden'}>
+                    {/* The same elements wrap the iframe in every mode, so changing the viewport never reloads it. */}
+                    <div
+                        className={isResponsive ? 'w-full h-full' : `m-auto shrink-0 box-content overflow-hidden shadow-2xl ${isHandheld ? 'rounded-[1.75rem] border-[10px] border-gray-700' : 'rounded-md border border-gray-600'}`}
+                        style={isResponsive ? undefined : { width: frameSize.width * scale, height: frameSize.height * scale }}
+                    >
+                        <iframe
+                            ref={internalRef}
+                            key={refreshKey}
+                            srcDoc={srcDoc}
+                            onLoad={postColorScheme}
+                            title="Website Preview"
+                            className="bg-white"
+                            style={isResponsive
+                                ? { width: '100%', height: '100%' }
+                                : { width: frameSize.width, height: frameSize.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+                            sandbox="allow-scripts allow-same-origin allow-popups"
+                        />
+                    </div>
+                </div>
+                {activeTab === 'console' && (
+                    <ConsolePanel logs={logs} fixableError={fixableError} onAutoFix={onAutoFix} onOpenLocation={onOpenLocation} onEvaluate={handleEvaluate} onClear={() => setLogs([])} />
+                )}
+                {activeTab === 'tests' && (
+                    <TestsPanel results={testResults} testFileCount={testPaths.length} isRunning={isTestRunning} onRun={runTests} onFix={onFixTests} onOpenLocation={onOpenLocation} />
+                )}
+                {/* Off screen rather than display: none, so tests can measure the layout of what they render. */}
+                {testSrcDoc && (
                     <iframe
-                        ref={internalRef}
-                        key={refreshKey}
-                        srcDoc={srcDoc}
-                        title="Website Preview"
-                        className="w-full h-full bg-white"
-                        sandbox="allow-scripts allow-same-origin allow-popups"
+                        ref={testFrameRef}
+                        key={testRunKey}
+                        srcDoc={testSrcDoc}
+                        title="Test Runner"
+                        aria-hidden="true"
+                        tabIndex={-1}
+                        className="fixed -left-[10000px] top-0 w-[1024px] h-[768px] invisible"
+                        sandbox="allow-scripts allow-same-origin"
                     />
-                ) : (
-                    <div className="console-log">
-                        {fixableError && (
-                           <AutoFixPrompt error={fixableError} onFix={onAutoFix} />
-                        )}
-                        {logs.length > 0 ? (
-                            logs.map((log, index) => <ConsoleMessage key={index} log={log} />)
-                        ) : (
-                            <div className="p-4 text-gray-500">Console is empty. Use console.log() in your code to see output here.</div>
-                        )}
-                    </div>
                 )}
             </div>
         </div>
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import type { Workspace } from '../types';
 import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
+import { UploadIcon } from './icons/UploadIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
 
 interface WorkspacesPanelProps {
     workspaces: Workspace[];
@@ -9,6 +11,8 @@ interface WorkspacesPanelProps {
     onSwitchWorkspace: (id: string) => void;
     onCreateWorkspace: () => void;
     onDeleteWorkspace: (id: string) => void;
+    onExportWorkspace: (id: string) => void;
+    onImportWorkspace: (file: File) => void;
 }
 
 export const WorkspacesPanel: React.FC<WorkspacesPanelProps> = ({ 
@@ -16,8 +20,19 @@ export const WorkspacesPanel: React.FC<WorkspacesPanelProps> = ({
     activeWorkspaceId, 
     onSwitchWorkspace, 
     onCreateWorkspace,
-    onDeleteWorkspace
+    onDeleteWorkspace,
+    onExportWorkspace,
+    onImportWorkspace
 }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            onImportWorkspace(file);
+            e.target.value = '';
+        }
+    };
     
     const sortedWorkspaces = [...workspaces].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     
@@ -25,14 +40,31 @@ export const WorkspacesPanel: React.FC<WorkspacesPanelProps> = ({
         <div className="bg-[#1E1E1E] flex flex-col h-full w-full text-white">
             <div className="p-4 border-b border-gray-700 flex justify-between items-center shrink-0">
                 <h2 className="text-lg font-bold">Workspaces</h2>
-                <button 
-                    onClick={onCreateWorkspace}
-                    className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-500 transition-colors text-sm font-semibold"
-                    title="Create new workspace"
-                >
-                    <PlusIcon className="w-5 h-5"/>
-                    New
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="p-1.5 rounded-md text-gray-300 hover:bg-gray-600 transition-colors"
+                        title="Import from .zip"
+                    >
+                        <UploadIcon className="w-5 h-5"/>
+                    </button>
+                    <input
+                        type="file"
+                        ref={fileInputRef}
+                        onChange={handleFileChange}
+                        accept=".zip,application/zip"
+                        className="hidden"
+                        aria-hidden="true"
+                    />
+                    <button 
+                        onClick={onCreateWorkspace}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-500 transition-colors text-sm font-semibold"
+                        title="Create new workspace"
+                    >
+                        <PlusIcon className="w-5 h-5"/>
+                        New
+                    </button>
+                </div>
             </div>
             <div className="flex-grow overflow-y-auto">
                 {sortedWorkspaces.length > 0 ? (
@@ -48,6 +80,13 @@ export const WorkspacesPanel: React.FC<WorkspacesPanelProps> = ({
                                             {ws.tasks.length} tasks
                                         </p>
                                     </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onExportWorkspace(ws.id); }}
+                                        className="p-1.5 rounded-md text-gray-500 hover:bg-gray-600 hover:text-white opacity-0 group-hover:opacity-100 transition-all shrink-0"
+                                        title="Export as .zip"
+                                    >
+                                        <DownloadIcon className="w-5 h-5"/>
+                                    </button>
                                     <button 
                                         onClick={(e) => { e.stopPropagation(); onDeleteWorkspace(ws.id); }}
                                         className="p-1.5 rounded-md text-gray-500 hover:bg-red-900/50 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all shrink-0"
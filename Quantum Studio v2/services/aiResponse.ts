@@ -0,0 +1,209 @@
+import type { AIStructuredResponse, AppBlueprint, FileOperation, FileOperationType, StyleGuideline } from '../types';
+
+const FILE_OPERATION_TYPES: FileOperationType[] = ['CREATE_FILE', 'UPDATE_FILE', 'DELETE_FILE', 'CREATE_FOLDER', 'DELETE_FOLDER', 'RENAME_FILE', 'RENAME_FOLDER'];
+const STYLE_CATEGORIES: StyleGuideline['category'][] = ['Color', 'Layout', 'Typography', 'Iconography', 'Animation'];
+
+// Responses recorded before structured output used these text separators; they are still accepted.
+const LEGACY_BLUEPRINT_SEPARATOR = '---JSON_BLUEPRINT---';
+const LEGACY_OPERATIONS_SEPARATOR = '---JSON_OPERATIONS---';
+
+/**
+ * JSON Schema for every AI task response, sent to providers that support schema-constrained output.
+ * `message` comes first so it can be shown while the rest of the response is still streaming.
+ */
+export const AI_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        message: { type: 'string', description: 'Conversational reply to the user, in Markdown.' },
+        blueprint: {
+            type: 'object',
+            description: 'App Blueprint. Only for the planning phase; omit when writing code.',
+            properties: {
+                appName: { type: 'string' },
+                features: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { title: { type: 'string' }, description: { type: 'string' } },
+                        required: ['title', 'description'],
+                    },
+                },
+                styleGuidelines: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            category: { type: 'string', enum: STYLE_CATEGORIES },
+                            details: { type: 'string' },
+                            colors: { type: 'array', items: { type: 'string' }, description: 'Hex colors, only for the "Color" category.' },
+                        },
+                        required: ['category', 'details'],
+                    },
+                },
+            },
+            required: ['appName', 'features', 'styleGuidelines'],
+        },
+        operations: {
+            type: 'array',
+            description: 'File operations to apply. Omit when proposing a blueprint or only answering a question.',
+            items: {
+                type: 'object',
+                properties: {
+                    operation: { type: 'string', enum: FILE_OPERATION_TYPES },
+                    path: { type: 'string' },
+                    content: { type: 'string', description: 'Full file content, for CREATE_FILE and UPDATE_FILE.' },
+                    newPath: { type: 'string', description: 'Target path, for RENAME_FILE and RENAME_FOLDER.' },
+                    description: { type: 'string', description: 'One-sentence summary of this change.' },
+                },
+                required: ['operation', 'path', 'description'],
+            },
+        },
+    },
+    required: ['message'],
+};
+
+/** Either `response` is set, or `error` describes why the text is not a valid response. */
+export interface AIResponseParseResult {
+    response?: AIStructuredResponse;
+    error?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateBlueprint = (value: unknown, errors: string[]): value is AppBlueprint => {
+    if (!isObject(value)) { errors.push('blueprint must be an object'); return false; }
+    const start = errors.length;
+    if (typeof value.appName !== 'string' || !value.appName) errors.push('blueprint.appName must be a non-empty string');
+    if (!Array.isArray(value.features)) errors.push('blueprint.features must be an array');
+    else value.features.forEach((feature, i) => {
+        if (!isObject(feature) || typeof feature.title !== 'string' || typeof feature.description !== 'string') {
+            errors.push(`blueprint.features[${i}] must have string "title" and "description"`);
+        }
+    });
+    if (!Array.isArray(value.styleGuidelines)) errors.push('blueprint.styleGuidelines must be an array');
+    else value.styleGuidelines.forEach((guideline, i) => {
+        if (!isObject(guideline)) { errors.push(`blueprint.styleGuidelines[${i}] must be an object`); return; }
+        if (!STYLE_CATEGORIES.includes(guideline.category as StyleGuideline['category'])) errors.push(`blueprint.styleGuidelines[${i}].category must be one of ${STYLE_CATEGORIES.join(', ')}`);
+        if (typeof guideline.details !== 'string') errors.push(`blueprint.styleGuidelines[${i}].details must be a string`);
+        if (guideline.colors !== undefined && !(Array.isArray(guideline.colors) && guideline.colors.every(c => typeof c === 'string'))) {
+            errors.push(`blueprint.styleGuidelines[${i}].colors must be an array of strings`);
+        }
+    });
+    return errors.length === start;
+};
+
+const validateOperation = (value: unknown, i: number, errors: string[]): value is FileOperation => {
+    if (!isObject(value)) { errors.push(`operations[${i}] must be an object`); return false; }
+    const start = errors.length;
+    const type = value.operation as FileOperationType;
+    if (!FILE_OPERATION_TYPES.includes(type)) errors.push(`operations[${i}].operation must be one of ${FILE_OPERATION_TYPES.join(', ')}`);
+    if (typeof value.path !== 'string' || !value.path.trim()) errors.push(`operations[${i}].path must be a non-empty string`);
+    if ((type === 'CREATE_FILE' || type === 'UPDATE_FILE') && typeof value.content !== 'string') errors.push(`operations[${i}].content is required for ${type}`);
+    if ((type === 'RENAME_FILE' || type === 'RENAME_FOLDER') && (typeof value.newPath !== 'string' || !value.newPath.trim())) errors.push(`operations[${i}].newPath is required for ${type}`);
+    if (value.description !== undefined && typeof value.description !== 'string') errors.push(`operations[${i}].description must be a string`);
+    return errors.length === start;
+};
+
+/** Checks a parsed response against `AI_RESPONSE_SCHEMA`. Returns a list of problems, empty when valid. */
+export const validateAIResponse = (value: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isObject(value)) return ['the response must be a JSON object'];
+    if (typeof value.message !== 'string') errors.push('message must be a string');
+    if (value.blueprint !== undefined && value.blueprint !== null) validateBlueprint(value.blueprint, errors);
+    if (value.operations !== undefined && value.operations !== null) {
+        if (!Array.isArray(value.operations)) errors.push('operations must be an array');
+        else value.operations.forEach((op, i) => validateOperation(op, i, errors));
+    }
+    return errors;
+};
+
+const stripCodeFence = (text: string): string => text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)?.[1] ?? text;
+
+const toParseResult = (value: unknown): AIResponseParseResult => {
+    const errors = validateAIResponse(value);
+    if (errors.length > 0) return { error: errors.join('; ') };
+    const { message, blueprint, operations } = value as AIStructuredResponse;
+    return { response: { message, blueprint: blueprint || undefined, operations: operations || undefined } };
+};
+
+const parseJson = (text: string): AIResponseParseResult => {
+    try {
+        return toParseResult(JSON.parse(text));
+    } catch (e) {
+        return { error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+    }
+};
+
+const parseLegacyResponse = (text: string, separatorIdx: number, separator: string): AIResponseParseResult => {
+    const message = text.substring(0, separatorIdx).trim();
+    let json: unknown;
+    try {
+        json = JSON.parse(stripCodeFence(text.substring(separatorIdx + separator.length).trim()));
+    } catch (e) {
+        return { error: `Invalid JSON after ${separator}: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    if (separator === LEGACY_BLUEPRINT_SEPARATOR) return toParseResult({ message, blueprint: json });
+    return toParseResult({ message, operations: isObject(json) ? json.operations : json });
+};
+
+/**
+ * Parses a complete AI response. Accepts the structured JSON object (optionally wrapped in a
+ * code fence), the legacy separator format, and plain prose, which is treated as a message-only reply.
+ * Prose around a JSON object that does not parse is an error, so the repair pass can recover its operations.
+ */
+export const parseAIResponse = (text: string): AIResponseParseResult => {
+    const trimmed = text.trim();
+    for (const separator of [LEGACY_BLUEPRINT_SEPARATOR, LEGACY_OPERATIONS_SEPARATOR]) {
+        const idx = trimmed.indexOf(separator);
+        if (idx !== -1) return parseLegacyResponse(trimmed, idx, separator);
+    }
+    const unfenced = stripCodeFence(trimmed);
+    if (unfenced.startsWith('{')) return parseJson(unfenced);
+    const embedded = trimmed.match(/```json\s*(\{[\s\S]*\})\s*```/);
+    if (embedded) return parseJson(embedded[1]);
+    if (!trimmed) return { error: 'The response was empty.' };
+    const objectStart = trimmed.search(/\{\s*"/);
+    if (objectStart !== -1) {
+        const unfencedObject = parseJson(trimmed.substring(objectStart, trimmed.lastIndexOf('}') + 1));
+        if (unfencedObject.response) return unfencedObject;
+    }
+    if (objectStart !== -1 || trimmed.includes('"operations"')) {
+        return { error: 'The response has text around a JSON object that is incomplete or invalid. It must be a single JSON object.' };
+    }
+    return { response: { message: trimmed } };
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Reads the `message` field out of a response that is still streaming, so the reply can be
+ * shown before the JSON is complete. Stops at the first incomplete escape sequence.
+ */
+export const extractStreamingMessage = (partial: string): string => {
+    const text = partial.trimStart();
+    if (!text.startsWith('{') && !text.startsWith('```')) {
+        const separatorIdx = [LEGACY_BLUEPRINT_SEPARATOR, LEGACY_OPERATIONS_SEPARATOR].map(s => text.indexOf(s)).filter(i => i !== -1)[0];
+        return separatorIdx !== undefined ? text.substring(0, separatorIdx) : text;
+    }
+    const match = /"message"\s*:\s*"/.exec(text);
+    if (!match) return '';
+    let message = '';
+    for (let i = match.index + match[0].length; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') break;
+        if (ch !== '\\') { message += ch; continue; }
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.substring(i + 2, i + 6);
+            if (hex.length < 4) break;
+            message += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+        message += JSON_ESCAPES[next] ?? next;
+        i++;
+    }
+    return message;
+};
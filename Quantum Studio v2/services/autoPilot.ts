@@ -0,0 +1,71 @@
+import type { AITask, AutoPilotPolicy, FileOperation } from '../types';
+import { globToRegExp } from './workspaceSearch';
+import { formatTokenCount } from './tokenEstimate';
+
+export const MIN_AUTOPILOT_INTERVAL_SECONDS = 5;
+
+export const DEFAULT_AUTOPILOT_POLICY: AutoPilotPolicy = {
+    goal: '',
+    intervalSeconds: 10,
+    maxSteps: 10,
+    allowedPaths: '',
+    deniedPaths: '',
+    allowDeletions: false,
+    stopOnPreviewErrors: true,
+};
+
+const parseGlobs = (globs: string): RegExp[] => globs.split(',').map(glob => glob.trim()).filter(Boolean).map(globToRegExp);
+
+/**
+ * Why the operations may not be applied without asking, one reason per path; empty when the policy
+ * allows all of them. Renames must be allowed at both the old and the new path.
+ */
+export const findPolicyViolations = (operations: FileOperation[], policy: AutoPilotPolicy): string[] => {
+    const allowed = parseGlobs(policy.allowedPaths);
+    const denied = parseGlobs(policy.deniedPaths);
+    const violations: string[] = [];
+    for (const op of operations) {
+        if (!policy.allowDeletions && (op.operation === 'DELETE_FILE' || op.operation === 'DELETE_FOLDER')) {
+            violations.push(`Deletes ${op.path}; deletions are not allowed.`);
+            continue;
+        }
+        for (const path of op.newPath ? [op.path, op.newPath] : [op.path]) {
+            if (denied.some(glob => glob.test(path))) violations.push(`Changes ${path}, which matches a denied path.`);
+            else if (allowed.length > 0 && !allowed.some(glob => glob.test(path))) violations.push(`Changes ${path}, which is outside the allowed paths.`);
+        }
+    }
+    return violations;
+};
+
+export interface AutoPilotSession {
+    steps: number;
+    tokens: number;
+}
+
+/** The Auto-Pilot steps taken since `startedAt`, and the tokens they used. */
+export const getAutoPilotSession = (tasks: AITask[], startedAt: string | null): AutoPilotSession => {
+    // Auto-Pilot is off; loading a workspace sets the start of a session that predates this field.
+    if (!startedAt) return { steps: 0, tokens: 0 };
+    const since = new Date(startedAt).getTime();
+    const steps = tasks.filter(task => task.type === 'autopilot' && new Date(task.timestamp).getTime() >= since);
+    return { steps: steps.length, tokens: steps.reduce((sum, task) => sum + (task.usage ? task.usage.inputTokens + task.usage.outputTokens : 0), 0) };
+};
+
+/** Why Auto-Pilot must stop before its next step, or null while the session is within its limits. */
+export const getAutoPilotLimitReason = (policy: AutoPilotPolicy, session: AutoPilotSession): string | null => {
+    if (policy.maxSteps !== undefined && session.steps >= policy.maxSteps) return `It reached its limit of ${policy.maxSteps} steps.`;
+    // A step's usage is only known once it finishes, so the last step may go over the budget.
+    if (policy.maxTokens !== undefined && session.tokens >= policy.maxTokens) return `It used its budget of ${formatTokenCount(policy.maxTokens)} tokens.`;
+    return null;
+};
+
+/** The prompt of an Auto-Pilot step: the user's goal, and the limits the AI's changes must stay within. */
+export const buildAutoPilotPrompt = (policy: AutoPilotPolicy): string => {
+    const lines = [policy.goal.trim()
+        ? `Proactive AI Step: Work towards the user's goal below. Take the next most valuable step; a later step continues from there.\n---\n${policy.goal.trim()}\n---`
+        : 'Proactive AI Step: Analyze the context and perform the most logical improvement.'];
+    if (policy.allowedPaths.trim()) lines.push(`Only change files and folders matching these globs: ${policy.allowedPaths.trim()}.`);
+    if (policy.deniedPaths.trim()) lines.push(`Never change files and folders matching these globs: ${policy.deniedPaths.trim()}.`);
+    if (!policy.allowDeletions) lines.push('Do not delete files or folders.');
+    return lines.join('\n');
+};
@@ -0,0 +1,91 @@
+/**
+ * Central registry for every user-facing action, so the command palette and keyboard shortcuts
+ * can reach handlers that live in different components.
+ */
+export interface Command {
+    /** Stable id, used as the key of the keybinding map. */
+    id: string;
+    title: string;
+    category?: string;
+    /** Default shortcut, e.g. "Mod+Shift+P". `Mod` is Cmd on macOS and Ctrl elsewhere. */
+    keybinding?: string;
+    /** Hidden from the palette and ignored by shortcuts while it returns false. */
+    isEnabled?: () => boolean;
+    run: () => void;
+}
+
+/** User changes to the default shortcuts, by command id. `null` removes the default. */
+export type KeybindingOverrides = { [commandId: string]: string | null };
+
+export interface CommandRegistry {
+    /** Adds or replaces commands by id. Returns a function that removes exactly these commands again. */
+    register: (commands: Command[]) => () => void;
+    getAll: () => Command[];
+    execute: (id: string) => boolean;
+}
+
+export const createCommandRegistry = (): CommandRegistry => {
+    const commands = new Map<string, Command>();
+    return {
+        register: (added) => {
+            for (const command of added) commands.set(command.id, command);
+            return () => {
+                // A later registration with the same id may have replaced ours; leave it alone.
+                for (const command of added) if (commands.get(command.id) === command) commands.delete(command.id);
+            };
+        },
+        getAll: () => [...commands.values()].filter(command => command.isEnabled?.() ?? true),
+        execute: (id) => {
+            const command = commands.get(id);
+            if (!command || !(command.isEnabled?.() ?? true)) return false;
+            command.run();
+            return true;
+        },
+    };
+};
+
+export const getKeybinding = (command: Command, overrides: KeybindingOverrides): string | undefined =>
+    command.id in overrides ? overrides[command.id] || undefined : command.keybinding;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEYS_BY_CODE: { [code: string]: string } = {
+    Comma: ',', Period: '.', Slash: '/', Backslash: '\\', Semicolon: ';', Quote: "'",
+    BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Backquote: '`', Space: 'Space',
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+/**
+ * Turns a key event into the keybinding notation, or null for a lone modifier key.
+ * Letters and digits are read from `code`, so Shift and keyboard layouts do not change them.
+ */
+export const eventToKeybinding = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    let key: string;
+    if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+    else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+    else key = KEYS_BY_CODE[e.code] || (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+
+    const parts: string[] = [];
+    if (isMac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+    if (isMac && e.ctrlKey) parts.push('Ctrl');
+    if (!isMac && e.metaKey) parts.push('Meta');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+};
+
+/** Shortcuts must use a modifier (or be a function key), so they never swallow normal typing. */
+export const isValidKeybinding = (keybinding: string): boolean =>
+    /^(Mod|Ctrl|Meta|Alt)\+/.test(keybinding) || /^F\d{1,2}$/.test(keybinding.split('+').pop() || '');
+
+const MAC_SYMBOLS: { [part: string]: string } = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+
+/** Renders a keybinding the way the user's platform writes shortcuts. */
+export const formatKeybinding = (keybinding: string): string => {
+    const parts = keybinding.split('+');
+    if (isMac) return parts.map(part => MAC_SYMBOLS[part] || part).join('');
+    return parts.map(part => part === 'Mod' ? 'Ctrl' : part).join('+');
+};
@@ -0,0 +1,183 @@
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+    type: DiffLineType;
+    content: string;
+    oldLineNumber?: number;
+    newLineNumber?: number;
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+export interface SplitDiffRow {
+    left?: DiffLine;
+    right?: DiffLine;
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+// The search keeps O(D²) state for D changed lines; beyond this, files are diffed as one replaced block.
+const MAX_EDIT_DISTANCE = 1000;
+
+/** Keeps the lines both texts start and end with as context, and marks everything between as replaced. */
+const diffAsReplacement = (a: string[], b: string[]): DiffLine[] => {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let end = 0;
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+    const lines: DiffLine[] = [];
+    for (let i = 0; i < start; i++) lines.push({ type: 'context', content: a[i], oldLineNumber: i + 1, newLineNumber: i + 1 });
+    for (let i = start; i < a.length - end; i++) lines.push({ type: 'remove', content: a[i], oldLineNumber: i + 1 });
+    for (let i = start; i < b.length - end; i++) lines.push({ type: 'add', content: b[i], newLineNumber: i + 1 });
+    for (let i = end; i > 0; i--) lines.push({ type: 'context', content: a[a.length - i], oldLineNumber: a.length - i + 1, newLineNumber: b.length - i + 1 });
+    return lines;
+};
+
+/**
+ * Line-level diff using Myers' O(ND) algorithm. Returns every line of both inputs,
+ * tagged as unchanged context, an addition or a removal, with 1-based line numbers.
+ * Texts more than MAX_EDIT_DISTANCE changed lines apart are shown as one replaced block.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 2).fill(0);
+    // The walk back through step d only reads diagonals -d-1..d+1, so only that window of `v` is kept.
+    const trace: number[][] = [];
+
+    search:
+    for (let d = 0; d <= max; d++) {
+        if (d > MAX_EDIT_DISTANCE) return diffAsReplacement(a, b);
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) break search;
+        }
+    }
+
+    // Walk the trace backwards to recover the edit script.
+    const reversed: DiffLine[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const vd = trace[d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && vd[d + k] < vd[d + k + 2])) ? k + 1 : k - 1;
+        const prevX = vd[d + 1 + prevK];
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            reversed.push({ type: 'context', content: a[x - 1], oldLineNumber: x, newLineNumber: y });
+            x--; y--;
+        }
+        if (d > 0) {
+            if (x === prevX) reversed.push({ type: 'add', content: b[y - 1], newLineNumber: y });
+            else reversed.push({ type: 'remove', content: a[x - 1], oldLineNumber: x });
+        }
+        x = prevX;
+        y = prevY;
+    }
+    return reversed.reverse();
+};
+
+/** Groups changed lines into hunks, keeping `contextLines` unchanged lines around each change. */
+export const buildHunks = (lines: DiffLine[], contextLines: number = 3): DiffHunk[] => {
+    const hunks: DiffHunk[] = [];
+    const changeIndexes = lines.map((line, i) => line.type === 'context' ? -1 : i).filter(i => i !== -1);
+    if (changeIndexes.length === 0) return hunks;
+
+    let start = Math.max(0, changeIndexes[0] - contextLines);
+    let end = Math.min(lines.length - 1, changeIndexes[0] + contextLines);
+    const ranges: [number, number][] = [];
+    for (const idx of changeIndexes.slice(1)) {
+        if (idx - contextLines <= end + 1) {
+            end = Math.min(lines.length - 1, idx + contextLines);
+        } else {
+            ranges.push([start, end]);
+            start = Math.max(0, idx - contextLines);
+            end = Math.min(lines.length - 1, idx + contextLines);
+        }
+    }
+    ranges.push([start, end]);
+
+    for (const [from, to] of ranges) {
+        const hunkLines = lines.slice(from, to + 1);
+        // Line numbers where the hunk starts, derived from the nearest line that has one.
+        let oldStart = 1;
+        let newStart = 1;
+        for (let i = from; i >= 0; i--) {
+            if (lines[i].oldLineNumber !== undefined) { oldStart = lines[i].oldLineNumber! + (i === from ? 0 : 1); break; }
+        }
+        for (let i = from; i >= 0; i--) {
+            if (lines[i].newLineNumber !== undefined) { newStart = lines[i].newLineNumber! + (i === from ? 0 : 1); break; }
+        }
+        hunks.push({
+            oldStart,
+            oldLines: hunkLines.filter(l => l.type !== 'add').length,
+            newStart,
+            newLines: hunkLines.filter(l => l.type !== 'remove').length,
+            lines: hunkLines,
+        });
+    }
+    return hunks;
+};
+
+/** Pairs removals with the additions that replace them for a side-by-side view. */
+export const toSplitRows = (lines: DiffLine[]): SplitDiffRow[] => {
+    const rows: SplitDiffRow[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === 'context') {
+            rows.push({ left: lines[i], right: lines[i] });
+            i++;
+            continue;
+        }
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (i < lines.length && lines[i].type === 'remove') removed.push(lines[i++]);
+        while (i < lines.length && lines[i].type === 'add') added.push(lines[i++]);
+        for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+            rows.push({ left: removed[j], right: added[j] });
+        }
+    }
+    return rows;
+};
+
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+    added: lines.filter(l => l.type === 'add').length,
+    removed: lines.filter(l => l.type === 'remove').length,
+});
+
+/**
+ * Rebuilds `newText` from `oldText` with only some hunks applied: lines in rejected hunks
+ * keep their original content. Hunk indexes refer to `buildHunks(diffLines(oldText, newText), contextLines)`.
+ */
+export const applySelectedHunks = (oldText: string, newText: string, rejectedHunks: number[], contextLines: number = 3): string => {
+    if (rejectedHunks.length === 0) return newText;
+    const lines = diffLines(oldText, newText);
+    const hunks = buildHunks(lines, contextLines);
+    const rejectedLines = new Set<DiffLine>();
+    for (const index of rejectedHunks) {
+        hunks[index]?.lines.forEach(line => rejectedLines.add(line));
+    }
+    const result: string[] = [];
+    for (const line of lines) {
+        const keepOriginal = rejectedLines.has(line);
+        if (line.type === 'context' || (line.type === 'remove' && keepOriginal) || (line.type === 'add' && !keepOriginal)) {
+            result.push(line.content);
+        }
+    }
+    return result.join('\n');
+};
@@ -0,0 +1,178 @@
+import type { FileSystemTree, FileSystemNode, FileOperation, FolderNode, OperationApproval } from '../types';
+import { applySelectedHunks } from './diff';
+
+export const traversePath = (tree: FileSystemTree, path: string, createParents: boolean = false): { parent: FolderNode | null; node: FileSystemNode | null; key: string } => {
+    const parts = path.split('/').filter(p => p);
+    if (parts.length === 0) return { parent: null, node: tree, key: '' };
+    let current: any = tree;
+    for (let i = 0; i < parts.length - 1; i++) {
+        const part = parts[i];
+        if (current.type !== 'folder') return { parent: null, node: null, key: '' };
+        let child = current.children[part];
+        if (!child) {
+            if (createParents) {
+                child = { type: 'folder', children: {} };
+                current.children[part] = child;
+            } else { return { parent: null, node: null, key: '' }; }
+        }
+        current = child;
+    }
+    const key = parts[parts.length - 1];
+    if (current.type !== 'folder') return { parent: null, node: null, key: '' };
+    return { parent: current, node: current.children[key] || null, key };
+};
+
+export const applyFileOperations = (tree: FileSystemTree, operations: FileOperation[]): FileSystemTree => {
+    const newTree = JSON.parse(JSON.stringify(tree));
+    for (const op of operations) {
+        try {
+            switch (op.operation) {
+                case 'CREATE_FILE': case 'UPDATE_FILE': {
+                    const { parent, key } = traversePath(newTree, op.path, true);
+                    if (parent && key) parent.children[key] = { type: 'file', content: op.content || '' };
+                    else throw new Error(`Invalid path for CREATE/UPDATE: ${op.path}`);
+                    break;
+                }
+                case 'CREATE_FOLDER': {
+                    const { parent, key } = traversePath(newTree, op.path, true);
+                    if (parent && key && !parent.children[key]) parent.children[key] = { type: 'folder', children: {} };
+                    else if (!parent || !key) throw new Error(`Invalid path for CREATE_FOLDER: ${op.path}`);
+                    break;
+                }
+                case 'DELETE_FILE': case 'DELETE_FOLDER': {
+                    const { parent, node, key } = traversePath(newTree, op.path, false);
+                    if (parent && node && key) delete parent.children[key];
+                    break;
+                }
+                case 'RENAME_FILE': case 'RENAME_FOLDER': {
+                    if (!op.newPath) throw new Error(`Missing newPath for RENAME on ${op.path}`);
+                    const { parent: oldParent, node, key: oldKey } = traversePath(newTree, op.path, false);
+                    if (!oldParent || !node || !oldKey) throw new Error(`Source path not found for RENAME: ${op.path}`);
+                    delete oldParent.children[oldKey];
+                    const { parent: newParent, key: newKey } = traversePath(newTree, op.newPath, true);
+                    if (newParent && newKey) newParent.children[newKey] = node;
+                    else throw new Error(`Invalid destination path for RENAME: ${op.newPath}`);
+                    break;
+                }
+            }
+        } catch (e) { console.error(`Failed to apply operation:`, op, e); }
+    }
+    return newTree;
+};
+
+export const findNodeByPath = (path: string, tree: FileSystemTree): FileSystemNode | null => {
+  const parts = path.split('/').filter(Boolean);
+  let current: FileSystemNode | FileSystemTree = tree;
+  for (const part of parts) {
+      if (current.type === 'folder' && current.children[part]) current = current.children[part];
+      else return null;
+  }
+  return current;
+};
+
+export const updateFileContent = (tree: FileSystemTree, path: string, newContent: string): FileSystemTree => {
+    const newTree = JSON.parse(JSON.stringify(tree));
+    const { node } = traversePath(newTree, path);
+    if (node && node.type === 'file') node.content = newContent;
+    return newTree;
+};
+
+/**
+ * Returns the operations the user accepted, in their original order. Rejected hunks of an
+ * UPDATE_FILE are reverted to the file's current content in `tree` before it is applied.
+ */
+export const selectApprovedOperations = (tree: FileSystemTree, operations: FileOperation[], approvals: OperationApproval[]): FileOperation[] => {
+    return [...approvals].sort((a, b) => a.index - b.index).flatMap(approval => {
+        const op = operations[approval.index];
+        if (!op) return [];
+        if (!approval.rejectedHunks?.length || (op.operation !== 'UPDATE_FILE' && op.operation !== 'CREATE_FILE')) return [op];
+        const node = findNodeByPath(op.path, tree);
+        if (node?.type !== 'file') return [op];
+        return [{ ...op, content: applySelectedHunks(node.content, op.content || '', approval.rejectedHunks) }];
+    });
+};
+
+/** Flat map of file path -> content for every file in the tree. */
+export const flattenFiles = (tree: FileSystemTree): { [path: string]: string } => {
+    const files: { [path: string]: string } = {};
+    const traverse = (node: FileSystemNode, path: string) => {
+        if (node.type === 'file') files[path] = node.content;
+        else for (const [name, child] of Object.entries(node.children)) traverse(child, path ? `${path}/${name}` : name);
+    };
+    traverse(tree, '');
+    return files;
+};
+
+/** File operations that turn `from` into `to`. Folders are implied by the file paths. */
+export const diffTrees = (from: FileSystemTree, to: FileSystemTree): FileOperation[] => {
+    const fromFiles = flattenFiles(from);
+    const toFiles = flattenFiles(to);
+    const operations: FileOperation[] = [];
+    for (const [path, content] of Object.entries(toFiles)) {
+        if (!(path in fromFiles)) operations.push({ operation: 'CREATE_FILE', path, content });
+        else if (fromFiles[path] !== content) operations.push({ operation: 'UPDATE_FILE', path, content });
+    }
+    for (const path of Object.keys(fromFiles)) {
+        if (!(path in toFiles)) operations.push({ operation: 'DELETE_FILE', path });
+    }
+    return operations.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Undoes `operations` by copying the affected paths back from `before`, leaving every
+ * other file in `current` untouched.
+ */
+export const revertOperations = (current: FileSystemTree, before: FileSystemTree, operations: FileOperation[]): FileSystemTree => {
+    const newTree = JSON.parse(JSON.stringify(current));
+    const paths = new Set(operations.flatMap(op => op.newPath ? [op.path, op.newPath] : [op.path]));
+    for (const path of paths) {
+        const original = findNodeByPath(path, before);
+        if (original) {
+            const { parent, key } = traversePath(newTree, path, true);
+            if (parent && key) parent.children[key] = JSON.parse(JSON.stringify(original));
+        } else {
+            const { parent, node, key } = traversePath(newTree, path, false);
+            if (parent && node && key) delete parent.children[key];
+        }
+    }
+    return newTree;
+};
+
+// FNV-1a. Only used to notice that a file changed, so collisions are not a security concern.
+const hashString = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Per-file content hashes, recorded when a task starts so later changes to the tree can be detected. */
+export const fingerprintFiles = (tree: FileSystemTree): { [path: string]: string } => {
+    const hashes: { [path: string]: string } = {};
+    for (const [path, content] of Object.entries(flattenFiles(tree))) hashes[path] = hashString(content);
+    return hashes;
+};
+
+/** A single version string for a whole tree, derived from its file hashes. */
+export const treeVersion = (fileHashes: { [path: string]: string }): string =>
+    hashString(Object.keys(fileHashes).sort().map(path => `${path}:${fileHashes[path]}`).join('\n'));
+
+/**
+ * Paths touched by `operations` whose content in `tree` no longer matches `baseFileHashes`,
+ * i.e. files that changed after the AI read them. Folder operations cover every file inside the folder.
+ */
+export const findConflictingPaths = (tree: FileSystemTree, baseFileHashes: { [path: string]: string }, operations: FileOperation[]): string[] => {
+    const currentHashes = fingerprintFiles(tree);
+    const allPaths = new Set([...Object.keys(baseFileHashes), ...Object.keys(currentHashes)]);
+    const conflicts = new Set<string>();
+    for (const op of operations) {
+        for (const target of op.newPath ? [op.path, op.newPath] : [op.path]) {
+            for (const path of allPaths) {
+                if ((path === target || path.startsWith(`${target}/`)) && baseFileHashes[path] !== currentHashes[path]) conflicts.add(path);
+            }
+        }
+    }
+    return [...conflicts].sort();
+};
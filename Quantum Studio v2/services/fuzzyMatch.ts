@@ -0,0 +1,58 @@
+export interface FuzzyMatch {
+    score: number;
+    /** Indexes of the matched characters in the text, for highlighting. */
+    positions: number[];
+}
+
+const isWordStart = (text: string, index: number): boolean => {
+    if (index === 0) return true;
+    const previous = text[index - 1];
+    if ('/\\.-_ :'.includes(previous)) return true;
+    // camelCase and PascalCase humps.
+    return previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase();
+};
+
+const matchSubsequence = (needle: string, text: string, preferWordStarts: boolean): FuzzyMatch | null => {
+    const haystack = text.toLowerCase();
+    const positions: number[] = [];
+    let score = 0;
+    let searchFrom = 0;
+    for (const ch of needle) {
+        let index = haystack.indexOf(ch, searchFrom);
+        if (index === -1) return null;
+        const previous = positions[positions.length - 1];
+        if (preferWordStarts && index !== previous + 1) {
+            for (let i = index; i !== -1; i = haystack.indexOf(ch, i + 1)) {
+                if (isWordStart(text, i)) { index = i; break; }
+            }
+        }
+        score += 1;
+        if (previous !== undefined && index === previous + 1) score += 5;
+        if (isWordStart(text, index)) score += 8;
+        if (previous !== undefined) score -= Math.min(index - previous - 1, 5);
+        positions.push(index);
+        searchFrom = index + 1;
+    }
+    // Shorter texts are closer matches.
+    return { score: score - text.length * 0.05, positions };
+};
+
+/**
+ * Matches `query` as a case-insensitive subsequence of `text`, the way editor quick-open does.
+ * Consecutive characters and characters that start a word (after a separator or at a camelCase
+ * hump) score higher. Returns null when not every character is found.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+    const needle = query.replace(/\s+/g, '').toLowerCase();
+    if (!needle) return { score: 0, positions: [] };
+    // Jumping ahead to word starts can skip past characters a later letter needed, so fall back to the plain match.
+    return matchSubsequence(needle, text, true) || matchSubsequence(needle, text, false);
+};
+
+/** Matches a file path, preferring matches inside the file name over ones spread across folders. */
+export const fuzzyMatchPath = (query: string, path: string): FuzzyMatch | null => {
+    const nameStart = path.lastIndexOf('/') + 1;
+    const inName = fuzzyMatch(query, path.substring(nameStart));
+    if (inName) return { score: inName.score + 10, positions: inName.positions.map(i => i + nameStart) };
+    return fuzzyMatch(query, path);
+};
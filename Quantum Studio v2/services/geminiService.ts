@@ -1,47 +1,28 @@
-import { GoogleGenAI } from "@google/genai";
-import type { FileSystemTree, FileSystemNode, AITask, FileOperation, LogMessage, WorkspaceUiState } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const model = 'gemini-2.5-flash';
-
-const serializeFileSystem = (tree: FileSystemTree): string => {
-    let fileContents = "";
-    const traverse = (node: FileSystemNode, path: string) => {
-        if (node.type === 'file') {
-            fileContents += `[START OF FILE: ${path}]\n`;
-            fileContents += node.content;
-            fileContents += `\n[END OF FILE: ${path}]\n\n`;
-        } else if (node.type === 'folder') {
-            const sortedChildren = Object.entries(node.children).sort(([nameA], [nameB]) => nameA.localeCompare(nameB));
-            for (const [name, childNode] of sortedChildren) {
-                traverse(childNode, path ? `${path}/${name}` : name);
-            }
-        }
-    };
-
-    traverse(tree, '');
-    
-    if (!fileContents) {
-        return "The project is currently empty.\n";
-    }
-    
-    return `Here is the current file structure and content:\n\n${fileContents}`;
-};
-
-const serializeTaskHistory = (tasks: AITask[]): string => {
-    // Get recent tasks, oldest first, to build a chronological memory.
+import type { FileSystemTree, AITask, FileOperation, LogMessage, WorkspaceUiState, AIProviderSettings, AIStructuredResponse, VisualCheckpoint, TestFileResult, TaskContextReport } from '../types';
+import { getProvider, recordMockResponse } from './providers';
+import { AI_RESPONSE_SCHEMA, parseAIResponse } from './aiResponse';
+import { parseDependencies, PACKAGE_MANIFEST_PATH, SEEDED_PACKAGES } from './previewPackages';
+import { describeViewport } from './previewViewport';
+import { describeFailingCheckpoints } from './visualCheckpoints';
+import { describeFailingTests } from './previewTests';
+import { estimateTokens } from './tokenEstimate';
+import { buildFileContext, DEFAULT_CONTEXT_BUDGET, type ContextHints } from './taskContext';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Earlier tasks may take this share of the context budget; the files get what the rest of the request leaves.
+const HISTORY_BUDGET_SHARE = 0.15;
+// A long prompt or log must still leave room for an outline of the project.
+const MIN_FILE_BUDGET = 4_000;
+
+const serializeTaskHistory = (tasks: AITask[], budgetTokens: number): { text: string; taskCount: number } => {
     const relevantTasks = tasks
         .filter(t => t.userPrompt && (t.assistantResponse || t.error))
-        .slice(0, 10) // Limit to last 10 relevant tasks
-        .reverse();
+        .slice(0, 10); // Limit to last 10 relevant tasks
 
-    if (relevantTasks.length === 0) return 'This is the first message in the conversation.';
+    if (relevantTasks.length === 0) return { text: 'This is the first message in the conversation.', taskCount: 0 };
 
-    const historySummary = relevantTasks.map(task => {
+    const summaries = relevantTasks.map(task => {
         const userLine = `User: ${task.userPrompt}`;
         let assistantLines = [];
 
@@ -53,18 +34,47 @@ const serializeTaskHistory = (tasks: AITask[]): string => {
             } else if (task.status === 'pending_blueprint_approval' && task.assistantResponse.blueprint) {
                 assistantLines.push(`(System note: I have proposed a blueprint and am waiting for user approval before proceeding to code.)`);
             }
+
+            const proposed = task.assistantResponse.operations || [];
+            if (task.appliedOperations && task.appliedOperations.length < proposed.length) {
+                const skipped = proposed.filter((_, index) => !task.appliedOperations!.some(a => a.index === index)).map(op => `${op.operation} ${op.path}`);
+                assistantLines.push(`(System note: The user applied only ${task.appliedOperations.length} of my ${proposed.length} proposed operations. Rejected: ${skipped.join(', ')}.)`);
+            }
         }
         
+        if (task.responseRepairs && task.responseRepairs.length > 0) {
+            assistantLines.push(`(System note: My response did not match the required format and had to be repaired. Errors: ${task.responseRepairs.join('; ')}. I must follow the format.)`);
+        }
+
+        const repairs = task.verification?.attempts.filter(attempt => attempt.repair) || [];
+        for (const { repair } of repairs) {
+            assistantLines.push(`(System note: My changes made the preview fail, so I repaired them: ${repair!.content})`);
+        }
+        if (task.verification?.status === 'failed') {
+            assistantLines.push(`(System note: The preview still failed after my changes${repairs.length > 0 ? ` and ${repairs.length} repair attempt(s)` : ''}.)`);
+        }
+
+        if (task.status === 'cancelled') {
+            assistantLines.push(`(System note: The user cancelled this response before it finished.)`);
+        }
+
         if (task.status === 'error' && task.error) {
             assistantLines.push(`(System note: I encountered an error. Error message: "${task.error}". I must not repeat this mistake.)`);
         }
         
         return `${userLine}\n${assistantLines.join('\n')}`;
-    }).join('\n\n');
+    });
 
-    if (!historySummary) return 'This is the first message in the conversation.';
+    // Keep the newest tasks that fit the budget, oldest first to build a chronological memory.
+    let used = 0;
+    const included = summaries.filter(summary => {
+        used += estimateTokens(summary);
+        return used <= budgetTokens;
+    }).reverse();
+    const omitted = relevantTasks.length - included.length;
+    const historySummary = `${omitted > 0 ? `(System note: ${omitted} earlier task(s) were left out to fit the context budget.)\n\n` : ''}${included.join('\n\n')}`;
 
-    return `For context, here is the conversation history for this session. Pay close attention to system notes about errors or pending actions:\n${historySummary}\n\n---\n`;
+    return { text: `For context, here is the conversation history for this session. Pay close attention to system notes about errors or pending actions:\n${historySummary}\n\n---\n`, taskCount: included.length };
 };
 
 const serializeLogs = (logs: LogMessage[]): string => {
@@ -72,6 +82,23 @@ const serializeLogs = (logs: LogMessage[]): string => {
     return logs.slice(0, 20).map(log => `[${log.level.toUpperCase()} at ${log.timestamp.toISOString()}] ${log.message}`).join('\n');
 };
 
+// The parts of the UI state that tell the AI what the user is looking at.
+const describeUiState = (uiState: WorkspaceUiState): string => JSON.stringify({
+    activeEditorPath: uiState.activeEditorPath,
+    openEditorPaths: uiState.openEditorPaths,
+    secondaryEditorPath: uiState.editorLayout === 'two_editors' ? uiState.secondaryEditorPath : null,
+    previewTab: uiState.previewTab,
+    isAutoPilotOn: uiState.isAutoPilotOn,
+});
+
+const describePackages = (tree: FileSystemTree): string => {
+    const manifest = tree.children[PACKAGE_MANIFEST_PATH];
+    const dependencies = parseDependencies(manifest?.type === 'file' ? manifest.content : undefined);
+    const seeded = Object.entries(SEEDED_PACKAGES).map(([name, version]) => `\`${name}@${version}\``).join(', ');
+    const declared = Object.entries(dependencies).map(([name, range]) => `\`${name}@${range}\``).join(', ');
+    return `Pre-installed (work offline, no \`${PACKAGE_MANIFEST_PATH}\` entry needed): ${seeded}. Declared in \`${PACKAGE_MANIFEST_PATH}\`: ${declared || 'none'}.`;
+};
+
 export const runTaskStream = async function* (
     prompt: string, 
     installedExtensions: string[], 
@@ -79,7 +106,13 @@ export const runTaskStream = async function* (
     taskHistory: AITask[],
     uiState: WorkspaceUiState,
     logs: LogMessage[],
-    annotatedImageB64: string | null
+    testResults: TestFileResult[],
+    failingCheckpoints: VisualCheckpoint[],
+    contextHints: ContextHints,
+    annotatedImageB64: string | null,
+    aiSettings: AIProviderSettings,
+    signal?: AbortSignal,
+    onRequest?: (request: { inputTokens: number; context: TaskContextReport }) => void
 ): AsyncGenerator<string, void, undefined> {
 
     const systemInstruction = `You are "Quantum Architect," a world-class AI software architect and principal engineer integrated into the Quantum Code IDE. Your function is not to be a passive tool, but a driving architectural force.
@@ -94,43 +127,42 @@ Your primary workflow is a two-step process: Plan, then Prototype.
 2.  **PROTOTYPING PHASE**: Only after the user approves your blueprint will you proceed to write code. You will receive a follow-up prompt containing the approved blueprint. Your job is then to execute that plan flawlessly. If the user's request is a small, incremental change to an existing project (e.g., "change the button color to blue", "fix this error"), you may skip the planning phase and directly generate file operations.
 
 ---
-**BLUEPRINT RESPONSE FORMAT**
+**RESPONSE FORMAT**
 
-When you generate a blueprint, your response MUST adhere to this exact format:
-1.  **Conversational Introduction**: A short message presenting the plan (e.g., "OK, here's a plan for how we'll prototype this app...").
-2.  **Blueprint Separator**: A new line with the exact text: \`---JSON_BLUEPRINT---\`
-3.  **JSON Block**: A single, valid JSON object matching the \`AppBlueprint\` schema:
+Every response MUST be a single JSON object, with no text or markdown code fences around it:
+*   \`message\` (required, always first): Your conversational reply, in Markdown. When proposing a blueprint, present the plan (e.g., "OK, here's a plan for how we'll prototype this app..."). When writing code, explain the code you're providing.
+*   \`blueprint\` (Planning Phase only): An \`AppBlueprint\` object:
     *   \`appName\`: A creative and fitting name for the app.
     *   \`features\`: An array of objects, each with a \`title\` and \`description\`.
     *   \`styleGuidelines\`: An array of objects, each with:
         *   \`category\`: One of "Color", "Layout", "Typography", "Iconography", "Animation".
         *   \`details\`: A string describing the style choice.
         *   \`colors\` (only for "Color" category): An array of hex color strings.
+*   \`operations\` (Prototyping Phase or incremental requests): An array of file operations, each with:
+    *   \`operation\`: One of "CREATE_FILE", "UPDATE_FILE", "DELETE_FILE", "CREATE_FOLDER", "DELETE_FOLDER", "RENAME_FILE", "RENAME_FOLDER".
+    *   \`path\`: The workspace path, e.g. "src/components/Button.tsx".
+    *   \`content\`: The full new file content, for CREATE_FILE and UPDATE_FILE.
+    *   \`newPath\`: The target path, for RENAME_FILE and RENAME_FOLDER.
+    *   \`description\`: A concise, one-sentence summary in plain text of the changes made *for that specific file operation*.
 
-Example Blueprint JSON:
+Never include both \`blueprint\` and \`operations\`. Omit both when you are only answering a question.
+
+Example blueprint response:
 \`\`\`json
 {
-  "appName": "LocalMind",
-  "features": [
-    { "title": "Vault Init", "description": "Initialize a local folder to serve as the notes vault..." }
-  ],
-  "styleGuidelines": [
-    { "category": "Color", "details": "A modern, dark theme with purple and blue accents.", "colors": ["#1E1E1E", "#3B82F6", "#8B5CF6"] }
-  ]
+  "message": "OK, here's a plan for how we'll prototype LocalMind...",
+  "blueprint": {
+    "appName": "LocalMind",
+    "features": [
+      { "title": "Vault Init", "description": "Initialize a local folder to serve as the notes vault..." }
+    ],
+    "styleGuidelines": [
+      { "category": "Color", "details": "A modern, dark theme with purple and blue accents.", "colors": ["#1E1E1E", "#3B82F6", "#8B5CF6"] }
+    ]
+  }
 }
 \`\`\`
 
----
-**CODING RESPONSE FORMAT**
-
-When you are in the Prototyping Phase or handling an incremental request, your response MUST use this format:
-1.  **Conversational Reply**: An explanation of the code you're providing.
-2.  **Operations Separator**: A new line with the exact text: \`---JSON_OPERATIONS---\`
-3.  **JSON Block**: A single, valid JSON object with an "operations" array.
-    *   For each operation, you MUST include a \`description\` field: a concise, one-sentence summary in plain text of the changes made *for that specific file operation*.
-    *   The 'content' field must be a valid, escaped JSON string.
-    *   Do NOT add any text or markdown formatting (like \`\`\`json\`) after the separator.
-
 ---
 **CORE PHILOSOPHY: Visionary Engineering**
 
@@ -154,50 +186,91 @@ When the user prompt indicates you are in an autonomous or proactive mode (e.g.,
 ---
 **ENVIRONMENT & RESPONSE FORMAT**
 
-*   **Entry Point**: The live preview renders ONLY \`src/App.tsx\`.
-*   **React is Global**: Do not add \`import React from 'react';\`.
-*   **CRITICAL PREVIEW CONSTRAINT (Bundling)**: The preview environment does **not** support module imports. Therefore, while you MUST create separate files for components for good organization (e.g., a \`CREATE_FILE\` operation for \`src/components/Button.tsx\`), you MUST **ALSO** update \`src/App.tsx\` to include the code from that new component. You are effectively "inlining" or "bundling" your components into \`App.tsx\` so the preview works. The user understands this is a previewer limitation and values the clean file structure you are creating.
+*   **Entry Point**: The live preview renders \`src/App.tsx\`. It MUST export the root component, preferably as \`export default App;\`.
+*   **Modules**: Every file in the project is a real module. Use relative \`import\`/\`export\` between files (e.g. \`import { Button } from './components/Button';\`); extensions and \`index\` files are resolved automatically. Never duplicate a component's code into \`src/App.tsx\`.
+*   **React is Global**: The preview runs React 19. \`react\`, \`react-dom\` and \`react-dom/client\` can be imported, but \`React\` is also available globally.
+*   **npm Packages**: ${describePackages(fileSystem)} To use any other package, add it to \`dependencies\` in the root \`${PACKAGE_MANIFEST_PATH}\` and import it normally; it is downloaded as a browser ES module. Packages that need Node.js APIs or a build step do not work.
+*   **Styles**: Tailwind CSS v4 utility classes are available. Importing a \`.css\` file injects it into the page. JSON files can be imported as data.
+*   **Tests**: Files named \`*.test.*\` or \`*.spec.*\` with a \`.ts\`, \`.tsx\`, \`.js\` or \`.jsx\` extension run in the IDE's Tests tab, in a browser page with a DOM. They get the Jest/Vitest API (\`describe\`, \`it\`/\`test\`, \`expect\`, \`beforeEach\` and the other hooks, \`vi.fn()\`, \`vi.spyOn()\`) as globals or from \`import { ... } from 'vitest'\`. Module mocking and fake timers are not available.
 `;
     
-    const historyContext = serializeTaskHistory(taskHistory);
-    const fileContext = serializeFileSystem(fileSystem);
+    const budgetTokens = aiSettings.contextBudget || DEFAULT_CONTEXT_BUDGET;
     const extensionsContext = installedExtensions.length > 0
         ? `\n\n(Context: User has these extensions installed: [${installedExtensions.join(', ')}]. Acknowledge and use them where appropriate.)`
         : '';
     
+    const failingTests = describeFailingTests(testResults);
     const realTimeContext = `
 ---
 **REAL-TIME CONTEXT:**
-- Current UI State: ${JSON.stringify(uiState)}
+- Current UI State: ${describeUiState(uiState)}
+- Preview Viewport: ${describeViewport(uiState.previewViewport)}. Layout requests (e.g. "fix the mobile layout") refer to what the user sees at this size.
 - Recent Console Logs:
 ${serializeLogs(logs)}
+- Failing Tests: ${failingTests ? `\n${failingTests}` : testResults.length > 0 ? 'none, all tests pass' : 'none, the project has no tests'}
+- Failing Visual Checkpoints: ${failingCheckpoints.length > 0 ? `these views no longer look like the versions the user approved. Unless the user asked for the change, restore the approved look.\n${describeFailingCheckpoints(failingCheckpoints)}` : 'none'}
 ---
 `;
 
-    const fullPrompt = `${historyContext}${fileContext}${realTimeContext}\nUser prompt: ${prompt}${extensionsContext}`;
+    // History gives way first, so the files keep their minimum within the budget; they get whatever the rest leaves.
+    // Only a prompt and real-time context that alone exceed the budget push the request over it.
+    const requestTokens = estimateTokens(systemInstruction) + estimateTokens(realTimeContext) + estimateTokens(prompt) + estimateTokens(extensionsContext);
+    const history = serializeTaskHistory(taskHistory, Math.min(Math.floor(budgetTokens * HISTORY_BUDGET_SHARE), budgetTokens - requestTokens - MIN_FILE_BUDGET));
+    const fileContext = buildFileContext(fileSystem, prompt, uiState, contextHints, Math.max(MIN_FILE_BUDGET, budgetTokens - requestTokens - estimateTokens(history.text)));
+    const fullPrompt = `${history.text}${fileContext.text}${realTimeContext}\nUser prompt: ${prompt}${extensionsContext}`;
+
+    const inputTokens = estimateTokens(systemInstruction) + estimateTokens(fullPrompt);
+    onRequest?.({ inputTokens, context: { budgetTokens, inputTokens, files: fileContext.files, historyTasks: history.taskCount } });
+
+    const provider = getProvider(aiSettings.providerId);
+    const stream = provider.generateStream({ systemInstruction, prompt: fullPrompt, userPrompt: prompt, imageB64: annotatedImageB64, responseSchema: AI_RESPONSE_SCHEMA, signal }, aiSettings);
 
-    const promptParts = [];
-    promptParts.push({ text: fullPrompt });
+    let fullResponseText = "";
+    for await (const chunk of stream) {
+        fullResponseText += chunk;
+        yield chunk;
+    }
 
-    if (annotatedImageB64) {
-        const base64Data = annotatedImageB64.split(',')[1];
-        promptParts.push({
-            inlineData: {
-                mimeType: 'image/jpeg',
-                data: base64Data,
-            },
-        });
+    if (provider.id !== 'mock' && fullResponseText) {
+        recordMockResponse(prompt, fullResponseText);
     }
+};
 
-    const result = await ai.models.generateContentStream({
-        model,
-        contents: { parts: promptParts },
-        config: {
-            systemInstruction
+const repairSystemInstruction = `You repair malformed responses from an AI coding assistant. You will receive a response that failed validation and the validation error.
+Return the same response as a single JSON object that matches this JSON Schema, with no text or code fences around it:
+${JSON.stringify(AI_RESPONSE_SCHEMA)}
+Keep the original message, blueprint and file contents. Only fix the structure: escaping, missing or misnamed fields, and invalid values.`;
+
+/**
+ * Parses a complete task response. When it is malformed, asks the provider to repair it
+ * (up to MAX_REPAIR_ATTEMPTS times) instead of failing the task outright. `onRepairAttempt`
+ * receives the validation error before each attempt, for the task to record.
+ */
+export const resolveTaskResponse = async (
+    userPrompt: string,
+    responseText: string,
+    aiSettings: AIProviderSettings,
+    signal?: AbortSignal,
+    onRepairAttempt?: (error: string) => void
+): Promise<AIStructuredResponse> => {
+    let result = parseAIResponse(responseText);
+    let text = responseText;
+    const provider = getProvider(aiSettings.providerId);
+
+    for (let attempt = 1; !result.response && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        onRepairAttempt?.(result.error!);
+        const prompt = `Validation error: ${result.error}\n\nResponse to repair:\n${text}`;
+        text = '';
+        for await (const chunk of provider.generateStream({ systemInstruction: repairSystemInstruction, prompt, userPrompt: `repair: ${userPrompt}`, responseSchema: AI_RESPONSE_SCHEMA, signal }, aiSettings)) {
+            text += chunk;
         }
-    });
+        result = parseAIResponse(text);
+        // Replace the recording of the malformed response so the mock provider replays the repaired one.
+        if (result.response && provider.id !== 'mock') recordMockResponse(userPrompt, JSON.stringify(result.response));
+    }
 
-    for await (const chunk of result) {
-        yield chunk.text;
+    if (!result.response) {
+        throw new Error(`The AI response could not be parsed, even after ${MAX_REPAIR_ATTEMPTS} repair attempts. ${result.error}`);
     }
+    return result.response;
 };
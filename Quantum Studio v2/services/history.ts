@@ -0,0 +1,30 @@
+import type { Workspace, WorkspaceSnapshot, SnapshotReason } from '../types';
+
+const MAX_SNAPSHOTS = 30;
+// Keystrokes in the same file within this window share one snapshot.
+const MANUAL_EDIT_BATCH_MS = 60_000;
+
+interface SnapshotDetails {
+    reason: SnapshotReason;
+    label: string;
+    taskId?: string;
+    editedPath?: string;
+}
+
+/**
+ * Records the workspace's current file tree in its history. Call this on the workspace
+ * *before* replacing its `fileSystem`, so the snapshot captures the state being left behind.
+ */
+export const withSnapshot = (ws: Workspace, details: SnapshotDetails): Workspace => {
+    const history = ws.history || [];
+    const latest = history[0];
+    if (details.reason === 'manual_edit' && latest?.reason === 'manual_edit' && latest.editedPath === details.editedPath
+        && Date.now() - new Date(latest.createdAt).getTime() < MANUAL_EDIT_BATCH_MS) {
+        return ws;
+    }
+    const snapshot: WorkspaceSnapshot = { id: crypto.randomUUID(), createdAt: new Date().toISOString(), fileSystem: ws.fileSystem, ...details };
+    return { ...ws, history: [snapshot, ...history].slice(0, MAX_SNAPSHOTS) };
+};
+
+export const findTaskSnapshot = (ws: Workspace, taskId: string): WorkspaceSnapshot | undefined =>
+    ws.history?.find(s => s.taskId === taskId && (s.reason === 'ai_task' || s.reason === 'autopilot'));
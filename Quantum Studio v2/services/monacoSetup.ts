@@ -0,0 +1,110 @@
+import * as monaco from 'monaco-editor';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+import TsWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker';
+import CssWorker from 'monaco-editor/esm/vs/language/css/css.worker?worker';
+import JsonWorker from 'monaco-editor/esm/vs/language/json/json.worker?worker';
+// Type declarations are loaded by relative path because the packages' "exports" maps hide their files.
+import reactTypes from '../node_modules/@types/react/index.d.ts?raw';
+import reactGlobalTypes from '../node_modules/@types/react/global.d.ts?raw';
+import reactJsxRuntimeTypes from '../node_modules/@types/react/jsx-runtime.d.ts?raw';
+import reactDomTypes from '../node_modules/@types/react-dom/index.d.ts?raw';
+import reactDomClientTypes from '../node_modules/@types/react-dom/client.d.ts?raw';
+import csstypeTypes from '../node_modules/csstype/index.d.ts?raw';
+import type { FileSystemTree } from '../types';
+import { flattenFiles } from './fileSystem';
+
+export { monaco };
+
+self.MonacoEnvironment = {
+    getWorker: (_workerId, label) => {
+        if (label === 'typescript' || label === 'javascript') return new TsWorker();
+        if (label === 'css' || label === 'scss' || label === 'less') return new CssWorker();
+        if (label === 'json') return new JsonWorker();
+        return new EditorWorker();
+    },
+};
+
+// The preview also exposes React as a global, so files that use it without importing it are valid.
+const previewGlobalsTypes = `import * as ReactNamespace from 'react';
+declare global {
+    const React: typeof ReactNamespace;
+}
+export {};`;
+
+const extraLibs: [string, string][] = [
+    [reactTypes, 'file:///node_modules/@types/react/index.d.ts'],
+    [reactGlobalTypes, 'file:///node_modules/@types/react/global.d.ts'],
+    [reactJsxRuntimeTypes, 'file:///node_modules/@types/react/jsx-runtime.d.ts'],
+    [reactDomTypes, 'file:///node_modules/@types/react-dom/index.d.ts'],
+    [reactDomClientTypes, 'file:///node_modules/@types/react-dom/client.d.ts'],
+    [csstypeTypes, 'file:///node_modules/csstype/index.d.ts'],
+    [previewGlobalsTypes, 'file:///quantum-preview-globals.d.ts'],
+];
+
+const compilerOptions: monaco.languages.typescript.CompilerOptions = {
+    target: monaco.languages.typescript.ScriptTarget.ESNext,
+    module: monaco.languages.typescript.ModuleKind.ESNext,
+    moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
+    jsx: monaco.languages.typescript.JsxEmit.ReactJSX,
+    allowJs: true,
+    allowNonTsExtensions: true,
+    esModuleInterop: true,
+    resolveJsonModule: true,
+    isolatedModules: true,
+    strict: false,
+    noEmit: true,
+};
+
+for (const defaults of [monaco.languages.typescript.typescriptDefaults, monaco.languages.typescript.javascriptDefaults]) {
+    defaults.setCompilerOptions(compilerOptions);
+    defaults.setExtraLibs(extraLibs.map(([content, filePath]) => ({ content, filePath })));
+    // Every workspace file is a model, so the language service must see all of them, not only open ones.
+    defaults.setEagerModelSync(true);
+}
+
+const LANGUAGES_BY_EXTENSION: { [extension: string]: string } = {
+    ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+    css: 'css', scss: 'scss', less: 'less', json: 'json', html: 'html', md: 'markdown', svg: 'xml', xml: 'xml',
+};
+
+export const getLanguageForPath = (path: string): string =>
+    LANGUAGES_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext';
+
+export const pathToUri = (path: string) => monaco.Uri.file(`/${path}`);
+
+const workspaceModels = new Map<string, monaco.editor.ITextModel>();
+// Models are shared by all workspaces; the one they currently mirror.
+let syncedWorkspaceId: string | null = null;
+
+/**
+ * Mirrors the workspace tree into Monaco models (one per file) so the TypeScript language service
+ * can resolve imports across the whole project. External changes are pushed as edits, which keeps undo history.
+ * Switching workspaces replaces the content and resets undo, so undo never brings back another workspace's files.
+ * Files with unsaved edits keep their buffered content, so the language service checks what the user sees.
+ */
+export const syncWorkspaceModels = (workspaceId: string, tree: FileSystemTree, unsavedBuffers: { [path: string]: string } = {}): void => {
+    const isSwitch = workspaceId !== syncedWorkspaceId;
+    syncedWorkspaceId = workspaceId;
+    const files = flattenFiles(tree);
+    for (const [path, content] of Object.entries(unsavedBuffers)) {
+        if (path in files) files[path] = content;
+    }
+    for (const [path, model] of workspaceModels) {
+        if (!(path in files)) {
+            model.dispose();
+            workspaceModels.delete(path);
+        }
+    }
+    for (const [path, content] of Object.entries(files)) {
+        const model = workspaceModels.get(path);
+        if (!model) {
+            workspaceModels.set(path, monaco.editor.createModel(content, getLanguageForPath(path), pathToUri(path)));
+        } else if (isSwitch) {
+            model.setValue(content);
+        } else if (model.getValue() !== content) {
+            model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+        }
+    }
+};
+
+export const getWorkspaceModel = (path: string): monaco.editor.ITextModel | null => workspaceModels.get(path) || null;
@@ -0,0 +1,158 @@
+import type { FileSystemTree, FileSystemNode } from '../types';
+import type { PreviewPackages } from './previewPackages';
+
+export const PREVIEW_ENTRY_PATH = 'src/App.tsx';
+
+const PREVIEW_FILE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.json', '.css'];
+
+/** Flat map of workspace path -> source for every file the preview can load as a module. */
+export type PreviewModules = { [path: string]: string };
+
+export const collectPreviewModules = (tree: FileSystemTree): PreviewModules => {
+    const modules: PreviewModules = {};
+    const traverse = (node: FileSystemNode, path: string) => {
+        if (node.type === 'file') {
+            if (PREVIEW_FILE_EXTENSIONS.some(ext => path.endsWith(ext))) modules[path] = node.content;
+        } else {
+            for (const [name, child] of Object.entries(node.children)) {
+                traverse(child, path ? `${path}/${name}` : name);
+            }
+        }
+    };
+    traverse(tree, '');
+    return modules;
+};
+
+/**
+ * Each module is evaluated under this URL plus its workspace path (`//# sourceURL=`), so stack traces
+ * name the workspace file instead of an anonymous function.
+ */
+export const PREVIEW_SOURCE_URL_PREFIX = 'workspace:///';
+
+// Keeps file contents from closing the inline <script> they are embedded in.
+const toInlineJson = (value: unknown) => JSON.stringify(value).replace(/<\//g, '<\\/');
+
+/**
+ * Builds the script that runs inside the preview iframe. `compiledModules` are CommonJS factory
+ * bodies (see `transpilePreviewModules`), linked through a small module registry so relative
+ * imports between files work like in a real bundler. npm packages are ES modules from the import map
+ * built for `packages`; they must be loaded with `loadPackages()` before any module requires them.
+ * Exposes `window.__quantumModules.load(path)` which returns the module's exports, and
+ * `hotUpdate(modules, removedPaths)` which swaps changed modules in with React Fast Refresh.
+ */
+export const buildModuleLoaderScript = (compiledModules: PreviewModules, entryPath: string = PREVIEW_ENTRY_PATH, packages: PreviewPackages = { imports: {}, errors: {} }): string => `
+(function () {
+    const compiled = ${toInlineJson(compiledModules)};
+    const entryPath = ${toInlineJson(entryPath)};
+    const packageSpecifiers = ${toInlineJson(Object.keys(packages.imports))};
+    const packageErrors = ${toInlineJson(packages.errors)};
+    const loadedPackages = {};
+    const registry = {};
+    // Path -> paths of the modules that required it, for propagating hot updates.
+    const importers = {};
+    const refresh = window.ReactRefreshRuntime;
+    const EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.json', '.css'];
+    const externals = {
+        'react': () => window.React,
+        'react-dom': () => window.ReactDOM,
+        'react-dom/client': () => window.ReactDOM,
+        // Only defined in the test runner.
+        'vitest': () => window.__quantumTest,
+        '@jest/globals': () => window.__quantumTest,
+    };
+
+    const normalize = (path) => {
+        const parts = [];
+        for (const part of path.split('/')) {
+            if (!part || part === '.') continue;
+            if (part === '..') parts.pop();
+            else parts.push(part);
+        }
+        return parts.join('/');
+    };
+
+    const dirname = (path) => path.substring(0, path.lastIndexOf('/'));
+
+    const resolve = (specifier, fromPath) => {
+        const target = normalize(specifier.startsWith('/') ? specifier : dirname(fromPath) + '/' + specifier);
+        if (compiled[target] !== undefined) return target;
+        for (const ext of EXTENSIONS) if (compiled[target + ext] !== undefined) return target + ext;
+        for (const ext of EXTENSIONS) if (compiled[target + '/index' + ext] !== undefined) return target + '/index' + ext;
+        throw new Error('Cannot find module "' + specifier + '" imported from ' + fromPath);
+    };
+
+    const requireFrom = (fromPath) => (specifier) => {
+        if (externals[specifier]) return externals[specifier]();
+        if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+            if (loadedPackages[specifier]) return loadedPackages[specifier];
+            throw new Error((packageErrors[specifier] || 'Package "' + specifier + '" is not available in the preview') + ' (imported from ' + fromPath + ')');
+        }
+        const path = resolve(specifier, fromPath);
+        (importers[path] = importers[path] || new Set()).add(fromPath);
+        return load(path);
+    };
+
+    const load = (path) => {
+        if (registry[path]) return registry[path].exports;
+        const module = { exports: {} };
+        registry[path] = module;
+        let code = compiled[path];
+        // Older projects declare a global "function App" in the entry file without exporting it.
+        if (path === entryPath) {
+            code += '\\n;if (typeof App !== "undefined" && !module.exports.default && !module.exports.App) module.exports.App = App;';
+        }
+        code += '\\n//# sourceURL=' + ${toInlineJson(PREVIEW_SOURCE_URL_PREFIX)} + path;
+        try {
+            new Function('require', 'module', 'exports', '$RefreshReg$', '$RefreshSig$', code)(
+                requireFrom(path), module, module.exports,
+                (type, id) => refresh.register(type, path + ' ' + id),
+                refresh.createSignatureFunctionForTransform,
+            );
+        } catch (err) {
+            delete registry[path];
+            throw err;
+        }
+        return module.exports;
+    };
+
+    // Flagged as ES modules, so Babel's interop reads default imports from their "default" export.
+    const loadPackages = () => Promise.all(packageSpecifiers.map(specifier => import(specifier).then(
+        (namespace) => { loadedPackages[specifier] = { __esModule: true, ...namespace }; },
+        (err) => { packageErrors[specifier] = 'Package "' + specifier + '" failed to load: ' + err.message; },
+    )));
+
+    // Modules that only export components can be swapped in place; React keeps their state.
+    const isRefreshBoundary = (exports) => {
+        const names = Object.keys(exports).filter(name => name !== '__esModule');
+        return names.length > 0 && names.every(name => refresh.isLikelyComponentType(exports[name]));
+    };
+
+    // Returns false when the change cannot be applied in place and the preview must reload.
+    const hotUpdate = (modules, removedPaths) => {
+        for (const path of removedPaths) delete compiled[path];
+        Object.assign(compiled, modules);
+        const queue = Object.keys(modules).filter(path => registry[path]);
+        // Dropped up front, so a changed module that requires another changed module gets its new exports.
+        for (const path of queue) delete registry[path];
+        const updated = new Set();
+        while (queue.length) {
+            const path = queue.shift();
+            if (updated.has(path)) continue;
+            updated.add(path);
+            const exports = load(path);
+            if (path.endsWith('.css') || isRefreshBoundary(exports)) continue;
+            // Anything else is re-run together with its importers, up to the nearest components.
+            if (path === entryPath) return false;
+            for (const importer of importers[path] || []) {
+                if (!registry[importer] || updated.has(importer)) continue;
+                delete registry[importer];
+                queue.push(importer);
+            }
+        }
+        refresh.performReactRefresh();
+        return true;
+    };
+
+    window.__quantumModules = { load, loadPackages, hotUpdate, entryPath, compiled };
+})();
+`;
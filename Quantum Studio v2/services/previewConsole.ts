@@ -0,0 +1,341 @@
+import type { LogMessage, SourceLocation } from '../types';
+import { PREVIEW_SOURCE_URL_PREFIX } from './previewBundler';
+import { mapToSource, type PreviewSourceMaps } from './sourceMaps';
+
+/**
+ * Builds the script that forwards the preview's console to the IDE. Arguments are sent both as text
+ * (`message`, for the AI and for searching) and as `ConsoleValue` trees the console can expand, since
+ * objects cannot be inspected across the iframe boundary later. Also evaluates the expressions typed
+ * into the console (`{ type: 'console-evaluate', expression }`) and replies with `console-result`.
+ */
+export const buildConsoleScript = (): string => `
+(function () {
+    // Bounds on what is serialized per value, so logging a large object does not stall the preview.
+    const MAX_DEPTH = 4;
+    const MAX_ENTRIES = 100;
+    const MAX_VALUES = 2000;
+    const MAX_STRING_LENGTH = 10000;
+    const originalConsole = { ...window.console };
+    const groupIds = [];
+    let nextGroupId = 1;
+    const counters = {};
+    const timers = {};
+
+    const truncate = (text, length) => text.length > length ? text.slice(0, length) + '…' : text;
+
+    const readProperty = (object, key) => {
+        try {
+            return object[key];
+        } catch (err) {
+            return err;
+        }
+    };
+
+    const getClassName = (value) => {
+        const prototype = Object.getPrototypeOf(value);
+        const name = prototype && prototype.constructor && prototype.constructor.name;
+        return typeof name === 'string' && name !== 'Object' ? name : '';
+    };
+
+    const describeNode = (node) => {
+        if (node.nodeType !== Node.ELEMENT_NODE) return node.nodeName;
+        const classes = typeof node.className === 'string' ? node.className.split(' ').filter(Boolean) : [];
+        return node.tagName.toLowerCase() + (node.id ? '#' + node.id : '') + classes.map(name => '.' + name).join('');
+    };
+
+    // A few characters for a value inside another value's preview.
+    const summarize = (value) => {
+        if (typeof value === 'string') return JSON.stringify(truncate(value, 30));
+        if (typeof value === 'function') return 'ƒ';
+        if (value === null || typeof value !== 'object') return describe(value, 0, [], { remaining: 0 }).preview;
+        if (Array.isArray(value)) return 'Array(' + value.length + ')';
+        if (value instanceof Node) return describeNode(value);
+        return getClassName(value) || '{…}';
+    };
+
+    const describe = (value, depth, ancestors, budget) => {
+        switch (typeof value) {
+            case 'string': return { kind: 'string', preview: truncate(value, MAX_STRING_LENGTH) };
+            case 'number': case 'boolean': case 'undefined': return { kind: typeof value, preview: String(value) };
+            case 'bigint': return { kind: 'bigint', preview: value + 'n' };
+            case 'symbol': return { kind: 'symbol', preview: value.toString() };
+            case 'function': return { kind: 'function', preview: 'ƒ ' + (value.name || 'anonymous') + '()' };
+        }
+        if (value === null) return { kind: 'null', preview: 'null' };
+        if (ancestors.includes(value)) return { kind: 'circular', preview: '[Circular]' };
+        if (value instanceof Error) return { kind: 'error', preview: value.name + ': ' + value.message, stack: String(value.stack || '') };
+        if (value instanceof Node) return { kind: 'node', preview: describeNode(value) };
+        if (value instanceof Date) return { kind: 'date', preview: isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString() };
+        if (value instanceof RegExp) return { kind: 'regexp', preview: String(value) };
+
+        let kind = 'object', label, size, items;
+        if (Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView))) {
+            kind = 'array';
+            size = value.length;
+            label = (getClassName(value) || 'Array') + '(' + size + ')';
+            items = Array.from({ length: Math.min(size, MAX_ENTRIES) }, (_, index) => [String(index), value[index]]);
+        } else if (value instanceof Map) {
+            kind = 'map';
+            size = value.size;
+            label = 'Map(' + size + ')';
+            items = Array.from(value).slice(0, MAX_ENTRIES).map(([key, item]) => [summarize(key), item]);
+        } else if (value instanceof Set) {
+            kind = 'set';
+            size = value.size;
+            label = 'Set(' + size + ')';
+            items = Array.from(value).slice(0, MAX_ENTRIES).map((item, index) => [String(index), item]);
+        } else {
+            const keys = Object.keys(value);
+            size = keys.length;
+            label = getClassName(value);
+            items = keys.slice(0, MAX_ENTRIES).map(key => [key, readProperty(value, key)]);
+        }
+
+        const summary = items.slice(0, 5)
+            .map(([key, item]) => kind === 'array' || kind === 'set' ? summarize(item) : key + (kind === 'map' ? ' => ' : ': ') + summarize(item))
+            .join(', ') + (size > 5 ? ', …' : '');
+        const preview = (label ? label + ' ' : '') + (kind === 'array' ? '[' + summary + ']' : '{' + summary + '}');
+        if (depth >= MAX_DEPTH || budget.remaining < items.length) return { kind, preview, isTruncated: size > 0 };
+        budget.remaining -= items.length;
+        const path = ancestors.concat([value]);
+        return {
+            kind,
+            preview,
+            entries: items.map(([key, item]) => ({ key, value: describe(item, depth + 1, path, budget) })),
+            isTruncated: size > items.length,
+        };
+    };
+
+    const toConsoleValue = (value) => describe(value, 0, [], { remaining: MAX_VALUES });
+
+    // Plain objects and arrays are sent to the AI as JSON, which it reads better than a preview.
+    const toText = (value) => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) {
+            const stack = String(value.stack || '');
+            return stack.startsWith(value.name) ? stack : value.name + ': ' + value.message + (stack ? '\\n' + stack : '');
+        }
+        const isPlain = value !== null && typeof value === 'object' && (Array.isArray(value) || [Object.prototype, null].includes(Object.getPrototypeOf(value)));
+        if (!isPlain) return describe(value, MAX_DEPTH, [], { remaining: 0 }).preview;
+        try {
+            const seen = new WeakSet();
+            return JSON.stringify(value, (key, item) => {
+                if (typeof item === 'object' && item !== null) {
+                    if (seen.has(item)) return '[Circular]';
+                    seen.add(item);
+                }
+                return item;
+            }, 2);
+        } catch (e) {
+            return '[Unserializable Object]';
+        }
+    };
+
+    const post = (message) => window.parent.postMessage({ type: 'console', groupIds: groupIds.slice(), ...message }, '*');
+
+    const emit = (level, args, extra) => post({ level, message: args.map(toText).join(' '), args: args.map(toConsoleValue), ...extra });
+
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+        console[level] = (...args) => {
+            emit(level, args);
+            originalConsole[level].apply(console, args);
+        };
+    });
+
+    console.dir = (value, ...rest) => {
+        emit('log', [value]);
+        originalConsole.dir(value, ...rest);
+    };
+
+    console.trace = (...args) => {
+        // The frames of the caller, without the "Error" line and console.trace itself.
+        const stack = String(new Error().stack || '').split('\\n').filter(line => line.includes(':')).slice(1).join('\\n');
+        emit('log', args.length ? args : ['console.trace'], { stack });
+        originalConsole.trace(...args);
+    };
+
+    console.assert = (condition, ...args) => {
+        if (!condition) emit('error', args.length ? ['Assertion failed:', ...args] : ['Assertion failed']);
+        originalConsole.assert(condition, ...args);
+    };
+
+    console.table = (data, columns) => {
+        if (data === null || typeof data !== 'object') {
+            console.log(data);
+            return;
+        }
+        const entries = data instanceof Map ? Array.from(data, ([key, row]) => [summarize(key), row])
+            : data instanceof Set ? Array.from(data, (row, index) => [String(index), row])
+            : Object.keys(data).map(key => [key, readProperty(data, key)]);
+        const columnNames = Array.isArray(columns) ? columns.map(String) : [];
+        let hasValues = false;
+        const rows = entries.slice(0, MAX_ENTRIES).map(([index, row]) => {
+            const cells = {};
+            if (row !== null && typeof row === 'object') {
+                for (const key of Object.keys(row)) {
+                    if (!Array.isArray(columns) && !columnNames.includes(key)) columnNames.push(key);
+                    if (columnNames.includes(key)) cells[key] = describe(readProperty(row, key), MAX_DEPTH, [], { remaining: 0 });
+                }
+            } else {
+                hasValues = true;
+                cells.Value = describe(row, MAX_DEPTH, [], { remaining: 0 });
+            }
+            return { index, cells };
+        });
+        emit('log', [data], { table: { columns: hasValues ? columnNames.concat(['Value']) : columnNames, rows } });
+        originalConsole.table(data, columns);
+    };
+
+    const startGroup = (isCollapsed) => (...args) => {
+        const id = nextGroupId++;
+        emit('log', args.length ? args : ['console.group'], { group: { id, isCollapsed } });
+        groupIds.push(id);
+        originalConsole[isCollapsed ? 'groupCollapsed' : 'group'](...args);
+    };
+    console.group = startGroup(false);
+    console.groupCollapsed = startGroup(true);
+    console.groupEnd = () => {
+        groupIds.pop();
+        originalConsole.groupEnd();
+    };
+
+    console.count = (label = 'default') => {
+        counters[label] = (counters[label] || 0) + 1;
+        emit('log', [label + ': ' + counters[label]]);
+        originalConsole.count(label);
+    };
+    console.countReset = (label = 'default') => {
+        delete counters[label];
+        originalConsole.countReset(label);
+    };
+
+    const logTimer = (label, args, isEnd) => {
+        if (!(label in timers)) {
+            emit('warn', ['Timer "' + label + '" does not exist']);
+            return;
+        }
+        emit('log', [label + ': ' + (performance.now() - timers[label]).toFixed(3) + ' ms', ...args]);
+        if (isEnd) delete timers[label];
+    };
+    console.time = (label = 'default') => {
+        timers[label] = performance.now();
+        originalConsole.time(label);
+    };
+    console.timeLog = (label = 'default', ...args) => {
+        logTimer(label, args, false);
+        originalConsole.timeLog(label, ...args);
+    };
+    console.timeEnd = (label = 'default') => {
+        logTimer(label, [], true);
+        originalConsole.timeEnd(label);
+    };
+
+    console.clear = () => {
+        window.parent.postMessage({ type: 'console-clear' }, '*');
+        originalConsole.clear();
+    };
+
+    window.addEventListener('error', (event) => {
+        if (event.error instanceof Error) emit('error', ['Uncaught', event.error]);
+        else post({ level: 'error', message: event.message + ' at ' + event.filename + ':' + event.lineno });
+    });
+    window.addEventListener('unhandledrejection', (event) => {
+        emit('error', ['Unhandled Promise Rejection:', event.reason]);
+    });
+
+    // Like the browser console, input starting with "{" is read as an object literal when it is one, not as a block.
+    const toEvaluatedSource = (expression) => {
+        if (!expression.trimStart().startsWith('{')) return expression;
+        try {
+            new Function('return (' + expression + '\\n)');
+            return '(' + expression + '\\n)';
+        } catch (err) {
+            return expression;
+        }
+    };
+
+    window.addEventListener('message', (event) => {
+        if (event.source !== window.parent || !event.data || event.data.type !== 'console-evaluate') return;
+        const reply = (value, isError) => window.parent.postMessage({ type: 'console-result', isError, message: toText(value), value: toConsoleValue(value) }, '*');
+        try {
+            // Indirect eval runs in the global scope, so the expression sees the same globals as the app.
+            const result = (0, eval)(toEvaluatedSource(event.data.expression));
+            if (result instanceof Promise) result.then(value => reply(value, false), err => reply(err, true));
+            else reply(result, false);
+        } catch (err) {
+            reply(err, true);
+        }
+    });
+})();
+`;
+
+export interface StackFrame {
+    functionName: string;
+    /** Workspace path, for frames in the preview's own modules. */
+    path?: string;
+    line: number;
+    column: number;
+    /** The frame as the browser printed it. */
+    text: string;
+}
+
+// "    at App (workspace:///src/App.tsx:12:5)" in Chrome, "App@workspace:///src/App.tsx:12:5" in Firefox.
+const FRAME_LOCATION_PATTERN = /([^\s@(]+):(\d+):(\d+)\)?\s*$/;
+const FRAME_FUNCTION_PATTERN = /^\s*at (.+?) \(|^\s*([^@\s]+)@/;
+
+/** Reads the frames of a stack trace mapped with `mapPreviewLocations`, resolving those in preview modules to workspace paths. */
+export const parseStackTrace = (stack: string): StackFrame[] => stack.split('\n')
+    .filter(text => FRAME_LOCATION_PATTERN.test(text))
+    .map(text => {
+        const [, url, line, column] = text.match(FRAME_LOCATION_PATTERN)!;
+        const [, chromeName, firefoxName] = text.match(FRAME_FUNCTION_PATTERN) || [];
+        return {
+            functionName: chromeName || firefoxName || '',
+            path: url.startsWith(PREVIEW_SOURCE_URL_PREFIX) ? url.substring(PREVIEW_SOURCE_URL_PREFIX.length) : undefined,
+            line: Number(line),
+            column: Number(column),
+            text: text.trim(),
+        };
+    });
+
+const MODULE_LOCATION_PATTERN = new RegExp(`${PREVIEW_SOURCE_URL_PREFIX}([^\\s:()@]+):(\\d+):(\\d+)`, 'g');
+
+// `new Function()` puts the module body after a two-line header, which stack line numbers include.
+const FUNCTION_HEADER_LINES = 2;
+
+/**
+ * Rewrites the preview module positions in a stack trace or message, which are in compiled code, to
+ * positions in the workspace sources, e.g. "workspace:///src/App.tsx:31:18" -> "workspace:///src/App.tsx:12:9".
+ */
+export const mapPreviewLocations = (text: string, sourceMaps: PreviewSourceMaps): string =>
+    text.replace(MODULE_LOCATION_PATTERN, (_, path: string, line: string, column: string) => {
+        const compiledLine = Number(line) - FUNCTION_HEADER_LINES;
+        const mapped = sourceMaps[path] ? mapToSource(sourceMaps[path], compiledLine, Number(column)) : null;
+        return `${PREVIEW_SOURCE_URL_PREFIX}${path}:${mapped ? mapped.line : compiledLine}:${mapped ? mapped.column : column}`;
+    });
+
+// See `transpilePreviewModules`: the module is replaced by one that throws this.
+const COMPILE_ERROR_PATTERN = /Failed to compile ([^\s:]+):(\d+):(\d+)/;
+
+/** Where an error was raised: the location of a failed compile, or else the first stack frame in a workspace file. */
+export const findErrorLocation = (log: Pick<LogMessage, 'message' | 'stack' | 'args'>): SourceLocation | undefined => {
+    const compileError = log.message.match(COMPILE_ERROR_PATTERN);
+    if (compileError) return { path: compileError[1], line: Number(compileError[2]), column: Number(compileError[3]) };
+    const stacks = [log.stack, ...(log.args || []).map(arg => arg.stack)].filter((stack): stack is string => !!stack);
+    for (const stack of stacks) {
+        const frame = parseStackTrace(stack).find(frame => frame.path);
+        if (frame) return { path: frame.path!, line: frame.line, column: frame.column };
+    }
+    return undefined;
+};
+
+/** The lines around `line`, numbered, with the line itself marked, e.g. for showing the AI where an error is. */
+export const formatSourceExcerpt = (content: string, line: number, contextLines: number = 3): string => {
+    const lines = content.split('\n');
+    const first = Math.max(1, line - contextLines);
+    const last = Math.min(lines.length, line + contextLines);
+    const width = String(last).length;
+    return lines.slice(first - 1, last)
+        .map((text, index) => `${first + index === line ? '>' : ' '} ${String(first + index).padStart(width)} | ${text}`)
+        .join('\n');
+};
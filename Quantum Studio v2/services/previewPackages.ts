@@ -0,0 +1,158 @@
+import clsxUrl from 'preview-package:clsx';
+import zustandUrl from 'preview-package:zustand';
+import lucideReactUrl from 'preview-package:lucide-react';
+import framerMotionUrl from 'preview-package:framer-motion';
+import type { PreviewModules } from './previewBundler';
+import { PREVIEW_RUNTIME_VERSIONS } from './previewRuntime';
+
+/** The workspace file whose `dependencies` the preview can import. */
+export const PACKAGE_MANIFEST_PATH = 'package.json';
+
+// Bundled by `vite.config.ts` as ES modules whose React imports go through the preview's import map.
+const SEEDED_PACKAGE_URLS: { [name: string]: string } = {
+    'clsx': clsxUrl,
+    'zustand': zustandUrl,
+    'lucide-react': lucideReactUrl,
+    'framer-motion': framerMotionUrl,
+};
+
+/**
+ * Packages bundled with the app, by name and version. They work offline and can be imported without
+ * being listed in `package.json`, unless it asks for a different major version.
+ */
+export const SEEDED_PACKAGES: { [name: string]: string } = Object.fromEntries(
+    Object.keys(SEEDED_PACKAGE_URLS).map(name => [name, PREVIEW_RUNTIME_VERSIONS[name]]),
+);
+
+// Provided by the preview runtime itself; the test APIs by the test runner (see `buildTestRunnerScript`).
+const RUNTIME_PACKAGES = ['react', 'react-dom', 'vitest', '@jest/globals'];
+
+const PACKAGE_CDN = 'https://esm.sh';
+const PACKAGE_CACHE_NAME = 'quantum-preview-packages-v1';
+
+/** Package name -> version range, as in the `dependencies` of a `package.json`. */
+export type PackageDependencies = { [name: string]: string };
+
+export interface PreviewPackages {
+    /** Import map entries for the preview: specifier -> module URL. */
+    imports: { [specifier: string]: string };
+    /** Specifiers that could not be resolved, with the error to throw when a module imports them. */
+    errors: { [specifier: string]: string };
+}
+
+/** Reads `dependencies` from `package.json` source. Invalid JSON counts as no dependencies, since it may be mid-edit. */
+export const parseDependencies = (source: string | undefined): PackageDependencies => {
+    if (!source) return {};
+    try {
+        const { dependencies } = JSON.parse(source);
+        if (!dependencies || typeof dependencies !== 'object') return {};
+        return Object.fromEntries(Object.entries(dependencies).filter(([, range]) => typeof range === 'string')) as PackageDependencies;
+    } catch {
+        return {};
+    }
+};
+
+/** "lodash/fp" -> "lodash", "@scope/pkg/sub" -> "@scope/pkg". */
+export const getPackageName = (specifier: string): string =>
+    specifier.split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+
+// Babel's CommonJS output always requires with a double-quoted string literal.
+const REQUIRE_PATTERN = /\brequire\("([^"]+)"\)/g;
+
+/** npm packages required by the compiled preview modules, except React and the test APIs, which the runtime provides. */
+export const findPackageImports = (compiledModules: PreviewModules): string[] => {
+    const specifiers = new Set<string>();
+    for (const [path, code] of Object.entries(compiledModules)) {
+        if (path.endsWith('.json') || path.endsWith('.css')) continue;
+        for (const [, specifier] of code.matchAll(REQUIRE_PATTERN)) {
+            if (specifier.startsWith('.') || specifier.startsWith('/')) continue;
+            if (!RUNTIME_PACKAGES.includes(getPackageName(specifier))) specifiers.add(specifier);
+        }
+    }
+    return [...specifiers].sort();
+};
+
+const getMajorVersion = (version: string) => version.match(/\d+/)?.[0];
+
+const isSeededVersion = (range: string | undefined, seededVersion: string) =>
+    !range || !getMajorVersion(range) || getMajorVersion(range) === getMajorVersion(seededVersion);
+
+// React stays external, so downloaded packages share the preview's React through its import map.
+const toCdnUrl = (specifier: string, range: string) => {
+    const name = getPackageName(specifier);
+    return `${PACKAGE_CDN}/${name}@${encodeURIComponent(range)}${specifier.substring(name.length)}?bundle&external=react,react-dom`;
+};
+
+const openPackageCache = (): Promise<Cache | null> =>
+    typeof caches === 'undefined' ? Promise.resolve(null) : caches.open(PACKAGE_CACHE_NAME).catch(() => null);
+
+const fetchModuleSource = async (url: string): Promise<string> => {
+    const cache = await openPackageCache();
+    const cached = await cache?.match(url);
+    if (cached) return cached.text();
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${url} responded with ${response.status}`);
+    const source = await response.text();
+    await cache?.put(url, new Response(source, { headers: { 'Content-Type': 'text/javascript' } }));
+    return source;
+};
+
+// CDN modules import each other by absolute path, e.g. `export * from "/clsx@2.1.1/es2022/clsx.mjs"`.
+const CDN_IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*\(?\s*)(["'])(\/[^"']*)\2/g;
+
+// Blob URLs per CDN URL, kept for the session so each package is only rewritten once.
+const moduleUrls = new Map<string, Promise<string>>();
+
+/** Loads a CDN module and everything it imports from the CDN through the package cache, as a blob URL. */
+const loadCdnModule = (url: string, importers: string[] = []): Promise<string> => {
+    let moduleUrl = moduleUrls.get(url);
+    if (moduleUrl) return moduleUrl;
+    moduleUrl = (async () => {
+        const source = await fetchModuleSource(url);
+        const paths = [...new Set(Array.from(source.matchAll(CDN_IMPORT_PATTERN), match => match[3]))];
+        const chain = [...importers, url];
+        const resolved = await Promise.all(paths.map(path => {
+            const importUrl = PACKAGE_CDN + path;
+            // A module in an import cycle keeps its CDN URL rather than waiting on itself.
+            return chain.includes(importUrl) ? importUrl : loadCdnModule(importUrl, chain);
+        }));
+        const rewritten = source.replace(CDN_IMPORT_PATTERN, (_, prefix, quote, path) => `${prefix}${quote}${resolved[paths.indexOf(path)]}${quote}`);
+        return URL.createObjectURL(new Blob([rewritten], { type: 'text/javascript' }));
+    })();
+    moduleUrls.set(url, moduleUrl);
+    // Failed downloads are retried on the next build, e.g. once the network is back.
+    moduleUrl.catch(() => moduleUrls.delete(url));
+    return moduleUrl;
+};
+
+/**
+ * Maps each imported package specifier to a module URL for the preview's import map. Seeded packages
+ * come from the app itself; anything else must be listed in the workspace `package.json` and is
+ * downloaded from esm.sh once, then served from Cache Storage, so it also works offline afterwards.
+ */
+export const resolvePreviewPackages = async (specifiers: string[], dependencies: PackageDependencies): Promise<PreviewPackages> => {
+    const packages: PreviewPackages = { imports: {}, errors: {} };
+    await Promise.all(specifiers.map(async specifier => {
+        const name = getPackageName(specifier);
+        let range = dependencies[name];
+        const seededVersion = SEEDED_PACKAGES[name];
+        if (seededVersion && isSeededVersion(range, seededVersion)) {
+            if (specifier === name) {
+                packages.imports[specifier] = SEEDED_PACKAGE_URLS[name];
+                return;
+            }
+            // Only the main entry is bundled; subpaths are downloaded at the same version.
+            range = seededVersion;
+        }
+        if (!range) {
+            packages.errors[specifier] = `Package "${name}" is not installed. Add it to "dependencies" in ${PACKAGE_MANIFEST_PATH}.`;
+            return;
+        }
+        try {
+            packages.imports[specifier] = await loadCdnModule(toCdnUrl(specifier, range));
+        } catch (err) {
+            packages.errors[specifier] = `Failed to download package "${specifier}": ${err instanceof Error ? err.message : String(err)}`;
+        }
+    }));
+    return packages;
+};
@@ -0,0 +1,13 @@
+// Bundled separately (see `vite.config.ts`) and loaded into the preview iframe, where the
+// transpiled modules and the render script expect React as page globals.
+import './previewRefreshHook';
+import * as React from 'react';
+import * as ReactJSXRuntime from 'react/jsx-runtime';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+
+Object.assign(window, {
+    React,
+    ReactJSXRuntime,
+    ReactDOM: { ...ReactDOM, ...ReactDOMClient },
+});
@@ -0,0 +1,7 @@
+// Imported first by `previewReactRuntime.ts`. React DOM connects to Fast Refresh through the devtools
+// hook while it initializes, so the hook must be installed before React DOM is evaluated.
+import * as ReactRefreshRuntime from 'react-refresh/runtime';
+
+ReactRefreshRuntime.injectIntoGlobalHook(window);
+
+Object.assign(window, { ReactRefreshRuntime });
@@ -0,0 +1,51 @@
+import * as React from 'react';
+import * as ReactJSXRuntime from 'react/jsx-runtime';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import tailwindUrl from '@tailwindcss/browser?url';
+import reactRuntimeUrl from 'preview-runtime:react';
+
+/** Versions of the libraries the preview runs on, read from the installed packages at build time. */
+export const PREVIEW_RUNTIME_VERSIONS: { [name: string]: string } = __PREVIEW_RUNTIME_VERSIONS__;
+
+/** Changes whenever one of the runtimes is upgraded, so caches built for an older runtime are not reused. */
+export const PREVIEW_RUNTIME_VERSION = Object.entries(PREVIEW_RUNTIME_VERSIONS).map(([name, version]) => `${name}@${version}`).join(' ');
+
+// The preview is an srcdoc iframe, so the URLs must not depend on how it resolves relative paths.
+const toAbsoluteUrl = (url: string) => new URL(url, document.baseURI).href;
+
+// npm packages in the preview import React as ES modules. These re-export the runtime's globals, so every
+// package shares one React instance. Export names are read from the app's own copy of the same version.
+const REACT_MODULE_GLOBALS: { [specifier: string]: [global: string, module: object] } = {
+    'react': ['React', React],
+    'react/jsx-runtime': ['ReactJSXRuntime', ReactJSXRuntime],
+    'react-dom': ['ReactDOM', ReactDOM],
+    'react-dom/client': ['ReactDOM', ReactDOMClient],
+};
+
+const toReactShimUrl = (global: string, module: object) => {
+    // CommonJS packages may only expose their exports on `default`, depending on the interop.
+    const names = Object.keys({ ...(module as { default?: object }).default, ...module }).filter(name => name !== 'default' && /^[A-Za-z_$][\w$]*$/.test(name));
+    const source = `const m = window.${global}; export default m; export const { ${names.join(', ')} } = m;`;
+    return `data:text/javascript,${encodeURIComponent(source)}`;
+};
+
+const REACT_SHIM_IMPORTS = Object.fromEntries(
+    Object.entries(REACT_MODULE_GLOBALS).map(([specifier, [global, module]]) => [specifier, toReactShimUrl(global, module)]),
+);
+
+const toInlineImportMap = (imports: { [specifier: string]: string }) => JSON.stringify({
+    imports: Object.fromEntries(Object.entries(imports).map(([specifier, url]) => [specifier, toAbsoluteUrl(url)])),
+}).replace(/<\//g, '<\\/');
+
+/**
+ * Tags that load React and Tailwind into the preview document. Both are bundled with the app and served
+ * from its own origin, so previews work offline. The React runtime is an ES module script, so scripts
+ * that need `window.React` must also be modules to run after it. `packageImports` maps the npm packages
+ * the preview imports to module URLs (see `resolvePreviewPackages`); React's own modules are always mapped.
+ */
+export const buildRuntimeScriptTags = (packageImports: { [specifier: string]: string } = {}): string => `
+    <script type="importmap">${toInlineImportMap({ ...REACT_SHIM_IMPORTS, ...packageImports })}</script>
+    <script>window.__quantumRuntime = ${JSON.stringify(PREVIEW_RUNTIME_VERSIONS)};</script>
+    <script src="${toAbsoluteUrl(tailwindUrl)}"></script>
+    <script type="module" src="${toAbsoluteUrl(reactRuntimeUrl)}"></script>`;
@@ -0,0 +1,561 @@
+import type { TestError, TestFileResult } from '../types';
+import type { PreviewModules } from './previewBundler';
+import { findErrorLocation, mapPreviewLocations } from './previewConsole';
+import type { PreviewSourceMaps } from './sourceMaps';
+
+const TEST_FILE_PATTERN = /\.(test|spec)\.[jt]sx?$/;
+
+/** Test files in the workspace, e.g. `src/utils/format.test.ts`, sorted by path. */
+export const findTestFiles = (modules: PreviewModules): string[] => Object.keys(modules).filter(path => TEST_FILE_PATTERN.test(path)).sort();
+
+// A test that neither finishes nor fails within this time fails with a timeout.
+const DEFAULT_TEST_TIMEOUT_MS = 5000;
+
+/**
+ * Builds the script that provides the test API in the test runner iframe: `describe`, `it`/`test`,
+ * `expect`, the `beforeAll`/`afterAll`/`beforeEach`/`afterEach` hooks and `vi.fn()`/`vi.spyOn()`, as
+ * in Jest and Vitest. They are globals, and also what `import { ... } from 'vitest'` (or
+ * '@jest/globals') returns. `window.__quantumTest.runFile(path, load)` collects the tests a file
+ * registers when `load()` runs it, runs them, and resolves with its `TestFileResult`.
+ */
+export const buildTestRunnerScript = (): string => `
+(function () {
+    const DEFAULT_TIMEOUT = ${DEFAULT_TEST_TIMEOUT_MS};
+
+    class AssertionError extends Error {}
+    AssertionError.prototype.name = 'AssertionError';
+
+    // --- Formatting values for failure messages ---
+
+    const format = (value, depth = 0, seen = []) => {
+        if (typeof value === 'string') return JSON.stringify(value);
+        if (typeof value === 'bigint') return value + 'n';
+        if (typeof value === 'symbol') return value.toString();
+        if (typeof value === 'function') return value._isMockFunction ? '[MockFunction]' : '[Function ' + (value.name || 'anonymous') + ']';
+        if (value === null || typeof value !== 'object') return String(value);
+        if (value.asymmetricMatch) return value.toString();
+        if (seen.includes(value)) return '[Circular]';
+        if (value instanceof Error) return '[' + value.name + ': ' + value.message + ']';
+        if (value instanceof Date) return 'Date(' + (isNaN(value.getTime()) ? 'Invalid' : value.toISOString()) + ')';
+        if (value instanceof RegExp) return String(value);
+        if (typeof Node !== 'undefined' && value instanceof Node) return '<' + value.nodeName.toLowerCase() + '>';
+        if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+        const path = seen.concat([value]);
+        if (Array.isArray(value)) return '[' + value.map(item => format(item, depth + 1, path)).join(', ') + ']';
+        if (value instanceof Map) return 'Map {' + Array.from(value).map(([key, item]) => format(key, depth + 1, path) + ' => ' + format(item, depth + 1, path)).join(', ') + '}';
+        if (value instanceof Set) return 'Set {' + Array.from(value).map(item => format(item, depth + 1, path)).join(', ') + '}';
+        const name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+        return name + '{' + Object.keys(value).map(key => key + ': ' + format(value[key], depth + 1, path)).join(', ') + '}';
+    };
+
+    // --- Equality ---
+
+    const isAsymmetric = (value) => !!value && typeof value.asymmetricMatch === 'function';
+
+    // Like Jest: toEqual ignores undefined properties, toStrictEqual also compares them and the classes.
+    const equals = (a, b, strict, seen = []) => {
+        if (isAsymmetric(b)) return b.asymmetricMatch(a);
+        if (isAsymmetric(a)) return a.asymmetricMatch(b);
+        if (Object.is(a, b)) return true;
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+        if (seen.some(([x, y]) => x === a && y === b)) return true;
+        const path = seen.concat([[a, b]]);
+        if (Object.prototype.toString.call(a) !== Object.prototype.toString.call(b)) return false;
+        if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+        if (a instanceof Date) return a.getTime() === b.getTime();
+        if (a instanceof RegExp) return String(a) === String(b);
+        if (a instanceof Error) return a.message === b.message && a.name === b.name;
+        if (a instanceof Map) return a.size === b.size && Array.from(a).every(([key, value]) => b.has(key) && equals(value, b.get(key), strict, path));
+        if (a instanceof Set) return a.size === b.size && Array.from(a).every(value => b.has(value) || Array.from(b).some(other => equals(value, other, strict, path)));
+        if (Array.isArray(a)) {
+            if (a.length !== b.length) return false;
+            for (let i = 0; i < a.length; i++) {
+                if (strict && (i in a) !== (i in b)) return false;
+                if (!equals(a[i], b[i], strict, path)) return false;
+            }
+            return true;
+        }
+        const keys = (object) => Object.keys(object).filter(key => strict || object[key] !== undefined);
+        const aKeys = keys(a);
+        const bKeys = keys(b);
+        if (aKeys.length !== bKeys.length) return false;
+        return aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && equals(a[key], b[key], strict, path));
+    };
+
+    const asymmetric = (description, match) => ({ asymmetricMatch: match, toString: () => description });
+
+    // --- Mock functions ---
+
+    const mocks = new Set();
+
+    const fn = (implementation) => {
+        let defaultImplementation = implementation;
+        let onceImplementations = [];
+        const mock = function (...args) {
+            mock.mock.calls.push(args);
+            mock.mock.contexts.push(this);
+            const next = onceImplementations.length ? onceImplementations.shift() : defaultImplementation;
+            try {
+                const value = next ? next.apply(this, args) : undefined;
+                mock.mock.results.push({ type: 'return', value });
+                return value;
+            } catch (err) {
+                mock.mock.results.push({ type: 'throw', value: err });
+                throw err;
+            }
+        };
+        mock._isMockFunction = true;
+        mock.mock = { calls: [], results: [], contexts: [] };
+        mock.mockImplementation = (next) => { defaultImplementation = next; return mock; };
+        mock.mockImplementationOnce = (next) => { onceImplementations.push(next); return mock; };
+        mock.mockReturnValue = (value) => mock.mockImplementation(() => value);
+        mock.mockReturnValueOnce = (value) => mock.mockImplementationOnce(() => value);
+        mock.mockResolvedValue = (value) => mock.mockImplementation(() => Promise.resolve(value));
+        mock.mockResolvedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.resolve(value));
+        mock.mockRejectedValue = (value) => mock.mockImplementation(() => Promise.reject(value));
+        mock.mockRejectedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.reject(value));
+        mock.mockReturnThis = () => mock.mockImplementation(function () { return this; });
+        mock.mockClear = () => { mock.mock.calls = []; mock.mock.results = []; mock.mock.contexts = []; return mock; };
+        mock.mockReset = () => { mock.mockClear(); defaultImplementation = undefined; onceImplementations = []; return mock; };
+        mock.mockRestore = () => mock.mockReset();
+        mock.getMockImplementation = () => defaultImplementation;
+        mocks.add(mock);
+        return mock;
+    };
+
+    const spyOn = (object, method) => {
+        const original = object[method];
+        if (typeof original !== 'function') throw new Error('Cannot spy on "' + String(method) + '": it is not a function');
+        const spy = fn(function (...args) { return original.apply(this, args); });
+        spy.mockRestore = () => { spy.mockReset(); object[method] = original; };
+        object[method] = spy;
+        return spy;
+    };
+
+    const vi = {
+        fn,
+        spyOn,
+        isMockFunction: (value) => !!value && value._isMockFunction === true,
+        clearAllMocks: () => mocks.forEach(mock => mock.mockClear()),
+        resetAllMocks: () => mocks.forEach(mock => mock.mockReset()),
+        restoreAllMocks: () => mocks.forEach(mock => mock.mockRestore()),
+    };
+
+    // --- expect ---
+
+    const assertMock = (value) => {
+        if (!value || !value._isMockFunction) throw new AssertionError(format(value) + ' is not a mock function');
+        return value.mock;
+    };
+
+    const toThrowMatches = (error, expected) => {
+        if (expected === undefined) return true;
+        const message = error && error.message !== undefined ? error.message : String(error);
+        if (typeof expected === 'string') return message.includes(expected);
+        if (expected instanceof RegExp) return expected.test(message);
+        if (typeof expected === 'function') return error instanceof expected;
+        if (expected instanceof Error) return message === expected.message;
+        return equals(error, expected, false);
+    };
+
+    const hasProperty = (object, path) => {
+        const keys = Array.isArray(path) ? path : String(path).replace(/\\[(\\w+)\\]/g, '.$1').split('.');
+        let current = object;
+        for (const key of keys) {
+            if (current === null || current === undefined || !(key in Object(current))) return { found: false };
+            current = current[key];
+        }
+        return { found: true, value: current };
+    };
+
+    // Each matcher returns whether it passed and the message for when that was not what the test expected.
+    const matchers = {
+        toBe: (received, expected) => ({ pass: Object.is(received, expected), message: 'Expected: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toEqual: (received, expected) => ({ pass: equals(received, expected, false), message: 'Expected: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toStrictEqual: (received, expected) => ({ pass: equals(received, expected, true), message: 'Expected: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toBeTruthy: (received) => ({ pass: !!received, message: 'Received: ' + format(received) }),
+        toBeFalsy: (received) => ({ pass: !received, message: 'Received: ' + format(received) }),
+        toBeNull: (received) => ({ pass: received === null, message: 'Received: ' + format(received) }),
+        toBeUndefined: (received) => ({ pass: received === undefined, message: 'Received: ' + format(received) }),
+        toBeDefined: (received) => ({ pass: received !== undefined, message: 'Received: ' + format(received) }),
+        toBeNaN: (received) => ({ pass: Number.isNaN(received), message: 'Received: ' + format(received) }),
+        toBeGreaterThan: (received, expected) => ({ pass: received > expected, message: 'Expected: > ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toBeGreaterThanOrEqual: (received, expected) => ({ pass: received >= expected, message: 'Expected: >= ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toBeLessThan: (received, expected) => ({ pass: received < expected, message: 'Expected: < ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toBeLessThanOrEqual: (received, expected) => ({ pass: received <= expected, message: 'Expected: <= ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toBeCloseTo: (received, expected, digits = 2) => ({ pass: Math.abs(received - expected) < Math.pow(10, -digits) / 2, message: 'Expected: ' + format(expected) + ' (to ' + digits + ' digits)\\nReceived: ' + format(received) }),
+        toBeInstanceOf: (received, expected) => ({ pass: received instanceof expected, message: 'Expected an instance of ' + (expected && expected.name) + '\\nReceived: ' + format(received) }),
+        toContain: (received, expected) => ({ pass: received != null && (typeof received === 'string' ? received.includes(expected) : Array.from(received).includes(expected)), message: 'Expected to contain: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toContainEqual: (received, expected) => ({ pass: received != null && Array.from(received).some(item => equals(item, expected, false)), message: 'Expected to contain: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toHaveLength: (received, expected) => ({ pass: received != null && received.length === expected, message: 'Expected length: ' + expected + '\\nReceived length: ' + (received == null ? format(received) : received.length) }),
+        toMatch: (received, expected) => ({ pass: typeof received === 'string' && (typeof expected === 'string' ? received.includes(expected) : expected.test(received)), message: 'Expected pattern: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toMatchObject: (received, expected) => ({ pass: equals(received, matchObject(expected), false), message: 'Expected: ' + format(expected) + '\\nReceived: ' + format(received) }),
+        toHaveProperty: (received, path, ...value) => {
+            const result = hasProperty(received, path);
+            const pass = result.found && (value.length === 0 || equals(result.value, value[0], false));
+            return { pass, message: 'Expected property: ' + format(path) + (value.length ? ' = ' + format(value[0]) : '') + '\\nReceived: ' + (result.found ? format(result.value) : 'no such property in ' + format(received)) };
+        },
+        toThrow: (received, expected) => {
+            if (typeof received !== 'function') return { pass: false, message: 'Received value must be a function' };
+            try {
+                received();
+            } catch (err) {
+                return { pass: toThrowMatches(err, expected), message: (expected === undefined ? '' : 'Expected: ' + format(expected) + '\\n') + 'Thrown: ' + format(err) };
+            }
+            return { pass: false, message: 'Received function did not throw' };
+        },
+        toHaveBeenCalled: (received) => {
+            const calls = assertMock(received).calls;
+            return { pass: calls.length > 0, message: 'Number of calls: ' + calls.length };
+        },
+        toHaveBeenCalledTimes: (received, expected) => {
+            const calls = assertMock(received).calls;
+            return { pass: calls.length === expected, message: 'Expected number of calls: ' + expected + '\\nReceived number of calls: ' + calls.length };
+        },
+        toHaveBeenCalledWith: (received, ...expected) => {
+            const calls = assertMock(received).calls;
+            return { pass: calls.some(args => equals(args, expected, false)), message: 'Expected call: ' + format(expected) + '\\nReceived calls: ' + format(calls) };
+        },
+        toHaveBeenLastCalledWith: (received, ...expected) => {
+            const calls = assertMock(received).calls;
+            return { pass: calls.length > 0 && equals(calls[calls.length - 1], expected, false), message: 'Expected last call: ' + format(expected) + '\\nReceived calls: ' + format(calls) };
+        },
+        toHaveBeenNthCalledWith: (received, n, ...expected) => {
+            const calls = assertMock(received).calls;
+            return { pass: calls.length >= n && equals(calls[n - 1], expected, false), message: 'Expected call ' + n + ': ' + format(expected) + '\\nReceived calls: ' + format(calls) };
+        },
+        toHaveReturnedWith: (received, expected) => {
+            const results = assertMock(received).results;
+            return { pass: results.some(result => result.type === 'return' && equals(result.value, expected, false)), message: 'Expected return value: ' + format(expected) + '\\nReceived: ' + format(results.map(result => result.value)) };
+        },
+    };
+    matchers.toThrowError = matchers.toThrow;
+    matchers.toBeCalled = matchers.toHaveBeenCalled;
+    matchers.toBeCalledTimes = matchers.toHaveBeenCalledTimes;
+    matchers.toBeCalledWith = matchers.toHaveBeenCalledWith;
+
+    // toMatchObject only compares the properties the expected object has, at every depth.
+    const matchObject = (expected) => {
+        if (isAsymmetric(expected) || expected === null || typeof expected !== 'object' || Array.isArray(expected)) {
+            return Array.isArray(expected) ? expected.map(matchObject) : expected;
+        }
+        return asymmetric(format(expected), (actual) => actual !== null && typeof actual === 'object' &&
+            Object.keys(expected).every(key => key in actual && equals(actual[key], matchObject(expected[key]), false)));
+    };
+
+    // What the running test expects of itself through expect.assertions() and expect.hasAssertions().
+    let currentTestExpectations = {};
+    const assertionCount = { value: 0 };
+
+    // A rejected promise checked with toThrow is treated like a function that throws its reason.
+    const toThrowReason = (reason, expected) => ({ pass: toThrowMatches(reason, expected), message: 'Thrown: ' + format(reason) });
+
+    const expect = (received) => {
+        const build = (isNot, modifier) => {
+            const assertions = {};
+            for (const [name, matcher] of Object.entries(matchers)) {
+                const run = modifier === 'rejects' && (name === 'toThrow' || name === 'toThrowError') ? toThrowReason : matcher;
+                assertions[name] = (...expected) => {
+                    // Created here, so the stack trace points at the assertion even when it fails asynchronously.
+                    const failure = new AssertionError();
+                    const fail = (message) => {
+                        failure.message = message;
+                        throw failure;
+                    };
+                    const check = (value) => {
+                        assertionCount.value++;
+                        const { pass, message } = run(value, ...expected);
+                        const call = 'expect(received).' + (modifier ? modifier + '.' : '') + (isNot ? 'not.' : '') + name + '(' + expected.map(item => format(item)).join(', ') + ')';
+                        if (pass === isNot) fail(call + '\\n\\n' + message);
+                    };
+                    if (!modifier) return check(received);
+                    return Promise.resolve(received).then(
+                        (value) => modifier === 'rejects' ? fail('Expected the promise to reject, but it resolved with ' + format(value)) : check(value),
+                        (reason) => modifier === 'resolves' ? fail('Expected the promise to resolve, but it rejected with ' + format(reason)) : check(reason),
+                    );
+                };
+            }
+            return assertions;
+        };
+        const assertions = build(false);
+        assertions.not = build(true);
+        assertions.resolves = build(false, 'resolves');
+        assertions.resolves.not = build(true, 'resolves');
+        assertions.rejects = build(false, 'rejects');
+        assertions.rejects.not = build(true, 'rejects');
+        return assertions;
+    };
+    expect.any = (type) => asymmetric('Any<' + (type && type.name) + '>', (actual) =>
+        actual !== null && actual !== undefined && (actual instanceof type || (type === Number && typeof actual === 'number') || (type === String && typeof actual === 'string') ||
+        (type === Boolean && typeof actual === 'boolean') || (type === Function && typeof actual === 'function') || (type === Object && typeof actual === 'object')));
+    expect.anything = () => asymmetric('Anything', (actual) => actual !== null && actual !== undefined);
+    expect.objectContaining = (expected) => asymmetric('ObjectContaining ' + format(expected), (actual) =>
+        actual !== null && typeof actual === 'object' && Object.keys(expected).every(key => key in actual && equals(actual[key], expected[key], false)));
+    expect.arrayContaining = (expected) => asymmetric('ArrayContaining ' + format(expected), (actual) =>
+        Array.isArray(actual) && expected.every(item => actual.some(other => equals(other, item, false))));
+    expect.stringContaining = (expected) => asymmetric('StringContaining ' + format(expected), (actual) => typeof actual === 'string' && actual.includes(expected));
+    expect.stringMatching = (expected) => asymmetric('StringMatching ' + format(expected), (actual) => typeof actual === 'string' && new RegExp(expected).test(actual));
+    expect.assertions = (count) => { currentTestExpectations.assertions = count; };
+    expect.hasAssertions = () => { currentTestExpectations.hasAssertions = true; };
+
+    // --- Collecting tests ---
+
+    const createSuite = (name, parent, mode) => ({ name, parent, mode, children: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] });
+    let root = createSuite('', null, 'run');
+    let currentSuite = root;
+
+    const addSuite = (mode) => (name, body) => {
+        const suite = createSuite(String(name), currentSuite, mode);
+        currentSuite.children.push(suite);
+        const parent = currentSuite;
+        currentSuite = suite;
+        try {
+            if (body) body();
+        } finally {
+            currentSuite = parent;
+        }
+    };
+
+    const addTest = (mode) => (name, body, timeout) => {
+        currentSuite.children.push({ name: String(name), body, mode: body ? mode : 'todo', timeout: typeof timeout === 'number' ? timeout : DEFAULT_TIMEOUT, parent: currentSuite });
+    };
+
+    // "%s", "%d", "%i", "%f", "%j", "%o", "%p" take the next argument, "%#" is the row index and "$name" reads a property.
+    const formatTitle = (title, args, index) => {
+        let next = 0;
+        const row = args[0];
+        return String(title)
+            .replace(/%[sdifjop#%]/g, (token) => {
+                if (token === '%%') return '%';
+                if (token === '%#') return String(index);
+                const value = args[next++];
+                if (token === '%s') return typeof value === 'string' ? value : format(value);
+                if (token === '%d' || token === '%i') return String(token === '%i' ? Math.trunc(value) : Number(value));
+                if (token === '%f') return String(Number(value));
+                return format(value);
+            })
+            .replace(/\\$([A-Za-z_][\\w.]*)/g, (match, path) => row !== null && typeof row === 'object' && !Array.isArray(row) ? format(hasProperty(row, path).value) : match);
+    };
+
+    const withEach = (register) => {
+        register.each = (table) => (title, body, timeout) => table.forEach((row, index) => {
+            const args = Array.isArray(row) ? row : [row];
+            register(formatTitle(title, args, index), body && (() => body(...args)), timeout);
+        });
+        return register;
+    };
+
+    const describe = withEach(addSuite('run'));
+    describe.only = withEach(addSuite('only'));
+    describe.skip = withEach(addSuite('skip'));
+
+    const it = withEach(addTest('run'));
+    it.only = withEach(addTest('only'));
+    it.skip = withEach(addTest('skip'));
+    it.todo = (name) => addTest('todo')(name);
+    it.skipIf = (condition) => condition ? it.skip : it;
+    it.runIf = (condition) => condition ? it : it.skip;
+    describe.skipIf = (condition) => condition ? describe.skip : describe;
+    describe.runIf = (condition) => condition ? describe : describe.skip;
+
+    const addHook = (kind) => (body) => { currentSuite[kind].push(body); };
+
+    // --- Running tests ---
+
+    const now = () => performance.now();
+
+    const withTimeout = (body, timeout) => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Test timed out in ' + timeout + ' ms.')), timeout);
+        let result;
+        try {
+            // Bodies that take a "done" callback finish when it is called.
+            result = body.length > 0 ? new Promise((done, fail) => body((err) => err ? fail(err) : done())) : body();
+        } catch (err) {
+            clearTimeout(timer);
+            reject(err);
+            return;
+        }
+        Promise.resolve(result).then(
+            () => { clearTimeout(timer); resolve(); },
+            (err) => { clearTimeout(timer); reject(err); },
+        );
+    });
+
+    // Errors created by another document (e.g. a package's own frame) fail instanceof Error.
+    const toTestError = (err) => {
+        if (err instanceof Error || (err !== null && typeof err === 'object' && typeof err.message === 'string' && 'stack' in err)) {
+            const stack = String(err.stack || '');
+            return { message: (err.name && err.name !== 'Error' && err.name !== 'AssertionError' ? err.name + ': ' : '') + err.message, stack };
+        }
+        return { message: 'Thrown: ' + format(err) };
+    };
+
+    const hasOnly = (suite) => suite.children.some(child => child.mode === 'only' || (child.children && hasOnly(child)));
+
+    const ancestorsOf = (node) => {
+        const names = [];
+        for (let suite = node.parent; suite && suite.parent; suite = suite.parent) names.unshift(suite.name);
+        return names;
+    };
+
+    const collectHooks = (suite, kind) => {
+        const hooks = [];
+        for (let current = suite; current; current = current.parent) {
+            if (kind === 'beforeEach') hooks.unshift(...current[kind]);
+            else hooks.push(...current[kind]);
+        }
+        return hooks;
+    };
+
+    const runTest = async (test, results) => {
+        const result = { ancestors: ancestorsOf(test), name: test.name, status: 'passed', duration: 0 };
+        const start = now();
+        currentTestExpectations = {};
+        assertionCount.value = 0;
+        try {
+            for (const hook of collectHooks(test.parent, 'beforeEach')) await withTimeout(hook, test.timeout);
+            await withTimeout(test.body, test.timeout);
+            const { assertions, hasAssertions } = currentTestExpectations;
+            if (assertions !== undefined && assertionCount.value !== assertions) throw new AssertionError('Expected ' + assertions + ' assertions to be called, but received ' + assertionCount.value);
+            if (hasAssertions && assertionCount.value === 0) throw new AssertionError('Expected at least one assertion to be called, but received none');
+        } catch (err) {
+            result.status = 'failed';
+            result.error = toTestError(err);
+        }
+        for (const hook of collectHooks(test.parent, 'afterEach')) {
+            try {
+                await withTimeout(hook, test.timeout);
+            } catch (err) {
+                if (result.status !== 'failed') {
+                    result.status = 'failed';
+                    result.error = toTestError(err);
+                }
+            }
+        }
+        result.duration = Math.round(now() - start);
+        results.push(result);
+    };
+
+    const skipAll = (suite, status, results) => {
+        for (const child of suite.children) {
+            if (child.children) skipAll(child, status, results);
+            else results.push({ ancestors: ancestorsOf(child), name: child.name, status: child.mode === 'todo' ? 'todo' : status, duration: 0 });
+        }
+    };
+
+    // afterAll hooks run when their tests have already been reported, so their errors fail the whole file.
+    let afterAllError = null;
+
+    // With .only anywhere in the file, only focused tests and the tests in focused suites run.
+    const runSuite = async (suite, results, onlyMode, isFocused) => {
+        const isSuiteFocused = isFocused || suite.mode === 'only';
+        const runs = (child) => {
+            if (child.mode === 'skip' || child.mode === 'todo') return false;
+            if (!onlyMode) return true;
+            if (child.children) return isSuiteFocused || child.mode === 'only' || hasOnly(child);
+            return isSuiteFocused || child.mode === 'only';
+        };
+        if (!suite.children.some(runs)) {
+            skipAll(suite, 'skipped', results);
+            return;
+        }
+        let hookError = null;
+        for (const hook of suite.beforeAll) {
+            try {
+                await withTimeout(hook, DEFAULT_TIMEOUT);
+            } catch (err) {
+                hookError = toTestError(err);
+                break;
+            }
+        }
+        for (const child of suite.children) {
+            if (!runs(child)) {
+                if (child.children) skipAll(child, 'skipped', results);
+                else results.push({ ancestors: ancestorsOf(child), name: child.name, status: child.mode === 'todo' ? 'todo' : 'skipped', duration: 0 });
+            } else if (hookError) {
+                // Tests whose beforeAll hook failed fail with its error.
+                const failed = [];
+                if (child.children) skipAll(child, 'failed', failed);
+                else failed.push({ ancestors: ancestorsOf(child), name: child.name, status: 'failed', duration: 0 });
+                for (const result of failed) results.push(result.status === 'failed' ? { ...result, error: hookError } : result);
+            } else if (child.children) {
+                await runSuite(child, results, onlyMode, isSuiteFocused);
+            } else {
+                await runTest(child, results);
+            }
+        }
+        for (const hook of suite.afterAll) {
+            try {
+                await withTimeout(hook, DEFAULT_TIMEOUT);
+            } catch (err) {
+                if (!afterAllError) afterAllError = toTestError(err);
+            }
+        }
+    };
+
+    const runFile = async (path, load) => {
+        const start = now();
+        root = createSuite('', null, 'run');
+        currentSuite = root;
+        afterAllError = null;
+        const tests = [];
+        let error;
+        try {
+            await load();
+            await runSuite(root, tests, hasOnly(root), false);
+        } catch (err) {
+            error = toTestError(err);
+        }
+        vi.restoreAllMocks();
+        mocks.clear();
+        return { path, tests, error: error || afterAllError || undefined, duration: Math.round(now() - start) };
+    };
+
+    const api = {
+        describe, it, test: it, expect, vi, jest: vi,
+        beforeAll: addHook('beforeAll'), afterAll: addHook('afterAll'),
+        beforeEach: addHook('beforeEach'), afterEach: addHook('afterEach'),
+    };
+    Object.assign(window, api);
+    window.__quantumTest = { ...api, runFile };
+})();
+`;
+
+/** Points the errors in test results at the workspace sources, as the console does for the preview's errors. */
+export const mapTestResults = (files: TestFileResult[], sourceMaps: PreviewSourceMaps): TestFileResult[] => {
+    const mapError = (error?: TestError): TestError | undefined => {
+        if (!error) return undefined;
+        const mapped = { message: mapPreviewLocations(error.message, sourceMaps), stack: error.stack && mapPreviewLocations(error.stack, sourceMaps) };
+        return { ...mapped, location: findErrorLocation(mapped) };
+    };
+    return files.map(file => ({ ...file, error: mapError(file.error), tests: file.tests.map(test => ({ ...test, error: mapError(test.error) })) }));
+};
+
+export const countTestResults = (files: TestFileResult[]) => {
+    const counts = { passed: 0, failed: 0, skipped: 0, todo: 0 };
+    for (const file of files) {
+        if (file.error) counts.failed++;
+        for (const test of file.tests) counts[test.status]++;
+    }
+    return counts;
+};
+
+// Keeps a long failure (e.g. a large object diff) from taking over the AI context.
+const MAX_FAILURE_LENGTH = 1500;
+
+/** The failing tests and test files, with their errors and where they were raised, for the AI. */
+export const describeFailingTests = (files: TestFileResult[]): string => {
+    const failures: string[] = [];
+    const describeError = (title: string, error: TestError) => {
+        const message = error.message.length > MAX_FAILURE_LENGTH ? `${error.message.slice(0, MAX_FAILURE_LENGTH)}…` : error.message;
+        const location = error.location ? `\n  at ${error.location.path}:${error.location.line}:${error.location.column}` : '';
+        failures.push(`${title}\n  ${message.replace(/\n/g, '\n  ')}${location}`);
+    };
+    for (const file of files) {
+        if (file.error) describeError(`${file.path} (failed to run)`, file.error);
+        for (const test of file.tests) {
+            if (test.status === 'failed' && test.error) describeError([file.path, ...test.ancestors, test.name].join(' › '), test.error);
+        }
+    }
+    return failures.join('\n\n');
+};
@@ -0,0 +1,85 @@
+import type * as BabelStandalone from '@babel/standalone';
+import type ReactRefreshBabel from 'react-refresh/babel';
+import type { PreviewModules } from './previewBundler';
+import { PREVIEW_RUNTIME_VERSION } from './previewRuntime';
+import type { PreviewSourceMaps } from './sourceMaps';
+
+type Babel = typeof BabelStandalone;
+type RefreshPlugin = typeof ReactRefreshBabel;
+
+// Babel is large, so it is only loaded the first time the preview renders.
+let babelPromise: Promise<Babel> | null = null;
+const loadBabel = () => babelPromise ??= import('@babel/standalone').then(module => ('transform' in module ? module : (module as { default: Babel }).default));
+
+let refreshPluginPromise: Promise<RefreshPlugin> | null = null;
+const loadRefreshPlugin = () => refreshPluginPromise ??= import('react-refresh/babel').then(module => ('default' in module ? module.default : module) as RefreshPlugin);
+
+// Most refreshes change one file; everything else comes from here. Oldest entries are dropped first.
+const MAX_CACHED_MODULES = 1000;
+const transpileCache = new Map<string, TranspiledModule>();
+
+interface TranspiledModule {
+    code: string;
+    /** Source map mappings, for modules Babel compiled. */
+    mappings?: string;
+}
+
+export interface CompiledPreview {
+    modules: PreviewModules;
+    sourceMaps: PreviewSourceMaps;
+}
+
+// Re-running the module after a hot update replaces its stylesheet instead of adding another one.
+const toStyleModule = (path: string, source: string) =>
+    `let style = Array.from(document.querySelectorAll("style[data-path]")).find(s => s.getAttribute("data-path") === ${JSON.stringify(path)});` +
+    `if (!style) { style = document.createElement("style"); style.setAttribute("data-path", ${JSON.stringify(path)}); document.head.appendChild(style); }` +
+    `style.textContent = ${JSON.stringify(source)};`;
+
+const transpileModule = (babel: Babel, refreshPlugin: RefreshPlugin, path: string, source: string): TranspiledModule => {
+    if (path.endsWith('.json')) return { code: `module.exports = ${source};` };
+    if (path.endsWith('.css')) return { code: toStyleModule(path, source) };
+    const isTSX = path.endsWith('.tsx') || path.endsWith('.jsx');
+    try {
+        const result = babel.transform(source, {
+            filename: path,
+            presets: [['typescript', { isTSX, allExtensions: true }], 'react'],
+            // Registers components with React Fast Refresh, so hot updates keep their state (see `buildModuleLoaderScript`).
+            plugins: [[refreshPlugin, { skipEnvCheck: true }], 'transform-modules-commonjs'],
+            // Maps stack traces from the preview back to the workspace file (see `mapPreviewLocations`).
+            sourceMaps: true,
+        });
+        return { code: result.code || '', mappings: result.map?.mappings };
+    } catch (err) {
+        // Babel's message starts with the file name; the full location replaces it so the console can link to it.
+        const loc = (err as { loc?: { line: number; column: number } }).loc;
+        const message = err instanceof Error ? err.message.replace(/^\/?[^\s:]+: /, '') : String(err);
+        const location = loc ? `${path}:${loc.line}:${loc.column + 1}` : path;
+        // Thrown when the module is loaded, so the preview reports it like any other error.
+        return { code: `throw new SyntaxError(${JSON.stringify(`Failed to compile ${location}: ${message}`)});` };
+    }
+};
+
+/**
+ * Compiles every preview module to a CommonJS factory body in the IDE, before it is sent to the iframe.
+ * Results are cached by path, content and runtime version, so unchanged files are not compiled again.
+ * Alongside the modules it returns their source maps, to map preview stack traces back to the sources.
+ */
+export const transpilePreviewModules = async (modules: PreviewModules): Promise<CompiledPreview> => {
+    const [babel, refreshPlugin] = await Promise.all([loadBabel(), loadRefreshPlugin()]);
+    const compiled: CompiledPreview = { modules: {}, sourceMaps: {} };
+    for (const [path, source] of Object.entries(modules)) {
+        const key = `${PREVIEW_RUNTIME_VERSION}\0${path}\0${source}`;
+        let transpiled = transpileCache.get(key);
+        if (transpiled === undefined) {
+            transpiled = transpileModule(babel, refreshPlugin, path, source);
+            if (transpileCache.size >= MAX_CACHED_MODULES) transpileCache.delete(transpileCache.keys().next().value);
+        } else {
+            // Re-inserted so recently used modules are evicted last.
+            transpileCache.delete(key);
+        }
+        transpileCache.set(key, transpiled);
+        compiled.modules[path] = transpiled.code;
+        if (transpiled.mappings) compiled.sourceMaps[path] = transpiled.mappings;
+    }
+    return compiled;
+};
@@ -0,0 +1,147 @@
+import type { ConsoleValue, FileSystemTree, PreviewProblem } from '../types';
+import { buildModuleLoaderScript, collectPreviewModules, PREVIEW_ENTRY_PATH, type PreviewModules } from './previewBundler';
+import { transpilePreviewModules } from './previewTranspiler';
+import { buildRuntimeScriptTags } from './previewRuntime';
+import { findPackageImports, parseDependencies, resolvePreviewPackages, PACKAGE_MANIFEST_PATH, type PreviewPackages } from './previewPackages';
+import { buildConsoleScript, findErrorLocation, formatSourceExcerpt, mapPreviewLocations } from './previewConsole';
+import { findNodeByPath } from './fileSystem';
+
+/** How many times the AI may try to repair the errors its changes caused before the task gives up. */
+export const MAX_VERIFICATION_REPAIRS = 2;
+
+// How long the app may take to load its modules and packages before the check gives up on it.
+const RENDER_TIMEOUT_MS = 20_000;
+// Errors are collected this long after the first render, for effects and requests that fail a moment later.
+const SETTLE_MS = 2_000;
+// More would only make the repair prompt longer; the first errors usually cause the rest.
+const MAX_PROBLEMS = 10;
+
+// Like the preview's render script, but it reports whether the app rendered instead of showing the error.
+const buildVerificationDocument = (compiledModules: PreviewModules, packages: PreviewPackages): string => `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        ${buildRuntimeScriptTags(packages.imports)}
+        <script>${buildConsoleScript()}</script>
+    </head>
+    <body>
+        <div id="root"></div>
+        <script type="module">${buildModuleLoaderScript(compiledModules, PREVIEW_ENTRY_PATH, packages)}</script>
+        <script type="module">
+            const reportRenderError = (err) => window.parent.postMessage({ type: 'verification-render-error', message: String(err && err.message || err), stack: err && err.stack }, '*');
+            try {
+                await window.__quantumModules.loadPackages();
+                const entry = window.__quantumModules.load(${JSON.stringify(PREVIEW_ENTRY_PATH)});
+                const App = entry.default || entry.App;
+                if (typeof App !== 'function' && typeof App !== 'object') {
+                    throw new Error(${JSON.stringify(PREVIEW_ENTRY_PATH)} + ' must export an App component, e.g. "export default App;".');
+                }
+                const root = ReactDOM.createRoot(document.getElementById('root'), { onUncaughtError: reportRenderError });
+                root.render(React.createElement(App));
+                window.parent.postMessage({ type: 'verification-rendered' }, '*');
+            } catch (err) {
+                reportRenderError(err);
+            }
+        </script>
+    </body>
+    </html>
+`;
+
+/**
+ * Renders the app of `tree` in a hidden iframe, the way the preview would, and collects the errors it
+ * raises: a render that fails (a module that does not compile or throws, a component that throws) and
+ * anything logged with console.error() within a moment of rendering. Resolves to an empty list when the
+ * app rendered cleanly. Stack traces and locations point at the workspace sources. Once the app has
+ * rendered and settled, `inspect` may look at the iframe (e.g. to capture it) before it is removed.
+ */
+export const verifyPreview = async (tree: FileSystemTree, signal?: AbortSignal, inspect?: (iframe: HTMLIFrameElement) => Promise<void>): Promise<PreviewProblem[]> => {
+    const sourceModules = collectPreviewModules(tree);
+    const { modules: compiledModules, sourceMaps } = await transpilePreviewModules(sourceModules);
+    const packages = await resolvePreviewPackages(findPackageImports(compiledModules), parseDependencies(sourceModules[PACKAGE_MANIFEST_PATH]));
+    signal?.throwIfAborted();
+
+    const problems: PreviewProblem[] = [];
+    const addProblem = (kind: PreviewProblem['kind'], data: { message: string; stack?: string; args?: ConsoleValue[] }) => {
+        const mapLocations = (text: string) => mapPreviewLocations(text, sourceMaps);
+        const message = mapLocations(data.message);
+        // React in development logs some errors twice.
+        if (problems.length >= MAX_PROBLEMS || problems.some(problem => problem.message === message)) return;
+        const stack = data.stack || data.args?.find(arg => arg.stack)?.stack;
+        const sourceStack = stack ? mapLocations(stack) : undefined;
+        problems.push({ kind, message, stack: sourceStack, location: findErrorLocation({ message, stack: sourceStack }) });
+    };
+
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.tabIndex = -1;
+    // Off screen rather than display: none, so the app lays out the way it does in the preview.
+    iframe.style.cssText = 'position: fixed; left: -10000px; top: 0; width: 1280px; height: 800px; visibility: hidden;';
+
+    return new Promise<PreviewProblem[]>((resolve, reject) => {
+        let settleTimeoutId: ReturnType<typeof setTimeout> | undefined;
+        let isFinished = false;
+        const cleanUp = () => {
+            isFinished = true;
+            clearTimeout(renderTimeoutId);
+            clearTimeout(settleTimeoutId);
+            window.removeEventListener('message', handleMessage);
+            signal?.removeEventListener('abort', handleAbort);
+            iframe.remove();
+        };
+        const finish = () => {
+            cleanUp();
+            resolve(problems);
+        };
+        const settle = async () => {
+            try {
+                if (inspect) await inspect(iframe);
+            } catch (err) {
+                cleanUp();
+                reject(err);
+                return;
+            }
+            // A render error while inspecting has already finished the check.
+            if (!isFinished) finish();
+        };
+        const handleAbort = () => {
+            cleanUp();
+            reject(signal!.reason);
+        };
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframe.contentWindow || !event.data) return;
+            if (event.data.type === 'console' && event.data.level === 'error') {
+                addProblem('console', event.data);
+            } else if (event.data.type === 'verification-render-error') {
+                // The app is unmounted after an uncaught error, so there is nothing left to wait for.
+                addProblem('render', event.data);
+                finish();
+            } else if (event.data.type === 'verification-rendered') {
+                clearTimeout(renderTimeoutId);
+                settleTimeoutId = setTimeout(settle, SETTLE_MS);
+            }
+        };
+        const renderTimeoutId = setTimeout(() => {
+            addProblem('render', { message: `The app did not finish loading within ${RENDER_TIMEOUT_MS / 1000} seconds.` });
+            finish();
+        }, RENDER_TIMEOUT_MS);
+
+        window.addEventListener('message', handleMessage);
+        signal?.addEventListener('abort', handleAbort);
+        iframe.srcdoc = buildVerificationDocument(compiledModules, packages);
+        document.body.appendChild(iframe);
+    });
+};
+
+/** The problems as the AI is shown them, with the source lines around each location. */
+export const describePreviewProblems = (problems: PreviewProblem[], tree: FileSystemTree): string => problems.map(problem => {
+    const lines = [`${problem.kind === 'render' ? 'The app failed to render' : 'Console error'}: ${problem.message}`];
+    const { location } = problem;
+    const node = location && findNodeByPath(location.path, tree);
+    if (location && node?.type === 'file') {
+        lines.push(`Raised at ${location.path}, line ${location.line}, column ${location.column}:\n\`\`\`\n${formatSourceExcerpt(node.content, location.line)}\n\`\`\``);
+    }
+    return lines.join('\n');
+}).join('\n\n');
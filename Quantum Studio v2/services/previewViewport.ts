@@ -0,0 +1,50 @@
+import type { PreviewViewport, ViewportPresetId } from '../types';
+
+export interface ViewportPreset {
+    id: ViewportPresetId;
+    label: string;
+    /** Absent for 'responsive' and 'custom', which do not set a size. */
+    size?: { width: number; height: number };
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+    { id: 'responsive', label: 'Responsive' },
+    { id: 'mobile', label: 'Mobile', size: { width: 390, height: 844 } },
+    { id: 'tablet', label: 'Tablet', size: { width: 820, height: 1180 } },
+    { id: 'desktop', label: 'Desktop', size: { width: 1440, height: 900 } },
+    { id: 'custom', label: 'Custom' },
+];
+
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const DEFAULT_PREVIEW_VIEWPORT: PreviewViewport = {
+    preset: 'responsive',
+    width: 390,
+    height: 844,
+    isRotated: false,
+    zoom: 'fit',
+    colorScheme: 'light',
+};
+
+/** The size the preview document sees, after rotation. */
+export const getViewportSize = (viewport: PreviewViewport): { width: number; height: number } =>
+    viewport.isRotated ? { width: viewport.height, height: viewport.width } : { width: viewport.width, height: viewport.height };
+
+/** Switches to a preset, keeping the current size for 'custom' so it can be adjusted from there. */
+export const applyViewportPreset = (viewport: PreviewViewport, presetId: ViewportPresetId): PreviewViewport => {
+    const preset = VIEWPORT_PRESETS.find(p => p.id === presetId);
+    return { ...viewport, preset: presetId, ...preset?.size, isRotated: preset?.size ? false : viewport.isRotated };
+};
+
+/** One line for the AI context, e.g. "Mobile, 390×844 px (portrait), zoom fit, prefers-color-scheme: dark". */
+export const describeViewport = (viewport: PreviewViewport): string => {
+    const scheme = `prefers-color-scheme: ${viewport.colorScheme}`;
+    if (viewport.preset === 'responsive') return `Responsive (fills the preview pane), ${scheme}`;
+    const { width, height } = getViewportSize(viewport);
+    const label = VIEWPORT_PRESETS.find(p => p.id === viewport.preset)?.label || viewport.preset;
+    const zoom = viewport.zoom === 'fit' ? 'fit' : `${Math.round(viewport.zoom * 100)}%`;
+    return `${label}, ${width}×${height} px (${height >= width ? 'portrait' : 'landscape'}), zoom ${zoom}, ${scheme}`;
+};
@@ -0,0 +1,55 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMProvider } from './types';
+
+const clients = new Map<string, GoogleGenAI>();
+
+// Clients are created lazily so a missing key only fails the task that needs it, not the whole IDE.
+const getClient = (apiKey: string | undefined): GoogleGenAI => {
+    const key = apiKey || process.env.API_KEY;
+    if (!key) {
+        throw new Error("No Gemini API key configured. Set GEMINI_API_KEY or add a key in the workspace AI settings.");
+    }
+    let client = clients.get(key);
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: key });
+        clients.set(key, client);
+    }
+    return client;
+};
+
+export const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    requiresApiKey: true,
+    generateStream: async function* (request, settings) {
+        const ai = getClient(settings.apiKey);
+
+        const promptParts = [];
+        promptParts.push({ text: request.prompt });
+
+        if (request.imageB64) {
+            const [header, base64Data] = request.imageB64.split(',');
+            promptParts.push({
+                inlineData: {
+                    mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg',
+                    data: base64Data,
+                },
+            });
+        }
+
+        const result = await ai.models.generateContentStream({
+            model: settings.model || geminiProvider.defaultModel,
+            contents: { parts: promptParts },
+            config: {
+                systemInstruction: request.systemInstruction,
+                abortSignal: request.signal,
+                ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+            }
+        });
+
+        for await (const chunk of result) {
+            if (chunk.text) yield chunk.text;
+        }
+    },
+};
@@ -0,0 +1,21 @@
+import type { AIProviderSettings, LLMProviderId } from '../../types';
+import type { LLMProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { mockProvider } from './mockProvider';
+
+export type { LLMProvider, LLMRequest } from './types';
+export { recordMockResponse } from './mockProvider';
+
+export const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+    'gemini': geminiProvider,
+    'openai-compatible': openAICompatibleProvider,
+    'mock': mockProvider,
+};
+
+export const getProvider = (id: LLMProviderId): LLMProvider => PROVIDERS[id] || mockProvider;
+
+// Without a build-time Gemini key the IDE starts on the mock provider instead of failing.
+export const DEFAULT_AI_SETTINGS: AIProviderSettings = process.env.API_KEY
+    ? { providerId: 'gemini', model: geminiProvider.defaultModel }
+    : { providerId: 'mock', model: mockProvider.defaultModel };
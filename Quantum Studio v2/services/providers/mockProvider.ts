@@ -0,0 +1,58 @@
+import type { LLMProvider } from './types';
+
+const LOCAL_STORAGE_RECORDINGS_KEY = 'quantum_code_mock_recordings';
+const MAX_RECORDINGS = 50;
+const REPLAY_CHUNK_SIZE = 48;
+
+interface MockRecording {
+    userPrompt: string;
+    response: string;
+    recordedAt: string;
+}
+
+const normalizePrompt = (prompt: string) => prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const loadRecordings = (): MockRecording[] => {
+    try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_RECORDINGS_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to load mock recordings", error);
+        return [];
+    }
+};
+
+/** Stores a real provider's response so the mock provider can replay it for the same prompt later. */
+export const recordMockResponse = (userPrompt: string, response: string) => {
+    const key = normalizePrompt(userPrompt);
+    const recordings = loadRecordings().filter(r => normalizePrompt(r.userPrompt) !== key);
+    recordings.unshift({ userPrompt, response, recordedAt: new Date().toISOString() });
+    try {
+        localStorage.setItem(LOCAL_STORAGE_RECORDINGS_KEY, JSON.stringify(recordings.slice(0, MAX_RECORDINGS)));
+    } catch (error) {
+        console.error("Failed to save mock recording", error);
+    }
+};
+
+const fallbackResponse = (userPrompt: string) =>
+    `The mock provider has no recorded response for "${userPrompt.substring(0, 80)}". ` +
+    `Run this prompt once with a real provider to record a response, then switch back to the mock provider to replay it offline.`;
+
+export const mockProvider: LLMProvider = {
+    id: 'mock',
+    label: 'Mock (offline replay)',
+    defaultModel: 'recorded',
+    requiresApiKey: false,
+    generateStream: async function* (request) {
+        const key = normalizePrompt(request.userPrompt);
+        const recording = loadRecordings().find(r => normalizePrompt(r.userPrompt) === key);
+        const response = recording ? recording.response : fallbackResponse(request.userPrompt);
+
+        // Replay in fixed-size chunks so streaming UI paths are exercised deterministically.
+        for (let i = 0; i < response.length; i += REPLAY_CHUNK_SIZE) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            request.signal?.throwIfAborted();
+            yield response.slice(i, i + REPLAY_CHUNK_SIZE);
+        }
+    },
+};
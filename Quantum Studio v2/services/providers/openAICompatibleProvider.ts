@@ -0,0 +1,74 @@
+import type { LLMProvider } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Reads a server-sent events body and yields the `data:` payload of each event.
+const readServerSentEvents = async function* (body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let newlineIdx: number;
+            while ((newlineIdx = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, newlineIdx).trim();
+                buffer = buffer.slice(newlineIdx + 1);
+                if (line.startsWith('data:')) yield line.slice(5).trim();
+            }
+        }
+        const rest = buffer.trim();
+        if (rest.startsWith('data:')) yield rest.slice(5).trim();
+    } finally {
+        reader.releaseLock();
+    }
+};
+
+export const openAICompatibleProvider: LLMProvider = {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible API',
+    defaultModel: 'gpt-4o-mini',
+    requiresApiKey: false,
+    generateStream: async function* (request, settings) {
+        const baseUrl = (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+        const userContent = request.imageB64
+            ? [{ type: 'text', text: request.prompt }, { type: 'image_url', image_url: { url: request.imageB64 } }]
+            : request.prompt;
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal: request.signal,
+            body: JSON.stringify({
+                model: settings.model || openAICompatibleProvider.defaultModel,
+                stream: true,
+                messages: [
+                    { role: 'system', content: request.systemInstruction },
+                    { role: 'user', content: userContent },
+                ],
+                ...(request.responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } } : {}),
+            }),
+        });
+
+        if (!response.ok || !response.body) {
+            const details = await response.text().catch(() => '');
+            throw new Error(`OpenAI-compatible provider returned HTTP ${response.status}. ${details}`.trim());
+        }
+
+        for await (const data of readServerSentEvents(response.body)) {
+            if (data === '[DONE]') return;
+            try {
+                const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            } catch (e) {
+                console.warn('Skipping malformed stream event from OpenAI-compatible provider:', data);
+            }
+        }
+    },
+};
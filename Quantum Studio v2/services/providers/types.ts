@@ -0,0 +1,18 @@
+import type { AIProviderSettings, LLMProviderId } from '../../types';
+
+export interface LLMRequest {
+    systemInstruction: string;
+    prompt: string;
+    userPrompt: string; // the prompt without serialized context, used to key mock recordings
+    imageB64?: string | null; // data URL, e.g. "data:image/jpeg;base64,..."
+    responseSchema?: object; // JSON Schema the response must follow, for providers that support structured output
+    signal?: AbortSignal; // aborts the request when the user cancels the task
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    label: string;
+    defaultModel: string;
+    requiresApiKey: boolean;
+    generateStream: (request: LLMRequest, settings: AIProviderSettings) => AsyncGenerator<string, void, undefined>;
+}
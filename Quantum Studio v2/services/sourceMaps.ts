@@ -0,0 +1,75 @@
+/** Workspace path -> the `mappings` of its compiled module's source map (v3, base64 VLQ). */
+export type PreviewSourceMaps = { [path: string]: string };
+
+// Per compiled line: [compiled column, original line, original column] segments, all zero-based.
+type DecodedMappings = number[][][];
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const decodeVlq = (segment: string): number[] => {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_DIGITS.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+};
+
+// Every value but the compiled column is relative to the previous segment in the whole map, not the line.
+const decodeMappings = (mappings: string): DecodedMappings => {
+    let originalLine = 0;
+    let originalColumn = 0;
+    return mappings.split(';').map(line => {
+        let column = 0;
+        const segments: number[][] = [];
+        for (const segment of line.split(',')) {
+            if (!segment) continue;
+            const [columnDelta, , lineDelta, columnDeltaInSource] = decodeVlq(segment);
+            column += columnDelta;
+            // One-value segments mark generated code with no original position.
+            if (lineDelta === undefined) continue;
+            originalLine += lineDelta;
+            originalColumn += columnDeltaInSource;
+            segments.push([column, originalLine, originalColumn]);
+        }
+        return segments;
+    });
+};
+
+const decodedMappings = new Map<string, DecodedMappings>();
+
+const getDecodedMappings = (mappings: string): DecodedMappings => {
+    let decoded = decodedMappings.get(mappings);
+    if (!decoded) {
+        // Each build has a map per module; only the latest versions are worth keeping decoded.
+        if (decodedMappings.size >= 200) decodedMappings.clear();
+        decoded = decodeMappings(mappings);
+        decodedMappings.set(mappings, decoded);
+    }
+    return decoded;
+};
+
+/**
+ * Maps a position in a compiled module back to its source. Lines and columns start at 1, as in stack
+ * traces. Returns null when the position is in code the compiler added.
+ */
+export const mapToSource = (mappings: string, line: number, column: number): { line: number; column: number } | null => {
+    const segments = getDecodedMappings(mappings)[line - 1];
+    if (!segments?.length) return null;
+    // The last segment starting at or before the column covers it.
+    let match = segments[0];
+    for (const segment of segments) {
+        if (segment[0] > column - 1) break;
+        match = segment;
+    }
+    return { line: match[1] + 1, column: match[2] + 1 };
+};
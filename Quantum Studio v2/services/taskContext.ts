@@ -0,0 +1,201 @@
+import type { ContextFileEntry, FileOperation, FileSystemTree, SelectedElement, WorkspaceUiState, Workspace } from '../types';
+import { diffTrees, flattenFiles } from './fileSystem';
+import { PREVIEW_ENTRY_PATH } from './previewBundler';
+import { PACKAGE_MANIFEST_PATH } from './previewPackages';
+import { estimateTokens } from './tokenEstimate';
+
+/** Token budget of a whole task request, when the AI settings do not set one. */
+export const DEFAULT_CONTEXT_BUDGET = 60_000;
+
+// Outlines keep a file's imports and top-level declarations, trimmed to this size.
+const MAX_OUTLINE_LINES = 40;
+const MAX_OUTLINE_LINE_LENGTH = 160;
+// Recent edits are read from this many of the newest history snapshots.
+const RECENT_SNAPSHOTS = 5;
+const MAX_REASONS = 3;
+const RESOLVED_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.json', '.css'];
+
+/** What the IDE knows about the user's focus, besides the prompt and the open editors. */
+export interface ContextHints {
+    selectedElement: SelectedElement | null;
+    /** Newest first. */
+    recentlyEditedPaths: string[];
+}
+
+export interface FileContext {
+    text: string;
+    files: ContextFileEntry[];
+}
+
+/** Paths changed by the workspace's newest history entries (AI tasks, edits, file operations), newest first. */
+export const findRecentlyEditedPaths = (workspace: Workspace): string[] => {
+    const paths = new Set<string>();
+    const snapshots = (workspace.history || []).slice(0, RECENT_SNAPSHOTS);
+    snapshots.forEach((snapshot, index) => {
+        // A snapshot holds the tree from before its change; the change is what the next newer tree differs in.
+        const after = index === 0 ? workspace.fileSystem : snapshots[index - 1].fileSystem;
+        for (const op of diffTrees(snapshot.fileSystem, after)) paths.add(op.path);
+    });
+    return [...paths];
+};
+
+/**
+ * Updates that replace a file the AI was only shown as an outline or by path, one reason per file.
+ * Their content was written without the rest of the file, so they are never applied without review.
+ */
+export const findPartialContextUpdates = (operations: FileOperation[], files: ContextFileEntry[]): string[] => operations
+    .filter(op => op.operation === 'UPDATE_FILE')
+    .flatMap(op => {
+        const entry = files.find(file => file.path === op.path);
+        if (!entry || entry.detail === 'full') return [];
+        return [`Replaces ${op.path}, which the AI was only shown ${entry.detail === 'outline' ? 'as an outline' : 'by path'}.`];
+    });
+
+const IMPORT_PATTERN = /(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+// Resolves a relative import like the preview's module loader: exact path, then extensions, then index files.
+const resolveImport = (fromPath: string, specifier: string, files: { [path: string]: string }): string | null => {
+    if (!specifier.startsWith('.')) return null;
+    const segments = fromPath.split('/').slice(0, -1);
+    for (const part of specifier.split('/')) {
+        if (part === '..') segments.pop();
+        else if (part !== '.' && part !== '') segments.push(part);
+    }
+    const base = segments.join('/');
+    const candidates = [base, ...RESOLVED_EXTENSIONS.map(ext => base + ext), ...RESOLVED_EXTENSIONS.map(ext => `${base}/index${ext}`)];
+    return candidates.find(candidate => candidate in files) ?? null;
+};
+
+const findImports = (path: string, content: string, files: { [path: string]: string }): string[] => {
+    if (!/\.[jt]sx?$/.test(path)) return [];
+    const imports = new Set<string>();
+    for (const match of content.matchAll(IMPORT_PATTERN)) {
+        const resolved = resolveImport(path, match[1] || match[2] || match[3], files);
+        if (resolved && resolved !== path) imports.add(resolved);
+    }
+    return [...imports];
+};
+
+const TOP_LEVEL_DECLARATION = /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var)\s/;
+
+/** A file's imports and top-level declarations (selectors for CSS, the first lines otherwise). */
+const outlineFile = (path: string, content: string): string => {
+    const lines = content.split('\n');
+    let outline: string[];
+    if (/\.[jt]sx?$/.test(path)) outline = lines.filter(line => /^(?:import|export)\b/.test(line) || TOP_LEVEL_DECLARATION.test(line));
+    else if (path.endsWith('.css')) outline = lines.filter(line => /^\S.*\{\s*$/.test(line));
+    else outline = lines.slice(0, 10);
+    const trimmed = outline.slice(0, MAX_OUTLINE_LINES).map(line => line.length > MAX_OUTLINE_LINE_LENGTH ? `${line.slice(0, MAX_OUTLINE_LINE_LENGTH)}…` : line);
+    if (outline.length > MAX_OUTLINE_LINES) trimmed.push('…');
+    return trimmed.join('\n');
+};
+
+const toFullBlock = (path: string, content: string) => `[START OF FILE: ${path}]\n${content}\n[END OF FILE: ${path}]\n\n`;
+const toOutlineBlock = (path: string, content: string, outline: string) => `[OUTLINE OF FILE: ${path} (${content.split('\n').length} lines)]\n${outline}\n[END OF OUTLINE: ${path}]\n\n`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Scores every file by how likely the task is to need it, and records why. */
+const rankFiles = (files: { [path: string]: string }, prompt: string, uiState: WorkspaceUiState, hints: ContextHints) => {
+    const scores = new Map<string, { score: number; reasons: string[] }>(Object.keys(files).map(path => [path, { score: 0, reasons: [] }]));
+    const addScore = (path: string, points: number, reason: string) => {
+        const entry = scores.get(path);
+        if (!entry || points <= 0) return;
+        entry.score += points;
+        if (!entry.reasons.includes(reason)) entry.reasons.push(reason);
+    };
+
+    addScore(PREVIEW_ENTRY_PATH, 30, 'preview entry');
+    addScore(PACKAGE_MANIFEST_PATH, 30, 'package manifest');
+    if (uiState.activeEditorPath) addScore(uiState.activeEditorPath, 100, 'open in the editor');
+    if (uiState.editorLayout === 'two_editors' && uiState.secondaryEditorPath) addScore(uiState.secondaryEditorPath, 80, 'open in the second pane');
+    for (const path of uiState.openEditorPaths) addScore(path, 40, 'open in a tab');
+    hints.recentlyEditedPaths.forEach((path, index) => addScore(path, Math.max(10, 50 - index * 5), 'edited recently'));
+
+    for (const path of Object.keys(files)) {
+        const name = path.split('/').pop()!.replace(/\.[^.]+$/, '');
+        const isNamed = prompt.includes(path) || (name.length >= 3 && name !== 'index' && new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(prompt));
+        if (isNamed) addScore(path, 80, 'named in the prompt');
+    }
+
+    if (hints.selectedElement) {
+        const text = hints.selectedElement.text.trim().slice(0, 40);
+        const names = [...hints.selectedElement.selector.matchAll(/[#.]([\w-]+)/g)].map(match => match[1]);
+        for (const [path, content] of Object.entries(files)) {
+            if (text.length >= 4 && content.includes(text)) addScore(path, 60, 'contains the selected element\'s text');
+            else if (names.some(name => content.includes(name))) addScore(path, 40, 'uses the selected element\'s id or classes');
+        }
+    }
+
+    // Imports of a relevant file are likely needed to change it; files importing it less so.
+    const baseScores = new Map([...scores].map(([path, entry]) => [path, entry.score]));
+    for (const [path, content] of Object.entries(files)) {
+        const score = baseScores.get(path)!;
+        if (score === 0) continue;
+        for (const imported of findImports(path, content, files)) {
+            addScore(imported, score * 0.5, `imported by ${path}`);
+            addScore(path, (baseScores.get(imported) || 0) * 0.25, `imports ${imported}`);
+        }
+    }
+
+    return [...scores].map(([path, entry]) => ({ path, ...entry })).sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
+
+/**
+ * Serializes the workspace files for a task within `budgetTokens`. Files are ranked by relevance to the
+ * task (the open editors, paths named in the prompt, the selected element, recent edits, and the files
+ * those import). Every file starts as an outline; the least relevant fall back to their path alone
+ * until the outlines fit, then the most relevant are upgraded to their full content while they fit,
+ * taking the room of less relevant outlines where needed.
+ */
+export const buildFileContext = (tree: FileSystemTree, prompt: string, uiState: WorkspaceUiState, hints: ContextHints, budgetTokens: number): FileContext => {
+    const files = flattenFiles(tree);
+    if (Object.keys(files).length === 0) return { text: 'The project is currently empty.\n', files: [] };
+
+    const ranked = rankFiles(files, prompt, uiState, hints).map(file => {
+        const content = files[file.path];
+        const full = toFullBlock(file.path, content);
+        const outline = toOutlineBlock(file.path, content, outlineFile(file.path, content));
+        return { ...file, full, fullTokens: estimateTokens(full), outline, outlineTokens: estimateTokens(outline), pathTokens: estimateTokens(file.path) + 1 };
+    });
+    // A short file costs no more in full than as an outline.
+    const details = ranked.map((file): ContextFileEntry['detail'] => file.fullTokens <= file.outlineTokens ? 'full' : 'outline');
+    const cost = (index: number) => ({ full: ranked[index].fullTokens, outline: ranked[index].outlineTokens, path: ranked[index].pathTokens })[details[index]];
+    let used = ranked.reduce((sum, _, index) => sum + cost(index), 0);
+    for (let i = ranked.length - 1; i >= 0 && used > budgetTokens; i--) {
+        used -= cost(i);
+        details[i] = 'path';
+        used += cost(i);
+    }
+    for (let i = 0; i < ranked.length; i++) {
+        if (details[i] === 'full') continue;
+        // A more relevant file may take the room of less relevant outlines.
+        const reclaimable = ranked.reduce((sum, file, j) => j > i && details[j] === 'outline' ? sum + file.outlineTokens - file.pathTokens : sum, 0);
+        if (used - cost(i) + ranked[i].fullTokens - reclaimable > budgetTokens) continue;
+        for (let j = ranked.length - 1; j > i && used - cost(i) + ranked[i].fullTokens > budgetTokens; j--) {
+            if (details[j] !== 'outline') continue;
+            used -= cost(j);
+            details[j] = 'path';
+            used += cost(j);
+        }
+        used += ranked[i].fullTokens - cost(i);
+        details[i] = 'full';
+    }
+
+    const shown = ranked.map((file, index) => ({ file, detail: details[index] })).sort((a, b) => a.file.path.localeCompare(b.file.path));
+    const blocks = shown.filter(({ detail }) => detail !== 'path').map(({ file, detail }) => detail === 'full' ? file.full : file.outline).join('');
+    const pathsOnly = shown.filter(({ detail }) => detail === 'path').map(({ file }) => file.path);
+    const isComplete = details.every(detail => detail === 'full');
+    const note = isComplete ? '' : 'To fit the context budget, some files are shown only as an outline of their imports and top-level declarations, or by path. Only send UPDATE_FILE for files shown in full, since it replaces the whole file; to change any other file, say which one in your message so the user can open it and ask again.\n\n';
+    const text = `Here is the current file structure and content:\n\n${note}${blocks}${pathsOnly.length > 0 ? `Other files (content left out): ${pathsOnly.join(', ')}\n` : ''}`;
+
+    return {
+        text,
+        files: ranked.map((file, index) => ({
+            path: file.path,
+            detail: details[index],
+            tokens: cost(index),
+            reasons: file.reasons.slice(0, MAX_REASONS),
+        })),
+    };
+};
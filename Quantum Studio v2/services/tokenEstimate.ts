@@ -0,0 +1,12 @@
+// Providers tokenize differently; about four characters per token holds for English text and code.
+const CHARACTERS_PER_TOKEN = 4;
+
+/** A rough token count for budgeting, without a provider-specific tokenizer. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+
+/** "850", "12.3k" or "1.2M", for showing estimates. */
+export const formatTokenCount = (tokens: number): string => {
+    if (tokens < 1000) return String(tokens);
+    if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
@@ -0,0 +1,180 @@
+import html2canvas, { type Options as Html2CanvasOptions } from 'html2canvas';
+import type { FileSystemTree, VisualCheckpoint, VisualCheckpointResult, VisualCheckpointRun, Workspace } from '../types';
+import { VIEWPORT_PRESETS } from './previewViewport';
+import { verifyPreview } from './previewVerification';
+
+/** Sizes a checkpoint can be captured at: the fixed-size viewport presets. */
+export const CHECKPOINT_VIEWPORTS = VIEWPORT_PRESETS
+    .filter(preset => preset.size)
+    .map(preset => ({ label: preset.label, width: preset.size!.width, height: preset.size!.height }));
+
+// Channel differences up to this much are anti-aliasing noise rather than a change.
+const PIXEL_TOLERANCE = 8;
+
+/** Share of pixels that may differ before a comparison fails, so a blinking caret does not fail a checkpoint. */
+export const MAX_MISMATCH_RATIO = 0.001;
+
+export const toViewportKey = (size: { width: number; height: number }) => `${size.width}x${size.height}`;
+
+/**
+ * Renders the preview document with html2canvas. Given a size, the page is laid out again at that
+ * width (so CSS media queries apply) and cropped to it, without resizing the preview itself; given a
+ * selector, only that element is rendered.
+ */
+export const capturePreview = async (iframe: HTMLIFrameElement | null, options: { size?: { width: number; height: number }; selector?: string } = {}): Promise<HTMLCanvasElement> => {
+    const document = iframe?.contentWindow?.document;
+    if (!document?.body) throw new Error('The preview has not loaded.');
+    const { size, selector } = options;
+    const target = selector ? document.querySelector<HTMLElement>(selector) : size ? document.documentElement : document.body;
+    if (!target) throw new Error(`No element in the preview matches "${selector}".`);
+    const captureOptions: Partial<Html2CanvasOptions> = {
+        useCORS: true,
+        allowTaint: true,
+        backgroundColor: '#ffffff',
+        logging: false,
+        // Checkpoints compare pixels, so they are captured at the same scale on every display.
+        ...(size && { scale: 1, windowWidth: size.width, windowHeight: size.height }),
+        ...(size && !selector && { x: 0, y: 0, width: size.width, height: size.height }),
+    };
+    return html2canvas(target, captureOptions);
+};
+
+const loadImageData = (dataUrl: string): Promise<ImageData> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const context = canvas.getContext('2d')!;
+        context.drawImage(image, 0, 0);
+        resolve(context.getImageData(0, 0, image.width, image.height));
+    };
+    image.onerror = () => reject(new Error('Could not decode a checkpoint image.'));
+    image.src = dataUrl;
+});
+
+/**
+ * Compares two PNG data URLs pixel by pixel. The diff image shows the baseline faded, with every
+ * pixel that changed in red; when the sizes differ, the area only one image covers counts as changed.
+ */
+export const compareImages = async (baseline: string, current: string): Promise<{ mismatchRatio: number; diffImage: string }> => {
+    const [before, after] = await Promise.all([loadImageData(baseline), loadImageData(current)]);
+    const width = Math.max(before.width, after.width);
+    const height = Math.max(before.height, after.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const diff = context.createImageData(width, height);
+    let mismatched = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const offset = (y * width + x) * 4;
+            const inBefore = x < before.width && y < before.height;
+            const inAfter = x < after.width && y < after.height;
+            const beforeOffset = (y * before.width + x) * 4;
+            const afterOffset = (y * after.width + x) * 4;
+            let isDifferent = inBefore !== inAfter;
+            if (inBefore && inAfter) {
+                for (let channel = 0; channel < 4 && !isDifferent; channel++) {
+                    isDifferent = Math.abs(before.data[beforeOffset + channel] - after.data[afterOffset + channel]) > PIXEL_TOLERANCE;
+                }
+            }
+            if (isDifferent) {
+                mismatched++;
+                diff.data.set([255, 0, 0, 255], offset);
+            } else {
+                const gray = 0.299 * before.data[beforeOffset] + 0.587 * before.data[beforeOffset + 1] + 0.114 * before.data[beforeOffset + 2];
+                const faded = 255 - (255 - gray) * 0.25;
+                diff.data.set([faded, faded, faded, 255], offset);
+            }
+        }
+    }
+    context.putImageData(diff, 0, 0);
+    return { mismatchRatio: width * height ? mismatched / (width * height) : 0, diffImage: canvas.toDataURL('image/png') };
+};
+
+/**
+ * Captures the checkpoint at each of its viewports and compares the captures with its baselines.
+ * A viewport without a baseline yet passes; see `recordCheckpointRun`.
+ */
+export const runVisualCheckpoint = async (iframe: HTMLIFrameElement | null, checkpoint: VisualCheckpoint): Promise<VisualCheckpointRun> => {
+    const ranAt = new Date().toISOString();
+    try {
+        const results: VisualCheckpointResult[] = [];
+        for (const viewport of checkpoint.viewports) {
+            const canvas = await capturePreview(iframe, { size: viewport, selector: checkpoint.selector });
+            const image = canvas.toDataURL('image/png');
+            const baseline = checkpoint.baselines[toViewportKey(viewport)];
+            if (!baseline) {
+                results.push({ ...viewport, image, mismatchRatio: 0, passed: true });
+                continue;
+            }
+            const { mismatchRatio, diffImage } = await compareImages(baseline, image);
+            const passed = mismatchRatio <= MAX_MISMATCH_RATIO;
+            results.push({ ...viewport, image, mismatchRatio, passed, diffImage: passed ? undefined : diffImage });
+        }
+        return { ranAt, passed: results.every(result => result.passed), results };
+    } catch (err) {
+        return { ranAt, passed: false, results: [], error: err instanceof Error ? err.message : String(err) };
+    }
+};
+
+/**
+ * Runs the checkpoints against `tree` in one hidden render of the app (see `verifyPreview`), so they
+ * run whether or not the preview is shown, and can check changes before they are applied. When the
+ * app fails to render, every checkpoint fails with the error.
+ */
+export const runVisualCheckpointsOnTree = async (tree: FileSystemTree, checkpoints: VisualCheckpoint[], signal?: AbortSignal): Promise<VisualCheckpointRun[]> => {
+    const runs: VisualCheckpointRun[] = [];
+    let error = 'The app did not render.';
+    try {
+        const problems = await verifyPreview(tree, signal, async iframe => {
+            for (const checkpoint of checkpoints) runs.push(await runVisualCheckpoint(iframe, checkpoint));
+        });
+        const renderProblem = problems.find(problem => problem.kind === 'render');
+        if (renderProblem) error = `The app failed to render: ${renderProblem.message}`;
+    } catch (err) {
+        signal?.throwIfAborted();
+        error = err instanceof Error ? err.message : String(err);
+    }
+    return checkpoints.map((_, index) => runs[index] ?? { ranAt: new Date().toISOString(), passed: false, results: [], error });
+};
+
+/** Stores a run on its checkpoint. Captures at viewports that had no baseline yet become the baseline. */
+export const recordCheckpointRun = (checkpoint: VisualCheckpoint, run: VisualCheckpointRun): VisualCheckpoint => {
+    const baselines = { ...checkpoint.baselines };
+    for (const result of run.results) baselines[toViewportKey(result)] ??= result.image;
+    return { ...checkpoint, baselines, lastRun: run };
+};
+
+/** Makes the captures of the last run the new baselines, for a change to the UI that was intended. */
+export const acceptVisualCheckpoint = (checkpoint: VisualCheckpoint): VisualCheckpoint => {
+    if (!checkpoint.lastRun || checkpoint.lastRun.error) return checkpoint;
+    const baselines = { ...checkpoint.baselines };
+    for (const result of checkpoint.lastRun.results) baselines[toViewportKey(result)] = result.image;
+    const results = checkpoint.lastRun.results.map(({ diffImage, ...result }) => ({ ...result, mismatchRatio: 0, passed: true }));
+    return { ...checkpoint, baselines, lastRun: { ...checkpoint.lastRun, passed: true, results } };
+};
+
+/**
+ * Checkpoints whose last run found visual changes, or could not capture the view. Captures come from a
+ * hidden render of the app, so an error means the app or the element is broken.
+ */
+export const getFailingCheckpoints = (workspace: Workspace): VisualCheckpoint[] =>
+    (workspace.visualCheckpoints || []).filter(checkpoint => checkpoint.lastRun && !checkpoint.lastRun.passed);
+
+const formatMismatch = (result: VisualCheckpointResult) => `${result.width}×${result.height}: ${(result.mismatchRatio * 100).toFixed(2)}% of pixels changed`;
+
+const describeRunFailure = (run: VisualCheckpointRun) => run.error
+    ? `could not be captured: ${run.error}`
+    : `differs from its approved baseline at ${run.results.filter(result => !result.passed).map(formatMismatch).join('; ')}`;
+
+/** One line per failing checkpoint, for the AI. */
+export const describeFailingCheckpoints = (checkpoints: VisualCheckpoint[]): string => checkpoints
+    .map(checkpoint => `"${checkpoint.name}"${checkpoint.selector ? ` (element \`${checkpoint.selector}\`)` : ''} ${describeRunFailure(checkpoint.lastRun!)}`)
+    .join('\n');
+
+/** Why proposed changes fail the checkpoints, one line per failed run; empty when they all pass. */
+export const describeFailedRuns = (checkpoints: VisualCheckpoint[], runs: VisualCheckpointRun[]): string[] => checkpoints
+    .flatMap((checkpoint, index) => runs[index].passed ? [] : [`The visual checkpoint "${checkpoint.name}" ${describeRunFailure(runs[index])}.`]);
@@ -0,0 +1,145 @@
+import { zipSync, unzipSync, strToU8, type Zippable } from 'fflate';
+import type { Workspace, WorkspaceUiState, FileSystemTree, FileSystemNode, AITask } from '../types';
+import { traversePath } from './fileSystem';
+
+/** Path of the manifest inside an exported archive. Everything else in the archive is a workspace file. */
+export const MANIFEST_PATH = '.quantum-studio/workspace.json';
+
+const MANIFEST_FORMAT = 'quantum-studio-workspace';
+const MANIFEST_VERSION = 1;
+
+// Entries that archiving tools add and that are never part of a project.
+const IGNORED_ENTRY_PATTERNS = [/^__MACOSX\//, /(^|\/)\.DS_Store$/, /(^|\/)Thumbs\.db$/];
+
+interface WorkspaceManifest {
+    format: typeof MANIFEST_FORMAT;
+    version: number;
+    name: string;
+    createdAt: string;
+    exportedAt: string;
+    tasks: AITask[];
+    uiState?: WorkspaceUiState;
+    aiSettings?: Workspace['aiSettings'];
+    autoPilotPolicy?: Workspace['autoPilotPolicy'];
+    visualCheckpoints?: Workspace['visualCheckpoints'];
+}
+
+export interface ImportedWorkspace {
+    workspace: Workspace;
+    uiState?: WorkspaceUiState;
+    /** Archive entries that were left out because they are not UTF-8 text. */
+    skippedFiles: string[];
+}
+
+/**
+ * Zips the workspace files at their real paths, plus a manifest with the tasks, UI state, Auto-Pilot policy
+ * and visual checkpoints with their baselines.
+ * The API key is left out of the AI settings so archives can be shared safely.
+ */
+export const exportWorkspaceArchive = (workspace: Workspace, uiState?: WorkspaceUiState): Uint8Array => {
+    const entries: Zippable = {};
+    const traverse = (node: FileSystemNode, path: string) => {
+        if (node.type === 'file') {
+            entries[path] = strToU8(node.content);
+            return;
+        }
+        const children = Object.entries(node.children);
+        // Directory entries keep empty folders in the archive.
+        if (path && children.length === 0) entries[`${path}/`] = new Uint8Array(0);
+        for (const [name, child] of children) traverse(child, path ? `${path}/${name}` : name);
+    };
+    traverse(workspace.fileSystem, '');
+
+    const aiSettings = workspace.aiSettings ? { ...workspace.aiSettings, apiKey: undefined } : undefined;
+    const manifest: WorkspaceManifest = {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        name: workspace.name,
+        createdAt: workspace.createdAt,
+        exportedAt: new Date().toISOString(),
+        tasks: workspace.tasks,
+        uiState,
+        aiSettings,
+        autoPilotPolicy: workspace.autoPilotPolicy,
+        visualCheckpoints: workspace.visualCheckpoints,
+    };
+    entries[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+    return zipSync(entries, { level: 6 });
+};
+
+/** Turns a workspace name into something safe to use as a file name. */
+export const toArchiveFileName = (workspaceName: string): string =>
+    `${workspaceName.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'workspace'}.zip`;
+
+const parseManifest = (data: Uint8Array): WorkspaceManifest => {
+    let manifest: WorkspaceManifest;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+        throw new Error(`The archive's ${MANIFEST_PATH} is not valid JSON.`);
+    }
+    if (manifest.format !== MANIFEST_FORMAT) throw new Error(`The archive's ${MANIFEST_PATH} is not a Quantum Studio manifest.`);
+    if (manifest.version > MANIFEST_VERSION) throw new Error(`This archive was exported by a newer version of Quantum Studio (manifest version ${manifest.version}).`);
+    return manifest;
+};
+
+// Plain folder archives (e.g. "project-main.zip" from a Git host) often wrap everything in one top-level folder.
+// It is only stripped when it holds a project, so a zip of just `src/` keeps its files under `src/`.
+const findCommonRoot = (paths: string[]): string => {
+    const first = paths[0]?.split('/')[0];
+    if (!first || first === 'src' || !paths.every(path => path.startsWith(`${first}/`))) return '';
+    const isWrapper = paths.some(path => path === `${first}/package.json` || path.startsWith(`${first}/src/`) || path === `${first}/${MANIFEST_PATH}`);
+    return isWrapper ? `${first}/` : '';
+};
+
+/**
+ * Rebuilds a workspace from an archive made by `exportWorkspaceArchive`, or from any
+ * zip of a plain project folder, in which case the archive name becomes the workspace name.
+ */
+export const importWorkspaceArchive = (data: Uint8Array, fallbackName: string): ImportedWorkspace => {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(data);
+    } catch {
+        throw new Error('The file is not a valid zip archive.');
+    }
+
+    const paths = Object.keys(entries).filter(path => !IGNORED_ENTRY_PATTERNS.some(pattern => pattern.test(path)));
+    const root = findCommonRoot(paths);
+    const manifestData = entries[`${root}${MANIFEST_PATH}`];
+    const manifest = manifestData ? parseManifest(manifestData) : null;
+
+    const fileSystem: FileSystemTree = { type: 'folder', children: {} };
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const skippedFiles: string[] = [];
+    for (const entryPath of paths) {
+        const path = entryPath.slice(root.length).replace(/\/+$/, '');
+        if (!path || path === MANIFEST_PATH) continue;
+        const isFolder = entryPath.endsWith('/');
+        const { parent, key } = traversePath(fileSystem, path, true);
+        if (!parent || !key) continue;
+        if (isFolder) {
+            if (!parent.children[key]) parent.children[key] = { type: 'folder', children: {} };
+            continue;
+        }
+        try {
+            parent.children[key] = { type: 'file', content: decoder.decode(entries[entryPath]) };
+        } catch {
+            skippedFiles.push(path);
+        }
+    }
+
+    if (Object.keys(fileSystem.children).length === 0) throw new Error('The archive does not contain any files.');
+
+    const workspace: Workspace = {
+        id: crypto.randomUUID(),
+        name: manifest?.name || fallbackName,
+        fileSystem,
+        tasks: (manifest?.tasks || []).map(task => ({ ...task, timestamp: new Date(task.timestamp) })),
+        createdAt: manifest?.createdAt || new Date().toISOString(),
+        ...(manifest?.aiSettings ? { aiSettings: manifest.aiSettings } : {}),
+        ...(manifest?.autoPilotPolicy ? { autoPilotPolicy: manifest.autoPilotPolicy } : {}),
+        ...(manifest?.visualCheckpoints ? { visualCheckpoints: manifest.visualCheckpoints } : {}),
+    };
+    return { workspace, uiState: manifest?.uiState, skippedFiles };
+};
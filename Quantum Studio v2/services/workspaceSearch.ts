@@ -0,0 +1,166 @@
+import type { FileOperation, FileSystemTree } from '../types';
+import { flattenFiles } from './fileSystem';
+
+export interface SearchOptions {
+    isRegex: boolean;
+    matchCase: boolean;
+    wholeWord: boolean;
+    /** Comma-separated globs. When set, only matching files are searched. */
+    include: string;
+    /** Comma-separated globs. Matching files are never searched. */
+    exclude: string;
+}
+
+export interface SearchMatch {
+    /** 1-based, as in the editor. */
+    lineNumber: number;
+    /** 1-based, as in the editor. */
+    column: number;
+    length: number;
+    lineText: string;
+}
+
+export interface FileSearchResult {
+    path: string;
+    matches: SearchMatch[];
+}
+
+export interface WorkspaceSearchResult {
+    files: FileSearchResult[];
+    matchCount: number;
+    /** True when the search stopped at `MAX_SEARCH_MATCHES`. */
+    truncated: boolean;
+}
+
+export const MAX_SEARCH_MATCHES = 2000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob to a regular expression over workspace paths. Supports `*`, `**`, `?` and `{a,b}`.
+ * A glob without a slash matches at any depth (`*.css` matches `src/styles/app.css`), and a glob
+ * that names a folder also matches everything inside it.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+    let pattern = glob.trim().replace(/^\.?\//, '').replace(/\/+$/, '');
+    if (!pattern.includes('/')) pattern = `**/${pattern}`;
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '*' && pattern[i + 1] === '*') {
+            // "**/" matches zero or more folders; a trailing "**" matches the rest of the path.
+            if (pattern[i + 2] === '/') { source += '(?:.*/)?'; i += 2; } else { source += '.*'; i++; }
+        } else if (ch === '*') source += '[^/]*';
+        else if (ch === '?') source += '[^/]';
+        else if (ch === '{') { source += '(?:'; inGroup = true; }
+        else if (ch === '}' && inGroup) { source += ')'; inGroup = false; }
+        else if (ch === ',' && inGroup) source += '|';
+        else source += escapeRegExp(ch);
+    }
+    return new RegExp(`^${source}(?:/.*)?$`);
+};
+
+const parseGlobList = (globs: string): RegExp[] =>
+    globs.split(',').map(glob => glob.trim()).filter(Boolean).map(globToRegExp);
+
+/** Builds the per-line search expression. Throws if `query` is an invalid regular expression. */
+export const buildSearchRegExp = (query: string, options: Pick<SearchOptions, 'isRegex' | 'matchCase' | 'wholeWord'>): RegExp => {
+    let source = options.isRegex ? query : escapeRegExp(query);
+    if (options.wholeWord) source = `\\b(?:${source})\\b`;
+    try {
+        return new RegExp(source, options.matchCase ? 'g' : 'gi');
+    } catch (e) {
+        throw new Error(`Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+const selectSearchedFiles = (tree: FileSystemTree, options: SearchOptions): [string, string][] => {
+    const includes = parseGlobList(options.include);
+    const excludes = parseGlobList(options.exclude);
+    return Object.entries(flattenFiles(tree))
+        .filter(([path]) => (includes.length === 0 || includes.some(glob => glob.test(path))) && !excludes.some(glob => glob.test(path)))
+        .sort(([a], [b]) => a.localeCompare(b));
+};
+
+/** Finds every match of `query` in the workspace files. Matches never span lines. */
+export const searchWorkspace = (tree: FileSystemTree, query: string, options: SearchOptions): WorkspaceSearchResult => {
+    const result: WorkspaceSearchResult = { files: [], matchCount: 0, truncated: false };
+    if (!query) return result;
+    const regex = buildSearchRegExp(query, options);
+
+    for (const [path, content] of selectSearchedFiles(tree, options)) {
+        const matches: SearchMatch[] = [];
+        content.split('\n').forEach((lineText, index) => {
+            if (result.truncated) return;
+            regex.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = regex.exec(lineText)) !== null) {
+                // Empty matches (e.g. /^/) would loop forever and cannot be shown anyway.
+                if (match[0].length === 0) { regex.lastIndex++; continue; }
+                matches.push({ lineNumber: index + 1, column: match.index + 1, length: match[0].length, lineText });
+                if (++result.matchCount >= MAX_SEARCH_MATCHES) { result.truncated = true; break; }
+            }
+        });
+        if (matches.length > 0) result.files.push({ path, matches });
+        if (result.truncated) break;
+    }
+    return result;
+};
+
+// Expands `$&`, `$1` and `$<name>` the way `String.prototype.replace` does.
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+    replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name: string | undefined) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (name !== undefined) return match.groups?.[name] ?? '';
+        const group = Number(ref);
+        return group > 0 && group < match.length ? match[group] ?? '' : token;
+    });
+
+// Runs the search on one line, so regex context (anchors, lookarounds, \b) behaves as in `searchWorkspace`.
+const replaceLine = (line: string, regex: RegExp, replacement: string, isRegex: boolean): { text: string; count: number } => {
+    let text = '';
+    let count = 0;
+    let lastIndex = 0;
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line)) !== null) {
+        if (match[0].length === 0) { regex.lastIndex++; continue; }
+        text += line.substring(lastIndex, match.index) + (isRegex ? expandReplacement(replacement, match) : replacement);
+        lastIndex = match.index + match[0].length;
+        count++;
+    }
+    return { text: text + line.substring(lastIndex), count };
+};
+
+/** The text a single match becomes, with `$1`-style references expanded for regex searches. */
+export const previewReplacement = (match: SearchMatch, query: string, replacement: string, options: SearchOptions): string => {
+    if (!options.isRegex) return replacement;
+    const regex = buildSearchRegExp(query, options);
+    regex.lastIndex = match.column - 1;
+    const found = regex.exec(match.lineText);
+    return found && found.index === match.column - 1 ? expandReplacement(replacement, found) : replacement;
+};
+
+/**
+ * Replaces every match in the files selected by `options` and returns one `UPDATE_FILE` operation
+ * per changed file, so the whole replacement can be applied (and undone) as a single batch.
+ */
+export const replaceInWorkspace = (tree: FileSystemTree, query: string, replacement: string, options: SearchOptions): FileOperation[] => {
+    if (!query) return [];
+    const regex = buildSearchRegExp(query, options);
+    const operations: FileOperation[] = [];
+    for (const [path, content] of selectSearchedFiles(tree, options)) {
+        let count = 0;
+        const updated = content.split('\n').map(line => {
+            const replaced = replaceLine(line, regex, replacement, options.isRegex);
+            count += replaced.count;
+            return replaced.text;
+        }).join('\n');
+        if (count > 0 && updated !== content) {
+            operations.push({ operation: 'UPDATE_FILE', path, content: updated, description: `Replace ${count} occurrence${count === 1 ? '' : 's'} of "${query}"` });
+        }
+    }
+    return operations;
+};
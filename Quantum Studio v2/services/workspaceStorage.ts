@@ -0,0 +1,286 @@
+import type { Workspace, WorkspaceSnapshot, VisualCheckpoint, FileSystemTree, FileSystemNode } from '../types';
+import { traversePath } from './fileSystem';
+
+export const LOCAL_STORAGE_WORKSPACES_KEY = 'quantum_code_workspaces';
+
+const DB_NAME = 'quantum_code';
+const DB_VERSION = 2;
+const WORKSPACES_STORE = 'workspaces';
+const FILES_STORE = 'files';
+const SNAPSHOTS_STORE = 'snapshots';
+const CHECKPOINTS_STORE = 'checkpoints';
+const SAVE_DEBOUNCE_MS = 400;
+
+export interface WorkspaceStorage {
+    kind: 'indexeddb' | 'localstorage';
+    loadAll: () => Promise<Workspace[]>;
+    /** Schedules a save of the full list. Implementations only write what changed since the last save. */
+    save: (workspaces: Workspace[]) => void;
+    /** Writes any pending changes immediately. */
+    flush: () => Promise<void>;
+}
+
+// --- IndexedDB records ---
+
+// Files, history snapshots and visual checkpoints live in their own stores; the workspace record holds the rest.
+type WorkspaceRecord = Omit<Workspace, 'fileSystem' | 'history' | 'visualCheckpoints'>;
+
+interface SnapshotRecord extends WorkspaceSnapshot {
+    workspaceId: string;
+}
+
+interface CheckpointRecord extends VisualCheckpoint {
+    workspaceId: string;
+}
+
+interface FileRecord {
+    workspaceId: string;
+    path: string;
+    type: 'file' | 'folder';
+    content?: string;
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACES_STORE)) db.createObjectStore(WORKSPACES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+            const files = db.createObjectStore(FILES_STORE, { keyPath: ['workspaceId', 'path'] });
+            files.createIndex('workspaceId', 'workspaceId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+            const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: ['workspaceId', 'id'] });
+            snapshots.createIndex('workspaceId', 'workspaceId');
+        }
+        if (!db.objectStoreNames.contains(CHECKPOINTS_STORE)) {
+            const checkpoints = db.createObjectStore(CHECKPOINTS_STORE, { keyPath: ['workspaceId', 'id'] });
+            checkpoints.createIndex('workspaceId', 'workspaceId');
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** One record per file and folder, so unchanged files never need to be rewritten. */
+const toFileRecords = (workspaceId: string, tree: FileSystemTree): Map<string, FileRecord> => {
+    const records = new Map<string, FileRecord>();
+    const traverse = (node: FileSystemNode, path: string) => {
+        if (node.type === 'file') {
+            records.set(path, { workspaceId, path, type: 'file', content: node.content });
+            return;
+        }
+        if (path) records.set(path, { workspaceId, path, type: 'folder' });
+        for (const [name, child] of Object.entries(node.children)) traverse(child, path ? `${path}/${name}` : name);
+    };
+    traverse(tree, '');
+    return records;
+};
+
+const fromFileRecords = (records: FileRecord[]): FileSystemTree => {
+    const tree: FileSystemTree = { type: 'folder', children: {} };
+    for (const record of [...records].sort((a, b) => a.path.localeCompare(b.path))) {
+        const { parent, key } = traversePath(tree, record.path, true);
+        if (!parent || !key) continue;
+        if (record.type === 'file') parent.children[key] = { type: 'file', content: record.content || '' };
+        else if (!parent.children[key]) parent.children[key] = { type: 'folder', children: {} };
+    }
+    return tree;
+};
+
+const toWorkspaceRecord = (ws: Workspace): WorkspaceRecord => {
+    const { fileSystem, history, visualCheckpoints, ...record } = ws;
+    return record;
+};
+
+const hasMetadataChanged = (a: Workspace, b: Workspace): boolean =>
+    (Object.keys(a) as (keyof Workspace)[]).concat(Object.keys(b) as (keyof Workspace)[])
+        .some(key => key !== 'fileSystem' && key !== 'history' && key !== 'visualCheckpoints' && a[key] !== b[key]);
+
+// Covers every compound key [workspaceId, *] in the files, snapshots and checkpoints stores.
+const workspaceKeyRange = (workspaceId: string) => IDBKeyRange.bound([workspaceId, ''], [workspaceId, '\uffff']);
+
+export const createIndexedDBStorage = (db: IDBDatabase): WorkspaceStorage => {
+    // What is known to be on disk, used to compute incremental writes.
+    const saved = new Map<string, { workspace: Workspace; files: Map<string, FileRecord> }>();
+    let pending: Workspace[] | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let writing: Promise<void> = Promise.resolve();
+
+    const write = async (workspaces: Workspace[]) => {
+        const tx = db.transaction([WORKSPACES_STORE, FILES_STORE, SNAPSHOTS_STORE, CHECKPOINTS_STORE], 'readwrite');
+        const wsStore = tx.objectStore(WORKSPACES_STORE);
+        const fileStore = tx.objectStore(FILES_STORE);
+        const snapshotStore = tx.objectStore(SNAPSHOTS_STORE);
+        const checkpointStore = tx.objectStore(CHECKPOINTS_STORE);
+        const nextSaved = new Map(saved);
+
+        for (const ws of workspaces) {
+            const previous = saved.get(ws.id);
+            if (previous?.workspace === ws) continue;
+            if (!previous || hasMetadataChanged(previous.workspace, ws)) wsStore.put(toWorkspaceRecord(ws));
+
+            let files = previous?.files;
+            if (!previous || previous.workspace.fileSystem !== ws.fileSystem) {
+                files = toFileRecords(ws.id, ws.fileSystem);
+                for (const [path, record] of files) {
+                    const old = previous?.files.get(path);
+                    if (!old || old.type !== record.type || old.content !== record.content) fileStore.put(record);
+                }
+                for (const path of previous?.files.keys() || []) {
+                    if (!files.has(path)) fileStore.delete([ws.id, path]);
+                }
+            }
+
+            if (previous?.workspace.history !== ws.history) {
+                // Snapshots are immutable, so only additions and evictions need writing.
+                const previousIds = new Set((previous?.workspace.history || []).map(snap => snap.id));
+                const currentIds = new Set((ws.history || []).map(snap => snap.id));
+                for (const snapshot of ws.history || []) {
+                    if (!previousIds.has(snapshot.id)) snapshotStore.put({ ...snapshot, workspaceId: ws.id });
+                }
+                for (const id of previousIds) {
+                    if (!currentIds.has(id)) snapshotStore.delete([ws.id, id]);
+                }
+            }
+
+            if (previous?.workspace.visualCheckpoints !== ws.visualCheckpoints) {
+                // Checkpoints are replaced whenever they change, so an unchanged one keeps its object.
+                const previousCheckpoints = new Map((previous?.workspace.visualCheckpoints || []).map(checkpoint => [checkpoint.id, checkpoint]));
+                for (const checkpoint of ws.visualCheckpoints || []) {
+                    if (previousCheckpoints.get(checkpoint.id) !== checkpoint) checkpointStore.put({ ...checkpoint, workspaceId: ws.id });
+                    previousCheckpoints.delete(checkpoint.id);
+                }
+                for (const id of previousCheckpoints.keys()) checkpointStore.delete([ws.id, id]);
+            }
+            nextSaved.set(ws.id, { workspace: ws, files: files! });
+        }
+
+        const liveIds = new Set(workspaces.map(ws => ws.id));
+        for (const id of saved.keys()) {
+            if (liveIds.has(id)) continue;
+            wsStore.delete(id);
+            fileStore.delete(workspaceKeyRange(id));
+            snapshotStore.delete(workspaceKeyRange(id));
+            checkpointStore.delete(workspaceKeyRange(id));
+            nextSaved.delete(id);
+        }
+
+        await transactionDone(tx);
+        saved.clear();
+        nextSaved.forEach((value, key) => saved.set(key, value));
+    };
+
+    const flush = async () => {
+        if (timer) { clearTimeout(timer); timer = null; }
+        const workspaces = pending;
+        pending = null;
+        if (!workspaces) {
+            await writing;
+            return;
+        }
+        const run = writing.then(() => write(workspaces));
+        writing = run.catch(error => console.error("Failed to save workspaces", error));
+        await run;
+    };
+
+    return {
+        kind: 'indexeddb',
+        loadAll: async () => {
+            const tx = db.transaction([WORKSPACES_STORE, FILES_STORE, SNAPSHOTS_STORE, CHECKPOINTS_STORE], 'readonly');
+            const records = await requestToPromise(tx.objectStore(WORKSPACES_STORE).getAll() as IDBRequest<WorkspaceRecord[]>);
+            const fileIndex = tx.objectStore(FILES_STORE).index('workspaceId');
+            const snapshotIndex = tx.objectStore(SNAPSHOTS_STORE).index('workspaceId');
+            const checkpointIndex = tx.objectStore(CHECKPOINTS_STORE).index('workspaceId');
+            const workspaces = await Promise.all(records.map(async (record) => {
+                const [fileRecords, snapshotRecords, checkpointRecords] = await Promise.all([
+                    requestToPromise(fileIndex.getAll(record.id) as IDBRequest<FileRecord[]>),
+                    requestToPromise(snapshotIndex.getAll(record.id) as IDBRequest<SnapshotRecord[]>),
+                    requestToPromise(checkpointIndex.getAll(record.id) as IDBRequest<CheckpointRecord[]>),
+                ]);
+                const history = snapshotRecords
+                    .map(({ workspaceId, ...snapshot }) => snapshot)
+                    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+                const visualCheckpoints = checkpointRecords
+                    .map(({ workspaceId, ...checkpoint }) => checkpoint)
+                    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+                const ws: Workspace = { ...record, fileSystem: fromFileRecords(fileRecords), history, visualCheckpoints };
+                saved.set(ws.id, { workspace: ws, files: new Map(fileRecords.map(r => [r.path, r])) });
+                return ws;
+            }));
+            return workspaces;
+        },
+        save: (workspaces) => {
+            pending = workspaces;
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => { flush().catch(() => {}); }, SAVE_DEBOUNCE_MS);
+        },
+        flush,
+    };
+};
+
+// --- localStorage fallback (and migration source) ---
+
+const parseLocalStorageWorkspaces = (): Workspace[] => {
+    const savedData = localStorage.getItem(LOCAL_STORAGE_WORKSPACES_KEY);
+    if (!savedData) return [];
+    return (JSON.parse(savedData) as Workspace[]).map(ws => ({ ...ws, tasks: ws.tasks.map(t => ({ ...t, timestamp: new Date(t.timestamp) })) }));
+};
+
+export const createLocalStorageStorage = (): WorkspaceStorage => ({
+    kind: 'localstorage',
+    loadAll: async () => {
+        try {
+            return parseLocalStorageWorkspaces();
+        } catch (error) {
+            console.error("Failed to load workspaces", error);
+            localStorage.removeItem(LOCAL_STORAGE_WORKSPACES_KEY);
+            return [];
+        }
+    },
+    save: (workspaces) => {
+        if (workspaces.length > 0) localStorage.setItem(LOCAL_STORAGE_WORKSPACES_KEY, JSON.stringify(workspaces));
+        else localStorage.removeItem(LOCAL_STORAGE_WORKSPACES_KEY);
+    },
+    flush: async () => {},
+});
+
+/**
+ * Opens IndexedDB-backed storage, moving any workspaces still kept in the legacy
+ * localStorage blob into it. Falls back to localStorage when IndexedDB is unavailable.
+ */
+export const openWorkspaceStorage = async (): Promise<WorkspaceStorage> => {
+    let db: IDBDatabase;
+    try {
+        db = await openDatabase();
+    } catch (error) {
+        console.warn("IndexedDB is unavailable, falling back to localStorage", error);
+        return createLocalStorageStorage();
+    }
+    const storage = createIndexedDBStorage(db);
+
+    if (localStorage.getItem(LOCAL_STORAGE_WORKSPACES_KEY) !== null) {
+        try {
+            const legacy = parseLocalStorageWorkspaces();
+            const existing = await storage.loadAll();
+            const toMigrate = legacy.filter(ws => !existing.some(e => e.id === ws.id));
+            storage.save([...existing, ...toMigrate]);
+            await storage.flush();
+            localStorage.removeItem(LOCAL_STORAGE_WORKSPACES_KEY);
+        } catch (error) {
+            console.error("Failed to migrate workspaces from localStorage; keeping the old data in place", error);
+        }
+    }
+    return storage;
+};
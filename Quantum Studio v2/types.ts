@@ -1,4 +1,4 @@
-export type OverlayPanelId = 'workspaces' | 'files' | 'extensions';
+export type OverlayPanelId = 'workspaces' | 'files' | 'search' | 'history' | 'visual' | 'extensions';
 export type ActivePanelId = OverlayPanelId | 'ai';
 
 export interface Feature {
@@ -18,18 +18,93 @@ export interface AppBlueprint {
   styleGuidelines: StyleGuideline[];
 }
 
+/** The JSON object every AI task response is parsed into. */
+export interface AIStructuredResponse {
+  message: string;
+  blueprint?: AppBlueprint;
+  operations?: FileOperation[];
+}
+
+export interface OperationApproval {
+  index: number; // index into assistantResponse.operations
+  rejectedHunks?: number[]; // diff hunks of an UPDATE_FILE that were left out
+}
+
+export interface AssistantResponse {
+  content: string;
+  operations?: FileOperation[];
+  blueprint?: AppBlueprint;
+}
+
+export interface TaskBaseVersion {
+  version: string; // hash of the whole tree
+  fileHashes: { [path: string]: string };
+}
+
 export interface AITask {
   id: string;
   userPrompt: string;
-  status: 'running' | 'completed' | 'error' | 'pending_confirmation' | 'pending_blueprint_approval';
-  assistantResponse?: {
-    content: string;
-    operations?: FileOperation[];
-    blueprint?: AppBlueprint;
-  };
+  status: 'running' | 'completed' | 'error' | 'cancelled' | 'pending_confirmation' | 'pending_blueprint_approval';
+  assistantResponse?: AssistantResponse;
+  alternatives?: AssistantResponse[]; // earlier responses replaced by "Regenerate", oldest first
+  request?: { prompt: string; imageB64?: string; selectedElement?: SelectedElement }; // what was last sent to the AI, for retry and regenerate
+  base?: TaskBaseVersion; // the file tree the AI was shown, for conflict detection on approval
+  appliedOperations?: OperationApproval[];
+  revertedAt?: string;
   error?: string;
   timestamp: Date;
   type?: 'user' | 'autopilot';
+  verification?: TaskVerification;
+  usage?: TaskUsage;
+  policyViolations?: string[]; // why Auto-Pilot left its changes for the user to approve
+  responseRepairs?: string[]; // validation errors of malformed responses the AI was asked to repair
+  context?: TaskContextReport;
+}
+
+/** Tokens a task used, including the repairs made while verifying it. Estimated from the text sent and received. */
+export interface TaskUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** How much of a file was sent to the AI: all of it, its imports and top-level declarations, or its path. */
+export interface ContextFileEntry {
+  path: string;
+  detail: 'full' | 'outline' | 'path';
+  tokens: number;
+  reasons: string[]; // why the file ranked where it did, e.g. "open in the editor"
+}
+
+/** What a task's latest request sent the AI, within the context budget. */
+export interface TaskContextReport {
+  budgetTokens: number;
+  inputTokens: number;
+  files: ContextFileEntry[]; // most relevant first
+  historyTasks: number; // earlier tasks included as history
+}
+
+/** An error the preview raised while rendering a task's changes in the background. */
+export interface PreviewProblem {
+  kind: 'render' | 'console'; // the app failed to render, or it rendered and logged an error
+  message: string;
+  stack?: string;
+  location?: SourceLocation;
+}
+
+export interface VerificationAttempt {
+  checkedAt: string;
+  problems: PreviewProblem[];
+  /** What the AI changed to fix the problems, when they were sent back to it. */
+  repair?: AssistantResponse;
+}
+
+/** The check run on a task's changes once they are applied, and the repairs made until the preview was clean. */
+export interface TaskVerification {
+  status: 'running' | 'passed' | 'failed' | 'cancelled' | 'pending_confirmation';
+  attempts: VerificationAttempt[];
+  error?: string; // the check or a repair could not run
+  /** A repair left for the user to approve, because files it touches changed while the AI wrote it. */
+  pendingRepair?: { operations: FileOperation[]; base: TaskBaseVersion };
 }
 
 export type FileOperationType = 'CREATE_FILE' | 'UPDATE_FILE' | 'DELETE_FILE' | 'CREATE_FOLDER' | 'DELETE_FOLDER' | 'RENAME_FILE' | 'RENAME_FOLDER';
@@ -56,10 +131,123 @@ export type FileSystemTree = FolderNode;
 
 export type FileSystemNode = FileNode | FolderNode;
 
+/** A position in a workspace file. Lines and columns start at 1. */
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+/** A console argument or REPL result, serialized in the preview iframe so it can be inspected in the IDE. */
+export interface ConsoleValue {
+  kind: 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'undefined' | 'null' | 'function' | 'object' | 'array' | 'map' | 'set' | 'date' | 'regexp' | 'error' | 'node' | 'circular';
+  /** One line, e.g. `{id: 1, name: "Ada"}` or `Array(3) [1, 2, 3]`. Strings are not quoted. */
+  preview: string;
+  /** Properties or items of values that can be expanded. Absent once the serialization depth is reached. */
+  entries?: { key: string; value: ConsoleValue }[];
+  /** Not every property or item was serialized. */
+  isTruncated?: boolean;
+  /** For errors. */
+  stack?: string;
+}
+
+/** The data of a console.table() call. */
+export interface ConsoleTable {
+  columns: string[];
+  rows: { index: string; cells: { [column: string]: ConsoleValue } }[];
+}
+
 export interface LogMessage {
   level: 'log' | 'debug' | 'info' | 'warn' | 'error';
+  /** The message as text. This is what the AI sees and what the console search matches. */
   message: string;
   timestamp: Date;
+  /** The console arguments as inspectable values, when the message came from the preview's console. */
+  args?: ConsoleValue[];
+  table?: ConsoleTable;
+  stack?: string;
+  /** Ids of the console.group()s the message was logged in, outermost first. */
+  groupIds?: number[];
+  /** Set on the message a console.group() call logged; the messages logged in the group can be folded under it. */
+  group?: { id: number; isCollapsed: boolean };
+  /** Set on expressions typed into the console and their results. These are not sent to the AI. */
+  replRole?: 'input' | 'result';
+  /** Where in the workspace sources the error was raised, when its stack trace or message says. */
+  location?: SourceLocation;
+}
+
+/** An error thrown by a test or while loading a test file, with its stack trace mapped to the workspace sources. */
+export interface TestError {
+  message: string;
+  stack?: string;
+  location?: SourceLocation;
+}
+
+export interface TestCaseResult {
+  /** The names of the enclosing `describe` blocks, outermost first. */
+  ancestors: string[];
+  name: string;
+  status: 'passed' | 'failed' | 'skipped' | 'todo';
+  duration: number; // ms
+  error?: TestError;
+}
+
+export interface TestFileResult {
+  path: string;
+  tests: TestCaseResult[];
+  /** Set when the file could not be loaded, or a hook outside any test failed. */
+  error?: TestError;
+  duration: number; // ms
+}
+
+export type LLMProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AIProviderSettings {
+  providerId: LLMProviderId;
+  model: string;
+  baseUrl?: string; // only used by the OpenAI-compatible provider
+  apiKey?: string;
+  contextBudget?: number; // tokens per request; DEFAULT_CONTEXT_BUDGET when unset
+}
+
+export type SnapshotReason = 'ai_task' | 'autopilot' | 'repair' | 'file_operation' | 'manual_edit' | 'restore' | 'revert';
+
+export interface WorkspaceSnapshot {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  label: string;
+  fileSystem: FileSystemTree; // the tree as it was *before* the change
+  taskId?: string; // the AITask whose changes followed this snapshot
+  editedPath?: string; // for manual edits, the file being edited
+}
+
+/** One viewport of a visual checkpoint run. Images are PNG data URLs. */
+export interface VisualCheckpointResult {
+  width: number;
+  height: number;
+  image: string;
+  diffImage?: string; // only kept when the comparison failed
+  mismatchRatio: number; // share of pixels that differ from the baseline
+  passed: boolean;
+}
+
+export interface VisualCheckpointRun {
+  ranAt: string;
+  passed: boolean;
+  results: VisualCheckpointResult[];
+  error?: string; // the preview could not be captured
+}
+
+/** A named view of the preview whose look is compared against approved baseline captures. */
+export interface VisualCheckpoint {
+  id: string;
+  name: string;
+  selector?: string; // captures only this element instead of the whole page
+  viewports: { width: number; height: number }[];
+  baselines: { [viewportKey: string]: string }; // keyed by `${width}x${height}`
+  createdAt: string;
+  lastRun?: VisualCheckpointRun;
 }
 
 export interface Workspace {
@@ -68,15 +256,65 @@ export interface Workspace {
   fileSystem: FileSystemTree;
   tasks: AITask[];
   createdAt: string;
+  aiSettings?: AIProviderSettings;
+  history?: WorkspaceSnapshot[]; // newest first
+  visualCheckpoints?: VisualCheckpoint[];
+  autoPilotPolicy?: AutoPilotPolicy;
+}
+
+/** What Auto-Pilot works towards and the limits it works within. Limits count from when Auto-Pilot was turned on. */
+export interface AutoPilotPolicy {
+  goal: string; // e.g. a backlog; when empty the AI picks its own improvements
+  intervalSeconds: number;
+  maxSteps?: number;
+  maxTokens?: number;
+  allowedPaths: string; // comma-separated globs; when set, only matching paths may be changed
+  deniedPaths: string; // comma-separated globs; matching paths are never changed
+  allowDeletions: boolean;
+  stopOnPreviewErrors: boolean;
+}
+
+/** How the main area is divided while files are open. */
+export type EditorLayout = 'single' | 'editor_preview' | 'two_editors';
+
+export type ViewportPresetId = 'responsive' | 'mobile' | 'tablet' | 'desktop' | 'custom';
+
+/** The size and settings the preview iframe is rendered with. */
+export interface PreviewViewport {
+    /** 'responsive' fills the preview pane and ignores the size below. */
+    preset: ViewportPresetId;
+    /** CSS pixels, before rotation. */
+    width: number;
+    height: number;
+    /** Swaps width and height. */
+    isRotated: boolean;
+    /** Scale of the device frame on screen; 'fit' shrinks it to fit the pane. */
+    zoom: number | 'fit';
+    /** Emulated `prefers-color-scheme` media feature. */
+    colorScheme: 'light' | 'dark';
 }
 
+export type PreviewTab = 'preview' | 'console' | 'tests';
+
 export interface WorkspaceUiState {
     activeOverlay: OverlayPanelId | null;
+    /** The tab shown in the primary editor pane. When null the preview takes the whole main area. */
     activeEditorPath: string | null;
+    openEditorPaths: string[];
+    /** The tab shown in the second pane of the 'two_editors' layout. */
+    secondaryEditorPath: string | null;
+    editorLayout: EditorLayout;
     isPreviewFullscreen: boolean;
     aiPrompt: string;
-    previewTab: 'preview' | 'console';
+    previewTab: PreviewTab;
+    previewViewport: PreviewViewport;
     isAutoPilotOn: boolean;
+    /** When Auto-Pilot was last turned on; its step and token limits count from here. */
+    autoPilotStartedAt: string | null;
+    /** Why Auto-Pilot last turned itself off. */
+    autoPilotStopReason: string | null;
+    /** Render applied AI changes in the background and let the AI repair the errors they cause. */
+    isVerificationOn: boolean;
 }
 
 export interface SelectedElement {
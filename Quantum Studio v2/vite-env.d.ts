@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+/** Package versions of the preview runtimes, injected by `vite.config.ts`. */
+declare const __PREVIEW_RUNTIME_VERSIONS__: { [name: string]: string };
+
+/** URL of a seeded npm package, bundled into one ES module by `vite.config.ts`. */
+declare module 'preview-package:*' {
+    const url: string;
+    export default url;
+}
+
+/** URL of the React runtime loaded into the preview, bundled as an ES module by `vite.config.ts`. */
+declare module 'preview-runtime:react' {
+    const url: string;
+    export default url;
+}
@@ -1,13 +1,105 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { build, defineConfig, loadEnv, type Plugin, type Rollup } from 'vite';
+
+// Packages the live preview runs on. Their versions are baked into the app so the preview runtime is versioned.
+const PREVIEW_RUNTIME_PACKAGES = ['react', 'react-dom', 'react-refresh', '@babel/standalone', '@tailwindcss/browser'];
+// npm packages bundled with the app so previews can import them offline (see `services/previewPackages.ts`).
+const PREVIEW_SEEDED_PACKAGES = ['clsx', 'zustand', 'lucide-react', 'framer-motion'];
+
+const readPackageVersion = (name: string): string =>
+    JSON.parse(fs.readFileSync(path.resolve(__dirname, 'node_modules', name, 'package.json'), 'utf-8')).version;
+
+interface PreviewBundle {
+    /** Module to bundle: a package name or a file path. */
+    input: string;
+    fileName: string;
+    /** Packages leave React external, so they share the preview runtime's React through its import map. */
+    externalReact: boolean;
+    /** The runtime uses React's development build, which Fast Refresh needs. */
+    mode: 'development' | 'production';
+}
+
+// Imported as `preview-runtime:react` or `preview-package:<name>` for the URL of the bundle.
+const PREVIEW_BUNDLES: { [id: string]: PreviewBundle } = {
+    'preview-runtime:react': { input: path.resolve(__dirname, 'services/previewReactRuntime.ts'), fileName: 'previewReactRuntime', externalReact: false, mode: 'development' },
+    ...Object.fromEntries(PREVIEW_SEEDED_PACKAGES.map(name => [
+        `preview-package:${name}`,
+        { input: name, fileName: name.replace('/', '-'), externalReact: true, mode: 'production' },
+    ])),
+};
+
+const isReactImport = (id: string) => ['react', 'react-dom'].some(name => id === name || id.startsWith(`${name}/`));
+
+const bundlePreviewModule = async ({ input, externalReact, mode }: PreviewBundle): Promise<string> => {
+    const result = await build({
+        configFile: false,
+        root: __dirname,
+        publicDir: false,
+        logLevel: 'warn',
+        mode,
+        define: { 'process.env.NODE_ENV': JSON.stringify(mode) },
+        build: {
+            write: false,
+            modulePreload: false,
+            rollupOptions: {
+                input,
+                external: externalReact ? isReactImport : [],
+                preserveEntrySignatures: 'strict',
+                // "use client" directives mean nothing outside server components.
+                onwarn: (warning, warn) => { if (warning.code !== 'MODULE_LEVEL_DIRECTIVE') warn(warning); },
+                output: { format: 'es', inlineDynamicImports: true },
+            },
+        },
+    }) as Rollup.RollupOutput;
+    return result.output[0].code;
+};
+
+/**
+ * Serves the preview runtime and every seeded package as standalone ES modules, bundled separately
+ * from the app. Importing one of the `PREVIEW_BUNDLES` ids gives its URL: an emitted asset in builds,
+ * and a route that bundles it on first request in dev.
+ */
+const previewBundlesPlugin = (): Plugin => {
+    const bundles = new Map<string, Promise<string>>();
+    const getBundle = (id: string) => {
+        if (!bundles.has(id)) bundles.set(id, bundlePreviewModule(PREVIEW_BUNDLES[id]));
+        return bundles.get(id)!;
+    };
+    let isServe = false;
+    return {
+        name: 'quantum-preview-bundles',
+        configResolved: (config) => { isServe = config.command === 'serve'; },
+        resolveId: (id) => PREVIEW_BUNDLES[id] ? `\0${id}` : null,
+        async load(id) {
+            const bundleId = id.substring(1);
+            if (!id.startsWith('\0') || !PREVIEW_BUNDLES[bundleId]) return null;
+            if (isServe) return `export default ${JSON.stringify(`/@preview-bundles/${encodeURIComponent(bundleId)}.js`)};`;
+            const referenceId = this.emitFile({ type: 'asset', name: `${PREVIEW_BUNDLES[bundleId].fileName}.js`, source: await getBundle(bundleId) });
+            return `export default import.meta.ROLLUP_FILE_URL_${referenceId};`;
+        },
+        configureServer: (server) => {
+            server.middlewares.use('/@preview-bundles/', (req, res, next) => {
+                const bundleId = decodeURIComponent((req.url || '').substring(1).replace(/\.js(\?.*)?$/, ''));
+                if (!PREVIEW_BUNDLES[bundleId]) return next();
+                getBundle(bundleId).then(code => {
+                    res.setHeader('Content-Type', 'text/javascript');
+                    res.end(code);
+                }, next);
+            });
+        },
+    };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+        '__PREVIEW_RUNTIME_VERSIONS__': JSON.stringify(Object.fromEntries([...PREVIEW_RUNTIME_PACKAGES, ...PREVIEW_SEEDED_PACKAGES].map(name => [name, readPackageVersion(name)])))
       },
+      plugins: [previewBundlesPlugin()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),